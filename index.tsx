@@ -1,9 +1,12 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './src/App';
+import { registerServiceWorker } from './src/services/serviceWorker';
 
 const rootElement = document.getElementById('root');
 if (rootElement) {
   const root = createRoot(rootElement);
   root.render(<App />);
-}
\ No newline at end of file
+}
+
+registerServiceWorker();
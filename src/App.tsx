@@ -1,46 +1,95 @@
 
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useLayoutEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { Layout } from './components/Layout';
 import { Sidebar } from './components/Sidebar';
 import { JournalEditor } from './components/JournalEditor';
 import { JournalTable } from './components/JournalTable';
-import { JournalEntry } from './types';
-import { GOOGLE_CLIENT_ID, SCOPES, AUTOSAVE_INTERVAL_MS } from './constants';
-import { syncEntryToDrive, deleteEntryFromDrive, fetchAllEntriesFromDrive, AUTH_ERROR_MSG } from './services/driveService';
-import { getAllEntries, saveEntry, deleteEntry } from './services/storage';
-import { Cloud, Settings, AlertCircle, Loader2, Trash2, Smartphone, Globe, Copy, Check, RefreshCw, CloudUpload } from 'lucide-react';
+import { TrashView } from './components/TrashView';
+import { CalendarView } from './components/CalendarView';
+import { InsightsView } from './components/InsightsView';
+import { MoodScaleEditor } from './components/MoodScaleEditor';
+import { TagManager } from './components/TagManager';
+import { SettingsPanel } from './components/SettingsPanel';
+import { UpdatePrompt } from './components/UpdatePrompt';
+import { JournalEntry, EntryTombstone, MoodLevel, SmartFilter, StoredMoodScale, ViewMode } from './types';
+import { GOOGLE_CLIENT_ID, SCOPES } from './constants';
+import { fetchAllEntriesFromDrive, fetchChangesFromDrive, fetchTombstonesFromDrive, fetchMoodScaleFromDrive, saveMoodScaleToDrive, getStartPageToken, countLegacyDriveFiles, migrateLegacyDriveFiles, AUTH_ERROR_MSG } from './services/driveService';
+import { entryFileName } from './services/entryFormat';
+import { getAllEntries, getEntry, saveEntry, deleteEntry, getSyncBase, saveSyncBase, saveTombstone, getTombstone, getAllTombstones } from './services/storage';
+import { reconcileEntry, toSyncBase } from './services/merge';
+import { enqueueEntrySave, enqueueEntryDelete, cancelPendingForEntry, processOutbox, getPendingCount } from './services/syncQueue';
+import { expiredTrash, getTrashRetentionDays } from './services/trash';
+import { getSmartFilters, saveSmartFilter, deleteSmartFilter } from './services/smartFilters';
+import { getMoodScale, saveMoodScale, moodReassignments, applySharedMoodScale, unsyncedMoodScale } from './services/moodScale';
+import { renameTagInEntry, tagCounts } from './services/tags';
+import { storeAttachments } from './services/attachments';
+import { isShareLaunch, sharedEntryText, takeSharedContent } from './services/shareTarget';
+import { currentTimeZone } from './services/dateTime';
+import { getSettings, saveSettings } from './services/settings';
+import { useSettings } from './hooks/useSettings';
+import { useTheme } from './hooks/useTheme';
+import { useI18n } from './hooks/useI18n';
+import { applyLanguage } from './services/i18n';
+import { Cloud, Settings, AlertCircle, Loader2, Trash2, Smartphone, Globe, Copy, Check, RefreshCw, CloudUpload, FileUp } from 'lucide-react';
+
+/**
+ * Fingerprint of the fields autosave writes, to skip saves that change nothing
+ */
+const saveHash = (entry: JournalEntry) =>
+  JSON.stringify({ t: entry.title, c: entry.content, i: entry.images, m: entry.mood, g: entry.tags, d: entry.createdAt });
 
 export default function App() {
   // --- State ---
   const [entries, setEntries] = useState<JournalEntry[]>([]);
   const [activeEntry, setActiveEntry] = useState<JournalEntry | null>(null);
-  const [viewMode, setViewMode] = useState<'editor' | 'table'>('editor');
+  const [viewMode, setViewMode] = useState<ViewMode>(() => getSettings().defaultView);
+  const [smartFilters, setSmartFilters] = useState<SmartFilter[]>(getSmartFilters);
   const [isSaving, setIsSaving] = useState(false);
   const [isLoggedIn, setIsLoggedIn] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
   const [accessToken, setAccessToken] = useState<string | null>(null);
-  const [clientId, setClientId] = useState(localStorage.getItem('zenjournal_client_id') || GOOGLE_CLIENT_ID);
+  const [clientId, setClientId] = useState(getSettings().googleClientId || GOOGLE_CLIENT_ID);
   const [showSetup, setShowSetup] = useState(!clientId || clientId === 'YOUR_CLIENT_ID');
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   
   // Delete Confirmation State
   const [entryToDelete, setEntryToDelete] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [entriesToPurge, setEntriesToPurge] = useState<string[] | null>(null);
+
+  const [showMoodScale, setShowMoodScale] = useState(false);
+  const [showTagManager, setShowTagManager] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  // Subscribing also re-renders every date when the timezone or date format changes
+  const { syncOnFocus } = useSettings();
+  useTheme();
+  const { t, language } = useI18n();
+  useLayoutEffect(() => applyLanguage(language), [language]);
 
   // Save To Cloud Modal State
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [saveFileName, setSaveFileName] = useState('');
 
+  // Drive File Format Migration State
+  const [legacyFileCount, setLegacyFileCount] = useState(0);
+  const [migrationProgress, setMigrationProgress] = useState<{ done: number, total: number } | null>(null);
+
   // --- Refs ---
   const tokenClient = useRef<any>(null);
   const lastSavedHash = useRef<string>('');
   const saveTimeoutRef = useRef<any>(null);
   const isSavingRef = useRef(false);
   const pendingSaveRef = useRef<JournalEntry | null>(null);
+  const accessTokenRef = useRef<string | null>(null);
+  const isFlushingRef = useRef(false);
+  const outboxRetryRef = useRef<any>(null);
 
   // --- Initialization ---
   useEffect(() => {
-    loadLocalEntries();
+    loadLocalEntries().then(() => {
+      if (isShareLaunch()) openSharedEntry();
+    });
 
     const storedToken = localStorage.getItem('zenjournal_token');
     const storedExpiry = localStorage.getItem('zenjournal_token_expiry');
@@ -74,13 +123,15 @@ export default function App() {
   // Trigger Cloud Sync when logged in
   useEffect(() => {
     if (isLoggedIn && accessToken) {
-        // Small delay to ensure UI is ready
-        setTimeout(() => handleCloudSync(), 500);
+        // Small delay to ensure UI is ready. Queued writes go out after this pull,
+        // so whatever other devices saved meanwhile is merged in first.
+        setTimeout(() => handleCloudSync(false, true), 500);
     }
   }, [isLoggedIn, accessToken]);
 
   // Auto-sync on window focus/visibility change to keep devices in sync
   useEffect(() => {
+      if (!syncOnFocus) return;
       const onFocus = () => {
           if (document.visibilityState === 'visible' && isLoggedIn && !isSyncing && accessToken) {
               console.log("Window visible, checking for cloud updates...");
@@ -93,7 +144,23 @@ export default function App() {
         window.removeEventListener('focus', onFocus);
         document.removeEventListener('visibilitychange', onFocus);
       };
-  }, [isLoggedIn, isSyncing, accessToken]);
+  }, [isLoggedIn, isSyncing, accessToken, syncOnFocus]);
+
+  // A new token gets queued writes sent by the sync above
+  useEffect(() => {
+    accessTokenRef.current = accessToken;
+    getPendingCount().then(setPendingSyncCount);
+  }, [accessToken]);
+
+  // Replay queued Drive writes whenever the network comes back
+  useEffect(() => {
+      const onOnline = () => flushOutbox(true);
+      window.addEventListener('online', onOnline);
+      return () => {
+        window.removeEventListener('online', onOnline);
+        if (outboxRetryRef.current) clearTimeout(outboxRetryRef.current);
+      };
+  }, []);
 
   const initGoogleAuth = (cid: string) => {
     try {
@@ -121,54 +188,162 @@ export default function App() {
     }
   };
 
+  // Entries in the trash are kept in state but only shown in the Trash view
+  const liveEntries = entries.filter(e => !e.deletedAt);
+  const trashedEntries = entries.filter(e => e.deletedAt);
+  const allTags = useMemo(() => tagCounts(entries.filter(e => !e.deletedAt)).map(([tag]) => tag), [entries]);
+
   // --- Data Methods ---
   const loadLocalEntries = async () => {
-    const loaded = await getAllEntries();
+    let loaded = await getAllEntries();
+
+    // Purge entries that have been in the trash past the retention period
+    const expired = expiredTrash(loaded);
+    if (expired.length > 0) {
+      await purgeEntries(expired);
+      loaded = loaded.filter(e => !expired.includes(e));
+    }
+
     setEntries(loaded);
-    if (loaded.length > 0 && !activeEntry) {
-      setActiveEntry(loaded[0]);
-      lastSavedHash.current = JSON.stringify({ t: loaded[0].title, c: loaded[0].content, i: loaded[0].images, m: loaded[0].mood });
+    const firstLive = loaded.find(e => !e.deletedAt);
+    if (firstLive && !activeEntry) {
+      setActiveEntry(firstLive);
+      lastSavedHash.current = saveHash(firstLive);
     }
   };
 
-  const handleCloudSync = async () => {
+  /**
+   * Pull cloud changes into IndexedDB.
+   * Uses the Drive change log since the last stored page token; a full rescan
+   * only runs when there is no token yet, the log can't be read, or it's requested.
+   * Queued writes are sent afterwards; `forceFlush` sends them ahead of their retry schedule.
+   */
+  const handleCloudSync = async (fullRescan = false, forceFlush = false) => {
       if (!accessToken) return;
       setIsSyncing(true);
       try {
-          const cloudEntries = await fetchAllEntriesFromDrive(accessToken);
+          const storedPageToken = localStorage.getItem('zenjournal_drive_page_token');
+          let cloudEntries: JournalEntry[] = [];
+          let removedIds: string[] = [];
+          let remoteTrashed: EntryTombstone[] = [];
+          let remoteTombstones: EntryTombstone[] = [];
+          let remoteMoodScale: StoredMoodScale | null = null;
+          let nextPageToken: string | null = null;
+
+          if (storedPageToken && !fullRescan) {
+              try {
+                  const changes = await fetchChangesFromDrive(accessToken, storedPageToken);
+                  cloudEntries = changes.updated;
+                  removedIds = changes.removedIds;
+                  remoteTrashed = changes.trashed;
+                  remoteTombstones = changes.tombstones;
+                  remoteMoodScale = changes.moodScale;
+                  nextPageToken = changes.newStartPageToken;
+              } catch (err: any) {
+                  if (err.message === AUTH_ERROR_MSG) throw err;
+                  console.warn("Incremental sync failed, falling back to full rescan", err);
+              }
+          }
+
+          if (!nextPageToken) {
+              // Take the token first so edits made during the scan show up next time
+              nextPageToken = await getStartPageToken(accessToken);
+              cloudEntries = await fetchAllEntriesFromDrive(accessToken);
+              remoteTombstones = await fetchTombstonesFromDrive(accessToken);
+              remoteMoodScale = await fetchMoodScaleFromDrive(accessToken);
+          }
+
+          // Before the entries, so moods from other devices' levels resolve
+          await syncMoodScale(accessToken, remoteMoodScale);
           
-          const localMap = new Map<string, JournalEntry>(entries.map(e => [e.id, e]));
-          let hasChanges = false;
-          const mergedEntries = [...entries];
+          // Read from IndexedDB rather than state: this may run from a listener bound
+          // renders ago, and state can hold entries that were never saved
+          const localMap = new Map<string, JournalEntry>((await getAllEntries()).map(e => [e.id, e]));
+          const changed = new Map<string, JournalEntry>(); // New or replaced versions
+          const dropped = new Set<string>();
+
+          // Honor deletions from other devices: drop the entry and anything queued for it
+          const deletedIds = new Set((await getAllTombstones()).map(t => t.id));
+          for (const tombstone of remoteTombstones) {
+              deletedIds.add(tombstone.id);
+              await saveTombstone(tombstone);
+              if (localMap.has(tombstone.id)) {
+                  await cancelPendingForEntry(tombstone.id);
+                  await deleteEntry(tombstone.id);
+                  localMap.delete(tombstone.id);
+                  dropped.add(tombstone.id);
+              }
+          }
+
+          // Entries another device moved to the trash
+          for (const trashed of remoteTrashed) {
+              const localEntry = localMap.get(trashed.id);
+              if (!localEntry || localEntry.deletedAt) continue;
+              const updated = { ...localEntry, deletedAt: trashed.deletedAt };
+              await saveEntry(updated);
+              const base = await getSyncBase(trashed.id);
+              if (base) await saveSyncBase({ ...base, deletedAt: trashed.deletedAt });
+              localMap.set(trashed.id, updated);
+              changed.set(trashed.id, updated);
+          }
 
           for (const cloudEntry of cloudEntries) {
+              // Deleted entries whose Drive cleanup hasn't happened yet stay deleted
+              if (deletedIds.has(cloudEntry.id)) continue;
+
               const localEntry = localMap.get(cloudEntry.id);
               if (!localEntry) {
-                  mergedEntries.push(cloudEntry);
                   await saveEntry(cloudEntry);
-                  hasChanges = true;
-              } else if (cloudEntry.updatedAt > localEntry.updatedAt) {
-                  const index = mergedEntries.findIndex(e => e.id === cloudEntry.id);
-                  if (index !== -1) {
-                      mergedEntries[index] = cloudEntry;
-                      await saveEntry(cloudEntry);
-                      hasChanges = true;
+                  await saveSyncBase(toSyncBase(cloudEntry));
+                  localMap.set(cloudEntry.id, cloudEntry);
+                  changed.set(cloudEntry.id, cloudEntry);
+                  continue;
+              }
+
+              // Three-way merge against the version both sides last agreed on
+              const result = reconcileEntry(await getSyncBase(cloudEntry.id), localEntry, cloudEntry);
+              if (result.action === 'keep-local') continue;
+
+              await saveSyncBase(toSyncBase(cloudEntry));
+              if (result.action === 'in-sync') continue;
+
+              await saveEntry(result.entry);
+              if (result.action === 'merged') {
+                  await enqueueEntrySave(result.entry);
+              }
+              localMap.set(cloudEntry.id, result.entry);
+              changed.set(cloudEntry.id, result.entry);
+          }
+
+          // Apply removals: entries whose text file is gone. Entries that only lost an
+          // attachment came back with the updated entries and were merged above.
+          if (removedIds.length > 0) {
+              const removed = new Set(removedIds);
+              for (const entry of [...localMap.values()]) {
+                  if (removed.has(entry.id) || (entry.driveFileId && removed.has(entry.driveFileId))) {
+                      await deleteEntry(entry.id);
+                      localMap.delete(entry.id);
+                      changed.delete(entry.id);
+                      dropped.add(entry.id);
                   }
               }
           }
           
-          if (hasChanges) {
-              mergedEntries.sort((a, b) => b.updatedAt - a.updatedAt);
-              setEntries(mergedEntries);
-              if (activeEntry) {
-                 const updatedActive = mergedEntries.find(e => e.id === activeEntry.id);
-                 if (updatedActive && updatedActive.updatedAt !== activeEntry.updatedAt) {
-                     setActiveEntry(updatedActive);
-                 }
-              } else if (mergedEntries.length > 0) {
-                  // Only switch if we don't have an active entry
-                  if (!activeEntry) setActiveEntry(mergedEntries[0]);
-              }
+          if (changed.size > 0 || dropped.size > 0) {
+              const firstLive = [...localMap.values()]
+                  .filter(e => !e.deletedAt)
+                  .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+              applySyncedEntries(changed, dropped, firstLive || null);
+          }
+
+          localStorage.setItem('zenjournal_drive_page_token', nextPageToken);
+          flushOutbox(forceFlush);
+
+          // Offer the one-time upgrade of legacy .txt files
+          if (!localStorage.getItem('zenjournal_format_migration_offered')) {
+              const legacyCount = await countLegacyDriveFiles(accessToken);
+              if (legacyCount > 0) setLegacyFileCount(legacyCount);
+              else localStorage.setItem('zenjournal_format_migration_offered', 'true');
           }
 
       } catch (err) {
@@ -178,56 +353,270 @@ export default function App() {
       }
   };
 
-  const createNewEntry = () => {
+  /**
+   * Bring state in line with what a sync wrote to IndexedDB: `changed` holds new
+   * or replaced entries, `dropped` deleted ones. Applied to the latest state, as
+   * a sync can end well after it started. An active entry that is gone or was
+   * trashed gives way to `fallback`.
+   */
+  const applySyncedEntries = (changed: Map<string, JournalEntry>, dropped = new Set<string>(), fallback: JournalEntry | null = null) => {
+      setEntries(prev => {
+          const next = prev.filter(e => !dropped.has(e.id)).map(e => changed.get(e.id) || e);
+          const known = new Set(prev.map(e => e.id));
+          for (const entry of changed.values()) {
+              if (!known.has(entry.id)) next.push(entry);
+          }
+          return next.sort((a, b) => b.updatedAt - a.updatedAt);
+      });
+      setActiveEntry(current => {
+          if (!current || dropped.has(current.id)) return fallback;
+          const updated = changed.get(current.id);
+          if (!updated) return current;
+          return updated.deletedAt && !current.deletedAt ? fallback : updated;
+      });
+  };
+
+  /**
+   * Share the mood scale through Drive: a newer one there replaces this
+   * device's, and an edit made here is sent. A failed send waits for the next sync.
+   */
+  const syncMoodScale = async (token: string, fromDrive: StoredMoodScale | null = null) => {
+      try {
+          if (fromDrive) applySharedMoodScale(fromDrive);
+          const local = unsyncedMoodScale();
+          if (local) applySharedMoodScale(await saveMoodScaleToDrive(local, token));
+      } catch (err: any) {
+          if (err.message === AUTH_ERROR_MSG) throw err;
+          console.warn("Could not sync the mood scale", err);
+      }
+  };
+
+  /**
+   * Push queued writes to Drive. On failure the queue reschedules itself
+   * with backoff; returns how many operations are still waiting.
+   */
+  const flushOutbox = async (force = false): Promise<number> => {
+      const token = accessTokenRef.current;
+      if (!token || isFlushingRef.current) {
+          const pending = await getPendingCount();
+          setPendingSyncCount(pending);
+          return pending;
+      }
+
+      isFlushingRef.current = true;
+      if (outboxRetryRef.current) clearTimeout(outboxRetryRef.current);
+      try {
+          const result = await processOutbox(token, force);
+          setPendingSyncCount(result.remaining);
+          if (result.pulled.length > 0) {
+              applySyncedEntries(new Map(result.pulled.map(e => [e.id, e])));
+          }
+          if (result.nextAttemptAt !== null) {
+              const delay = Math.max(result.nextAttemptAt - Date.now(), 0);
+              outboxRetryRef.current = setTimeout(() => flushOutbox(), delay);
+          }
+          return result.remaining;
+      } catch (err: any) {
+          if (err.message === AUTH_ERROR_MSG) handleLogout();
+          const pending = await getPendingCount();
+          setPendingSyncCount(pending);
+          return pending;
+      } finally {
+          isFlushingRef.current = false;
+      }
+  };
+
+  const createNewEntry = (createdAt = Date.now()) => {
     const newEntry: JournalEntry = {
       id: Date.now().toString(),
       title: '',
       content: '',
-      createdAt: Date.now(),
+      createdAt,
       updatedAt: Date.now(),
+      timeZone: currentTimeZone(),
       images: []
     };
     
     setEntries([newEntry, ...entries]);
     setActiveEntry(newEntry);
     setViewMode('editor'); 
-    lastSavedHash.current = JSON.stringify({ t: newEntry.title, c: newEntry.content, i: newEntry.images, m: newEntry.mood });
+    lastSavedHash.current = saveHash(newEntry);
     saveEntry(newEntry);
   };
 
+  /**
+   * Start an entry from what another app shared with ZenJournal (text, a
+   * link, photos) and open it in the editor to finish
+   */
+  const openSharedEntry = async () => {
+    const shared = await takeSharedContent();
+    if (!shared) return;
+    const { stored, failures } = await storeAttachments(shared.files);
+    if (failures.length > 0) alert(failures.join('\n'));
+
+    const now = Date.now();
+    const newEntry: JournalEntry = {
+      id: now.toString(),
+      title: shared.title.trim(),
+      content: sharedEntryText(shared),
+      createdAt: now,
+      updatedAt: now,
+      timeZone: currentTimeZone(),
+      images: stored
+    };
+
+    setEntries(prev => [newEntry, ...prev]);
+    setActiveEntry(newEntry);
+    setViewMode('editor');
+    lastSavedHash.current = saveHash(newEntry);
+    await saveEntry(newEntry);
+    await enqueueEntrySave(newEntry, stored.map(img => img.id));
+    await flushOutbox();
+  };
+
   const handleRequestDelete = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
     setEntryToDelete(id);
   };
 
+  /**
+   * Move an entry to the trash. Drive gets the same treatment (its file goes to
+   * Drive's trash) through the outbox.
+   */
   const confirmDelete = async () => {
     if (!entryToDelete) return;
     setIsDeleting(true);
-    const entry = entries.find(e => e.id === entryToDelete);
 
-    if (entry && accessToken) {
-      try {
-        await deleteEntryFromDrive(entry, accessToken);
-      } catch (e: any) {
-        if (e.message === AUTH_ERROR_MSG) {
-          handleLogout();
-          alert("Session expired while deleting. Please reconnect.");
-        }
-      }
-    }
-    
-    await deleteEntry(entryToDelete);
-    const newEntries = entries.filter(x => x.id !== entryToDelete);
-    setEntries(newEntries);
-    
+    // A pending autosave must not bring the entry back
     if (activeEntry?.id === entryToDelete) {
-      setActiveEntry(newEntries[0] || null);
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+      pendingSaveRef.current = null;
+    }
+
+    // Trash the latest stored version (an edit may still be in flight in state)
+    const stored = await getEntry(entryToDelete) || entries.find(e => e.id === entryToDelete);
+    if (stored) {
+      const trashed = { ...stored, deletedAt: Date.now(), updatedAt: Date.now() };
+      await saveEntry(trashed);
+      await enqueueEntrySave(trashed);
+      const newEntries = entries.map(e => e.id === trashed.id ? trashed : e);
+      setEntries(newEntries);
+
+      if (activeEntry?.id === entryToDelete) {
+        setActiveEntry(newEntries.find(e => !e.deletedAt) || null);
+      }
+      await flushOutbox();
     }
     
     setIsDeleting(false);
     setEntryToDelete(null);
   };
 
+  const handleRestoreEntry = async (id: string) => {
+    const stored = await getEntry(id);
+    if (!stored) return;
+    const restored = { ...stored, deletedAt: undefined, updatedAt: Date.now() };
+    await saveEntry(restored);
+    await enqueueEntrySave(restored);
+    setEntries(prev => prev.map(e => e.id === id ? restored : e).sort((a, b) => b.updatedAt - a.updatedAt));
+    await flushOutbox();
+  };
+
+  /**
+   * Save an edited mood scale. Entries whose mood was removed move to the
+   * closest remaining one and sync like any edit; the scale itself is shared
+   * with the other devices through Drive.
+   */
+  const handleSaveMoodScale = async (levels: MoodLevel[]) => {
+    const moves = moodReassignments(entries, getMoodScale(), levels);
+    saveMoodScale(levels);
+    setShowMoodScale(false);
+    const now = Date.now();
+    await saveEditedEntries(
+      entries.filter(e => moves.has(e.id)).map(e => ({ ...e, mood: moves.get(e.id), updatedAt: now }))
+    );
+    if (accessToken) await syncMoodScale(accessToken).catch(err => console.error("Mood scale sync failed", err));
+  };
+
+  /**
+   * Rename a tag in every entry (chips and #hashtags). Renaming to a tag that
+   * already exists merges the two.
+   */
+  const handleRenameTag = async (from: string, to: string) => {
+    await saveEditedEntries(
+      // The open entry may hold edits autosave hasn't written yet
+      entries.map(e => renameTagInEntry(e.id === activeEntry?.id ? activeEntry : e, from, to))
+        .filter((e): e is JournalEntry => e !== null)
+    );
+  };
+
+  /**
+   * Save entries changed in bulk (not through the editor) and sync them
+   */
+  const saveEditedEntries = async (edited: JournalEntry[]) => {
+    if (edited.length === 0) return;
+    const byId = new Map(edited.map(e => [e.id, e]));
+    for (const entry of edited) {
+      await saveEntry(entry);
+      await enqueueEntrySave(entry);
+    }
+    setEntries(prev => prev.map(e => byId.get(e.id) || e).sort((a, b) => b.updatedAt - a.updatedAt));
+    if (activeEntry && byId.has(activeEntry.id)) {
+      const updated = byId.get(activeEntry.id)!;
+      setActiveEntry(updated);
+      lastSavedHash.current = saveHash(updated);
+    }
+    await flushOutbox();
+  };
+
+  /**
+   * Delete entries for good: tombstone locally, queue the Drive delete so it
+   * still happens if we're offline right now, then drop the local records.
+   */
+  const purgeEntries = async (toPurge: JournalEntry[]) => {
+    for (const entry of toPurge) {
+      await saveTombstone({ id: entry.id, deletedAt: Date.now() });
+      await enqueueEntryDelete(entry);
+      await deleteEntry(entry.id);
+    }
+    const purgedIds = new Set(toPurge.map(e => e.id));
+    setEntries(prev => prev.filter(e => !purgedIds.has(e.id)));
+    await flushOutbox();
+  };
+
+  const confirmPurge = async () => {
+    if (!entriesToPurge) return;
+    setIsDeleting(true);
+    await purgeEntries(entries.filter(e => entriesToPurge.includes(e.id)));
+    setIsDeleting(false);
+    setEntriesToPurge(null);
+  };
+
+  // --- File Format Migration ---
+  const handleMigrateLegacyFiles = async () => {
+    if (!accessToken) return;
+    setMigrationProgress({ done: 0, total: legacyFileCount });
+    try {
+        const migrated = await migrateLegacyDriveFiles(entries, accessToken, (done, total) => setMigrationProgress({ done, total }));
+        if (migrated < legacyFileCount) {
+            alert(t('app.migrationFailed'));
+        } else {
+            localStorage.setItem('zenjournal_format_migration_offered', 'true');
+        }
+    } catch (err: any) {
+        if (err.message === AUTH_ERROR_MSG) handleLogout();
+        console.error("Migration failed", err);
+    } finally {
+        setMigrationProgress(null);
+        setLegacyFileCount(0);
+    }
+  };
+
+  const dismissMigration = () => {
+    localStorage.setItem('zenjournal_format_migration_offered', 'true');
+    setLegacyFileCount(0);
+  };
+
   // --- Manual Save Logic ---
   const handleManualSaveRequest = () => {
     console.log("Manual save requested");
@@ -239,10 +628,7 @@ export default function App() {
     if (!activeEntry) return;
     
     // Default filename
-    const safeTitle = activeEntry.title.replace(/[/\\?%*:|"<>\x00-\x1F]/g, '_').trim() || 'Untitled';
-    const defaultName = activeEntry.driveFileName || `${safeTitle}.txt`;
-    
-    setSaveFileName(defaultName);
+    setSaveFileName(entryFileName(activeEntry));
     setShowSaveModal(true);
   };
 
@@ -259,11 +645,12 @@ export default function App() {
     setIsSaving(true);
     
     try {
-        await syncEntryToDrive(updatedEntry, accessToken);
-    } catch (err: any) {
-        if (err.message === AUTH_ERROR_MSG) handleLogout();
-        console.error("Manual save failed", err);
-        alert("Failed to save to Drive. Please check connection.");
+        // Re-send every image too: the user asked for a complete copy online
+        await enqueueEntrySave(updatedEntry, updatedEntry.images.map(img => img.id));
+        const remaining = await flushOutbox(true);
+        if (remaining > 0) {
+            alert(t('app.driveUnreachable'));
+        }
     } finally {
         setIsSaving(false);
     }
@@ -281,11 +668,11 @@ export default function App() {
     if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
     saveTimeoutRef.current = setTimeout(() => {
       performSave(entryWithTimestamp);
-    }, AUTOSAVE_INTERVAL_MS);
+    }, getSettings().autosaveDelayMs);
   };
 
   const performSave = async (entry: JournalEntry) => {
-    const currentHash = JSON.stringify({ t: entry.title, c: entry.content, i: entry.images, m: entry.mood });
+    const currentHash = saveHash(entry);
     if (currentHash === lastSavedHash.current && !pendingSaveRef.current) return;
 
     if (isSavingRef.current) {
@@ -297,15 +684,26 @@ export default function App() {
     setIsSaving(true);
 
     try {
-      await saveEntry(entry);
+      // Deleted here or on another device since this edit was made
+      if (await getTombstone(entry.id)) return;
+
+      const previous = await getEntry(entry.id);
+      // Trashed since this edit was made
+      if (previous?.deletedAt) return;
+      // A conflict may have been detected by a sync since this edit was made
+      const toSave = previous?.conflict ? { ...entry, conflict: previous.conflict } : entry;
+      await saveEntry(toSave);
       lastSavedHash.current = currentHash;
-      if (accessToken) {
-        await syncEntryToDrive(entry, accessToken);
-      }
-    } catch (err: any) {
-      if (err.message === AUTH_ERROR_MSG) {
-        handleLogout();
+
+      // Record the Drive write durably, then try to send it right away.
+      // Conflicted entries stay local until the conflict is resolved.
+      if (!toSave.conflict) {
+        const knownImageIds = new Set(previous?.images.map(img => img.id) || []);
+        await enqueueEntrySave(toSave, toSave.images.filter(img => !knownImageIds.has(img.id)).map(img => img.id));
+        await flushOutbox();
       }
+    } catch (err) {
+      console.error("Save failed", err);
     } finally {
       setIsSaving(false);
       isSavingRef.current = false;
@@ -319,6 +717,24 @@ export default function App() {
     }
   };
 
+  // --- Conflict Resolution ---
+  const handleResolveConflict = async (resolved: JournalEntry) => {
+    // Drop any pending autosave of the pre-resolution text
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    pendingSaveRef.current = null;
+
+    const entry = { ...resolved, conflict: undefined, updatedAt: Date.now() };
+    setActiveEntry(entry);
+    setEntries(prev => prev.map(e => e.id === entry.id ? entry : e).sort((a, b) => b.updatedAt - a.updatedAt));
+    lastSavedHash.current = saveHash(entry);
+
+    const previous = await getEntry(entry.id);
+    await saveEntry(entry);
+    const knownImageIds = new Set(previous?.images.map(img => img.id) || []);
+    await enqueueEntrySave(entry, entry.images.filter(img => !knownImageIds.has(img.id)).map(img => img.id));
+    await flushOutbox();
+  };
+
   // --- Auth Methods ---
   const handleLogin = () => {
     if (tokenClient.current) {
@@ -330,10 +746,10 @@ export default function App() {
          // Retry request after short delay
          setTimeout(() => {
              if(tokenClient.current) tokenClient.current.requestAccessToken();
-             else alert("Google Auth service not ready. Please refresh or check internet.");
+             else alert(t('app.authNotReady'));
          }, 500);
       } else {
-         alert("Google Auth script not loaded. Please check internet connection.");
+         alert(t('app.authNotLoaded'));
       }
     }
   };
@@ -349,7 +765,7 @@ export default function App() {
   };
 
   const handleSaveClientId = (id: string) => {
-    localStorage.setItem('zenjournal_client_id', id);
+    saveSettings({ googleClientId: id });
     setClientId(id);
     setShowSetup(false);
     window.location.reload();
@@ -369,27 +785,27 @@ export default function App() {
 
     return (
       <div className="min-h-screen bg-paper flex items-center justify-center p-4">
-        <div className="bg-white p-8 rounded-2xl shadow-xl max-w-md w-full border border-stone-100 max-h-[90vh] overflow-y-auto">
+        <div className="bg-surface p-8 rounded-2xl shadow-xl max-w-md w-full border border-stone-100 max-h-[90vh] overflow-y-auto">
           {/* Setup Form Content */}
           <div className="flex justify-center mb-6">
             <div className="bg-stone-100 p-4 rounded-full">
               <Settings className="w-8 h-8 text-stone-600" />
             </div>
           </div>
-          <h1 className="text-2xl font-serif font-bold text-center text-ink mb-2">Setup ZenJournal</h1>
+          <h1 className="text-2xl font-serif font-bold text-center text-ink mb-2">{t('setup.title')}</h1>
           <p className="text-stone-500 text-center mb-6 text-sm">
-            Configure Google Cloud to enable syncing across devices.
+            {t('setup.subtitle')}
           </p>
           
           <div className="mb-6 bg-amber-50 border border-amber-100 rounded-lg p-4">
              <div className="flex items-start gap-3">
                  <Globe className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
                  <div className="flex-1">
-                    <h3 className="text-sm font-bold text-amber-900 mb-1">Authorize This Website</h3>
+                    <h3 className="text-sm font-bold text-amber-900 mb-1">{t('setup.authorizeTitle')}</h3>
                     <p className="text-xs text-amber-800 leading-relaxed mb-2">
-                        Add this URL to "Authorized JavaScript origins" in Google Cloud Console.
+                        {t('setup.authorizeBody')}
                     </p>
-                    <div className="flex items-center bg-white border border-amber-200 rounded px-2 py-1.5">
+                    <div className="flex items-center bg-surface border border-amber-200 rounded px-2 py-1.5">
                         <code className="text-xs text-stone-600 flex-1 overflow-hidden text-ellipsis font-mono">{currentOrigin}</code>
                         <button onClick={copyOrigin} className="text-amber-600 hover:text-amber-800 p-1">
                             {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
@@ -400,7 +816,7 @@ export default function App() {
           </div>
 
           <form onSubmit={(e) => { e.preventDefault(); handleSaveClientId((e.target as any).cid.value); }}>
-            <label className="block text-xs font-bold uppercase tracking-wider text-stone-400 mb-2">Google Client ID</label>
+            <label className="block text-xs font-bold uppercase tracking-wider text-stone-400 mb-2">{t('setup.clientId')}</label>
             <input 
               name="cid"
               defaultValue={clientId === 'YOUR_CLIENT_ID' ? '' : clientId}
@@ -410,30 +826,30 @@ export default function App() {
             />
             
             <div className="bg-blue-50 text-blue-800 p-4 rounded-lg text-xs mb-6 leading-relaxed">
-              <strong>Instructions:</strong><br/>
-              1. Go to <a href="https://console.cloud.google.com/" target="_blank" className="underline">Google Cloud Console</a>.<br/>
-              2. Create a Project &gt; APIs &amp; Services &gt; Credentials.<br/>
-              3. Create "OAuth Client ID" &gt; Web Application.<br/>
+              <strong>{t('setup.instructions')}</strong><br/>
+              {t('setup.step1')} <a href="https://console.cloud.google.com/" target="_blank" className="underline">Google Cloud Console</a>.<br/>
+              {t('setup.step2')}<br/>
+              {t('setup.step3')}<br/>
             </div>
 
             {isLocal && (
                 <div className="mb-6 p-4 border border-stone-200 rounded-lg bg-stone-50">
                     <div className="flex items-center gap-2 mb-2 text-stone-800 font-bold text-xs uppercase tracking-wider">
                         <Smartphone className="w-4 h-4" />
-                        Mobile Testing
+                        {t('setup.mobileTitle')}
                     </div>
                     <p className="text-xs text-stone-500">
-                        To use on phone, deploy to Netlify/Vercel and add the new URL to Google Cloud.
+                        {t('setup.mobileBody')}
                     </p>
                 </div>
             )}
 
-            <button className="w-full bg-stone-900 text-white font-bold py-3 rounded-lg hover:bg-stone-800 transition-colors shadow-lg">
-              Save & Connect
+            <button className="w-full bg-stone-900 text-surface font-bold py-3 rounded-lg hover:bg-stone-800 transition-colors shadow-lg">
+              {t('setup.saveConnect')}
             </button>
             
             <button type="button" onClick={() => setShowSetup(false)} className="w-full mt-3 text-stone-400 text-xs hover:text-stone-600 underline">
-              Skip (Offline Mode Only)
+              {t('setup.skip')}
             </button>
           </form>
         </div>
@@ -445,9 +861,9 @@ export default function App() {
     <Layout>
       <div className="flex h-screen w-full bg-paper fade-in overflow-hidden">
         
-        <div className={`fixed inset-y-0 left-0 z-30 transform ${isMobileMenuOpen ? 'translate-x-0' : '-translate-x-full'} md:relative md:translate-x-0 transition-transform duration-300 ease-in-out h-full flex`}>
+        <div className={`fixed inset-y-0 start-0 z-30 transform ${isMobileMenuOpen ? 'translate-x-0' : '-translate-x-full rtl:translate-x-full'} md:relative md:translate-x-0 transition-transform duration-300 ease-in-out h-full flex`}>
           <Sidebar 
-            entries={entries}
+            entries={liveEntries}
             activeId={activeEntry?.id || null}
             viewMode={viewMode}
             onViewChange={setViewMode}
@@ -455,16 +871,23 @@ export default function App() {
                 setActiveEntry(entry); 
                 setViewMode('editor'); 
                 setIsMobileMenuOpen(false); 
-                lastSavedHash.current = JSON.stringify({ t: entry.title, c: entry.content, i: entry.images, m: entry.mood });
+                lastSavedHash.current = saveHash(entry);
             }}
-            onCreate={createNewEntry}
+            onCreate={() => createNewEntry()}
             onDelete={handleRequestDelete}
             isLoggedIn={isLoggedIn}
             isSyncing={isSyncing}
+            pendingSyncCount={pendingSyncCount}
+            trashCount={trashedEntries.length}
+            smartFilters={smartFilters}
+            onDeleteSmartFilter={(id) => setSmartFilters(deleteSmartFilter(id))}
+            onManageTags={() => setShowTagManager(true)}
             onLogin={handleLogin}
             onLogout={handleLogout}
-            onSync={handleCloudSync}
+            onSync={() => handleCloudSync(false, true)}
+            onFullRescan={() => handleCloudSync(true)}
             onResetConfig={() => setShowSetup(true)}
+            onOpenSettings={() => setShowSettings(true)}
           />
         </div>
 
@@ -474,58 +897,130 @@ export default function App() {
 
         <main className="flex-grow flex flex-col h-full relative w-full">
             {/* Mobile Header Button - Z-Index bumped to 60 to float above editor header */}
-            <div className="md:hidden absolute top-4 left-4 z-[60]">
-                <button onClick={() => setIsMobileMenuOpen(true)} className="p-2 bg-white border border-stone-200 rounded-full shadow-sm text-stone-600">
+            <div className="md:hidden absolute top-4 start-4 z-[60]">
+                <button onClick={() => setIsMobileMenuOpen(true)} title={t('app.openMenu')} className="p-2 bg-surface border border-stone-200 rounded-full shadow-sm text-stone-600">
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6h16M4 12h16M4 18h16"></path></svg>
                 </button>
             </div>
 
-            {viewMode === 'table' ? (
+            {viewMode === 'trash' ? (
+                 <TrashView
+                    entries={trashedEntries}
+                    onRestore={handleRestoreEntry}
+                    onPurge={setEntriesToPurge}
+                 />
+            ) : viewMode === 'insights' ? (
+                 <InsightsView entries={liveEntries} />
+            ) : viewMode === 'calendar' ? (
+                 <CalendarView
+                    entries={liveEntries}
+                    onSelect={(entry) => {
+                        setActiveEntry(entry);
+                        setViewMode('editor');
+                        lastSavedHash.current = saveHash(entry);
+                    }}
+                    onCreate={createNewEntry}
+                 />
+            ) : viewMode === 'table' ? (
                  <JournalTable 
-                    entries={entries} 
+                    entries={liveEntries} 
                     onSelect={(entry) => { 
                         setActiveEntry(entry); 
                         setViewMode('editor');
-                        lastSavedHash.current = JSON.stringify({ t: entry.title, c: entry.content, i: entry.images, m: entry.mood });
+                        lastSavedHash.current = saveHash(entry);
                     }}
                     onDelete={handleRequestDelete}
+                    onSaveSmartFilter={(name, query) => setSmartFilters(saveSmartFilter(name, query))}
                  />
             ) : activeEntry ? (
                 <JournalEditor 
                     entry={activeEntry} 
                     onUpdate={handleUpdateEntry}
                     onSaveToCloud={handleManualSaveRequest}
+                    onResolveConflict={handleResolveConflict}
                     isSaving={isSaving}
+                    onEditMoodScale={() => setShowMoodScale(true)}
+                    tagSuggestions={allTags}
                 />
             ) : (
                 <div className="flex flex-col items-center justify-center h-full text-stone-300">
                     <div className="w-16 h-16 rounded-full bg-stone-100 flex items-center justify-center mb-4">
                         <Settings className="w-8 h-8 text-stone-300" />
                     </div>
-                    <p className="text-lg font-serif">Select an entry or create a new one</p>
+                    <p className="text-lg font-serif">{t('app.emptyState')}</p>
                 </div>
             )}
         </main>
 
-        {/* Delete Confirmation Modal */}
+        {/* Move To Trash Confirmation Modal */}
         {entryToDelete && (
           <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-stone-900/20 backdrop-blur-sm animate-in fade-in duration-200">
-            <div className="bg-white rounded-xl shadow-2xl border border-stone-100 p-6 max-w-sm w-full transform transition-all scale-100">
-              <div className="flex items-center space-x-3 mb-4 text-red-600">
+            <div className="bg-surface rounded-xl shadow-2xl border border-stone-100 p-6 max-w-sm w-full transform transition-all scale-100">
+              <div className="flex items-center space-x-3 rtl:space-x-reverse mb-4 text-red-600">
                 <div className="p-2 bg-red-50 rounded-full">
                   <Trash2 className="w-6 h-6" />
                 </div>
-                <h3 className="text-lg font-bold text-stone-900">Delete Entry?</h3>
+                <h3 className="text-lg font-bold text-stone-900">{t('trashDialog.title')}</h3>
               </div>
               <p className="text-stone-600 text-sm leading-relaxed mb-6">
-                Are you sure you want to delete this journal entry? This action cannot be undone.
+                {t('trashDialog.body', { count: getTrashRetentionDays() })}
               </p>
-              <div className="flex justify-end space-x-3">
+              <div className="flex justify-end space-x-3 rtl:space-x-reverse">
                 <button onClick={() => !isDeleting && setEntryToDelete(null)} disabled={isDeleting} className="px-4 py-2.5 text-stone-600 text-sm font-medium hover:bg-stone-100 rounded-lg transition-colors disabled:opacity-50">
-                  Cancel
+                  {t('common.cancel')}
                 </button>
                 <button onClick={confirmDelete} disabled={isDeleting} className="px-4 py-2.5 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 shadow-sm transition-colors flex items-center disabled:bg-red-400">
-                  {isDeleting ? (<><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Deleting...</>) : "Yes, Delete"}
+                  {isDeleting ? (<><Loader2 className="w-4 h-4 me-2 animate-spin" /> {t('trashDialog.moving')}</>) : t('trashDialog.confirm')}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {showMoodScale && (
+          <MoodScaleEditor
+            entries={entries}
+            onSave={handleSaveMoodScale}
+            onClose={() => setShowMoodScale(false)}
+          />
+        )}
+
+        {showTagManager && (
+          <TagManager
+            entries={liveEntries}
+            onRename={handleRenameTag}
+            onClose={() => setShowTagManager(false)}
+          />
+        )}
+
+        {showSettings && (
+          <SettingsPanel
+            onConfigureClientId={() => { setShowSettings(false); setShowSetup(true); }}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+
+        {/* Permanent Delete Confirmation Modal */}
+        {entriesToPurge && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-stone-900/20 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-surface rounded-xl shadow-2xl border border-stone-100 p-6 max-w-sm w-full transform transition-all scale-100">
+              <div className="flex items-center space-x-3 rtl:space-x-reverse mb-4 text-red-600">
+                <div className="p-2 bg-red-50 rounded-full">
+                  <Trash2 className="w-6 h-6" />
+                </div>
+                <h3 className="text-lg font-bold text-stone-900">
+                  {t('purgeDialog.title', { count: entriesToPurge.length })}
+                </h3>
+              </div>
+              <p className="text-stone-600 text-sm leading-relaxed mb-6">
+                {t('purgeDialog.body', { count: entriesToPurge.length })}
+              </p>
+              <div className="flex justify-end space-x-3 rtl:space-x-reverse">
+                <button onClick={() => !isDeleting && setEntriesToPurge(null)} disabled={isDeleting} className="px-4 py-2.5 text-stone-600 text-sm font-medium hover:bg-stone-100 rounded-lg transition-colors disabled:opacity-50">
+                  {t('common.cancel')}
+                </button>
+                <button onClick={confirmPurge} disabled={isDeleting} className="px-4 py-2.5 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 shadow-sm transition-colors flex items-center disabled:bg-red-400">
+                  {isDeleting ? (<><Loader2 className="w-4 h-4 me-2 animate-spin" /> {t('purgeDialog.deleting')}</>) : t('purgeDialog.confirm')}
                 </button>
               </div>
             </div>
@@ -535,47 +1030,75 @@ export default function App() {
         {/* Save To Cloud Modal */}
         {showSaveModal && (
           <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-stone-900/20 backdrop-blur-sm animate-in fade-in duration-200">
-            <div className="bg-white rounded-xl shadow-2xl border border-stone-100 p-6 max-w-sm w-full transform transition-all scale-100">
-              <div className="flex items-center space-x-3 mb-4 text-stone-900">
+            <div className="bg-surface rounded-xl shadow-2xl border border-stone-100 p-6 max-w-sm w-full transform transition-all scale-100">
+              <div className="flex items-center space-x-3 rtl:space-x-reverse mb-4 text-stone-900">
                 <div className="p-2 bg-green-50 rounded-full">
                   <CloudUpload className="w-6 h-6 text-green-600" />
                 </div>
-                <h3 className="text-lg font-bold text-stone-900">Save to Drive</h3>
+                <h3 className="text-lg font-bold text-stone-900">{t('saveDialog.title')}</h3>
               </div>
               
               <p className="text-stone-500 text-sm mb-4">
-                 Choose a filename for this entry.
+                 {t('saveDialog.body')}
               </p>
 
               <div className="mb-6">
-                  <label className="block text-xs font-bold text-stone-400 uppercase tracking-wider mb-1">Filename</label>
+                  <label className="block text-xs font-bold text-stone-400 uppercase tracking-wider mb-1">{t('saveDialog.filename')}</label>
                   <input 
                     type="text" 
                     value={saveFileName} 
                     onChange={(e) => setSaveFileName(e.target.value)}
                     className="w-full p-3 bg-stone-50 border border-stone-200 rounded-lg text-sm focus:outline-none focus:border-stone-400 font-mono"
                   />
-                  <p className="text-[10px] text-stone-400 mt-1 text-right">.txt will be added automatically if missing</p>
+                  <p className="text-[10px] text-stone-400 mt-1 text-end">{t('saveDialog.extensionHint')}</p>
               </div>
               
-              <div className="flex justify-end space-x-3">
+              <div className="flex justify-end space-x-3 rtl:space-x-reverse">
                 <button 
                   onClick={() => setShowSaveModal(false)}
                   className="px-4 py-2.5 text-stone-600 text-sm font-medium hover:bg-stone-100 rounded-lg transition-colors"
                 >
-                  Cancel
+                  {t('common.cancel')}
                 </button>
                 <button 
                   onClick={confirmManualSave}
                   className="px-4 py-2.5 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 shadow-sm transition-colors"
                 >
-                  Save
+                  {t('common.save')}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Drive File Format Migration Modal */}
+        {legacyFileCount > 0 && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-stone-900/20 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-surface rounded-xl shadow-2xl border border-stone-100 p-6 max-w-sm w-full transform transition-all scale-100">
+              <div className="flex items-center space-x-3 rtl:space-x-reverse mb-4 text-stone-900">
+                <div className="p-2 bg-stone-100 rounded-full">
+                  <FileUp className="w-6 h-6 text-stone-600" />
+                </div>
+                <h3 className="text-lg font-bold text-stone-900">{t('migrationDialog.title')}</h3>
+              </div>
+              <p className="text-stone-600 text-sm leading-relaxed mb-6">
+                {t('migrationDialog.body', { count: legacyFileCount })}
+              </p>
+              <div className="flex justify-end space-x-3 rtl:space-x-reverse">
+                <button onClick={dismissMigration} disabled={!!migrationProgress} className="px-4 py-2.5 text-stone-600 text-sm font-medium hover:bg-stone-100 rounded-lg transition-colors disabled:opacity-50">
+                  {t('migrationDialog.notNow')}
+                </button>
+                <button onClick={handleMigrateLegacyFiles} disabled={!!migrationProgress} className="px-4 py-2.5 bg-stone-900 text-surface text-sm font-medium rounded-lg hover:bg-stone-800 shadow-sm transition-colors flex items-center disabled:bg-stone-400">
+                  {migrationProgress 
+                    ? (<><Loader2 className="w-4 h-4 me-2 animate-spin" /> {migrationProgress.done}/{migrationProgress.total}</>) 
+                    : t('migrationDialog.confirm')}
                 </button>
               </div>
             </div>
           </div>
         )}
 
+        <UpdatePrompt />
       </div>
     </Layout>
   );
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { Download, FileText, Mic, X } from 'lucide-react';
+import { JournalAttachment } from '../types';
+import { attachmentKind, formatDuration, formatFileSize } from '../services/attachments';
+import { acquireImageUrl, releaseImageUrl } from '../services/imageUrls';
+import { useI18n } from '../hooks/useI18n';
+
+interface AttachmentChipProps {
+  attachment: JournalAttachment; // A voice note or a file
+  onDownload: () => void;
+  onRemove: () => void;
+}
+
+/**
+ * A voice note with its player, or a file with its name and size
+ */
+export const AttachmentChip: React.FC<AttachmentChipProps> = ({ attachment, onDownload, onRemove }) => {
+  const isAudio = attachmentKind(attachment) === 'audio';
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (!isAudio) return;
+    let cancelled = false;
+    let acquired = false;
+
+    acquireImageUrl(attachment.id).then(result => {
+      if (!result) return;
+      acquired = true;
+      if (cancelled) releaseImageUrl(attachment.id);
+      else setAudioUrl(result);
+    });
+
+    return () => {
+      cancelled = true;
+      setAudioUrl(null);
+      if (acquired) releaseImageUrl(attachment.id);
+    };
+  }, [attachment.id, isAudio]);
+
+  const Icon = isAudio ? Mic : FileText;
+  const details = [
+    attachment.duration ? formatDuration(attachment.duration) : null,
+    attachment.size ? formatFileSize(attachment.size) : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="group flex items-center gap-3 px-3 py-2 bg-surface rounded-lg ring-1 ring-stone-200 shadow-sm">
+      <div className="p-2 bg-stone-100 rounded-full text-stone-500 shrink-0">
+        <Icon className="w-4 h-4" />
+      </div>
+      <div className="min-w-0 flex-grow">
+        {isAudio ? (
+          audioUrl
+            ? <audio controls preload="metadata" src={audioUrl} className="w-full h-8" />
+            : <div className="text-sm text-stone-400 italic">{t('attachment.notOnDevice')}</div>
+        ) : (
+          <div className="text-sm font-medium text-stone-700 truncate" title={attachment.name}>{attachment.name || t('attachment.file')}</div>
+        )}
+        {details && <div className="text-[11px] text-stone-400">{details}</div>}
+      </div>
+      <button
+        onClick={onDownload}
+        className="p-1.5 text-stone-400 hover:text-stone-700 hover:bg-stone-100 rounded-md transition-colors cursor-pointer shrink-0"
+        title={t('attachment.download')}
+      >
+        <Download className="w-4 h-4" />
+      </button>
+      <button
+        onClick={onRemove}
+        className="p-1.5 text-stone-300 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors cursor-pointer shrink-0"
+        title={t('attachment.remove')}
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, CalendarDays, Plus, Image as ImageIcon, Paperclip, X } from 'lucide-react';
+import { JournalEntry, Mood } from '../types';
+import { entryPhotos } from '../services/attachments';
+import { dayKey, monthGrid, timeOnDay, today as calendarToday } from '../services/calendar';
+import { entryDayKey, formatDay, formatEntryDate } from '../services/dateTime';
+import { getMoodLevel, MOOD_COLOR_CLASSES } from '../services/moodScale';
+import { useDateSettings } from '../hooks/useDateSettings';
+import { useMoodScale } from '../hooks/useMoodScale';
+import { useI18n } from '../hooks/useI18n';
+import { LocalImage } from './LocalImage';
+
+interface CalendarViewProps {
+  entries: JournalEntry[];
+  onSelect: (entry: JournalEntry) => void;
+  onCreate: (createdAt: number) => void;
+}
+
+// Weekday names in the user's locale, Monday first (1 January 2024 was a Monday)
+const weekdayNames = () => Array.from({ length: 7 }, (_, i) => formatDay(new Date(2024, 0, 1 + i), { weekday: 'short' }));
+
+/**
+ * Most frequent mood of a day's entries; ties go to the latest entry
+ */
+const dominantMood = (dayEntries: JournalEntry[]): Mood | undefined => {
+  const counts = new Map<Mood, number>();
+  let best: Mood | undefined;
+  for (const entry of [...dayEntries].sort((a, b) => b.createdAt - a.createdAt)) {
+    if (!entry.mood) continue;
+    counts.set(entry.mood, (counts.get(entry.mood) || 0) + 1);
+    if (!best || counts.get(entry.mood)! > counts.get(best)!) best = entry.mood;
+  }
+  return best;
+};
+
+export const CalendarView: React.FC<CalendarViewProps> = ({ entries, onSelect, onCreate }) => {
+  const moodScale = useMoodScale();
+  const dateSettings = useDateSettings();
+  const { t } = useI18n();
+  const today = calendarToday();
+  const [year, setYear] = useState(today.getFullYear());
+  const [month, setMonth] = useState(today.getMonth());
+  const [selectedDay, setSelectedDay] = useState<Date | null>(null);
+
+  // Entries grouped by the day they were written, oldest first within a day
+  const byDay = useMemo(() => {
+    const groups = new Map<string, JournalEntry[]>();
+    for (const entry of entries) {
+      const key = entryDayKey(entry);
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    }
+    groups.forEach(list => list.sort((a, b) => a.createdAt - b.createdAt));
+    return groups;
+  }, [entries, dateSettings]);
+
+  const days = useMemo(() => monthGrid(year, month), [year, month]);
+
+  // From the first entry's year (or the shown year) to next year
+  const firstYear = Math.min(year, today.getFullYear(), ...entries.map(e => Number(entryDayKey(e).slice(0, 4))));
+  const lastYear = Math.max(year, today.getFullYear() + 1);
+  const years = Array.from({ length: lastYear - firstYear + 1 }, (_, i) => firstYear + i);
+
+  const goToMonth = (y: number, m: number) => {
+    const date = new Date(y, m, 1);
+    setYear(date.getFullYear());
+    setMonth(date.getMonth());
+    setSelectedDay(null);
+  };
+
+  const handleDayClick = (day: Date) => {
+    const dayEntries = byDay.get(dayKey(day)) || [];
+    if (dayEntries.length === 0) {
+      onCreate(timeOnDay(day));
+      return;
+    }
+    // Days from the neighbouring months switch the grid to their month
+    if (day.getMonth() !== month) goToMonth(day.getFullYear(), day.getMonth());
+    setSelectedDay(day);
+  };
+
+  const selectedEntries = selectedDay ? byDay.get(dayKey(selectedDay)) || [] : [];
+  const todayKey = dayKey(today);
+
+  return (
+    <div className="flex flex-col h-full bg-paper overflow-hidden animate-in fade-in duration-300">
+
+      {/* Toolbar */}
+      <div className="p-6 border-b border-stone-200 bg-surface flex flex-col md:flex-row gap-4 justify-between items-center sticky top-0 z-10 shadow-sm">
+        <h2 className="text-2xl font-serif font-bold text-ink flex items-center">
+            <CalendarDays className="w-6 h-6 me-2 text-stone-400" /> {t('calendar.title')}
+        </h2>
+
+        <div className="flex gap-2 items-center">
+            <button
+                onClick={() => goToMonth(year, month - 1)}
+                className="p-2 text-stone-500 hover:text-stone-800 hover:bg-stone-100 rounded-lg transition-colors"
+                title={t('calendar.previousMonth')}
+            >
+                <ChevronLeft className="rtl:-scale-x-100 w-4 h-4" />
+            </button>
+            <select
+                value={month}
+                onChange={(e) => goToMonth(year, Number(e.target.value))}
+                className="px-3 py-2 bg-stone-50 border border-stone-200 rounded-lg text-sm focus:outline-none focus:border-stone-400 cursor-pointer"
+            >
+                {Array.from({ length: 12 }, (_, m) => (
+                    <option key={m} value={m}>
+                        {formatDay(new Date(2000, m, 1), { month: 'long' })}
+                    </option>
+                ))}
+            </select>
+            <select
+                value={year}
+                onChange={(e) => goToMonth(Number(e.target.value), month)}
+                className="px-3 py-2 bg-stone-50 border border-stone-200 rounded-lg text-sm focus:outline-none focus:border-stone-400 cursor-pointer"
+            >
+                {years.map(y => <option key={y} value={y}>{y}</option>)}
+            </select>
+            <button
+                onClick={() => goToMonth(year, month + 1)}
+                className="p-2 text-stone-500 hover:text-stone-800 hover:bg-stone-100 rounded-lg transition-colors"
+                title={t('calendar.nextMonth')}
+            >
+                <ChevronRight className="rtl:-scale-x-100 w-4 h-4" />
+            </button>
+            <button
+                onClick={() => goToMonth(today.getFullYear(), today.getMonth())}
+                className="px-3 py-2 text-xs font-medium text-stone-600 bg-surface border border-stone-200 rounded-lg hover:bg-stone-50"
+            >
+                {t('calendar.today')}
+            </button>
+        </div>
+      </div>
+
+      <div className="flex-grow overflow-auto p-6 flex flex-col lg:flex-row gap-6">
+        {/* Month Grid */}
+        <div className="flex-grow bg-surface rounded-xl border border-stone-200 shadow-sm overflow-hidden self-start w-full">
+            <div className="grid grid-cols-7 bg-stone-50 border-b border-stone-200">
+                {weekdayNames().map(name => (
+                    <div key={name} className="p-2 text-center text-[10px] font-bold text-stone-500 uppercase tracking-wider">{name}</div>
+                ))}
+            </div>
+            <div className="grid grid-cols-7 gap-px bg-stone-100">
+                {days.map(day => {
+                    const key = dayKey(day);
+                    const dayEntries = byDay.get(key) || [];
+                    const mood = dominantMood(dayEntries);
+                    const moodLevel = mood ? getMoodLevel(mood, moodScale) : null;
+                    const photo = dayEntries.map(e => entryPhotos(e)[0]).find(Boolean);
+                    const inMonth = day.getMonth() === month;
+                    const isSelected = selectedDay !== null && dayKey(selectedDay) === key;
+
+                    return (
+                        <button
+                            key={key}
+                            onClick={() => handleDayClick(day)}
+                            className={`
+                                relative h-20 md:h-24 p-1.5 text-start flex flex-col border transition-colors
+                                ${moodLevel ? MOOD_COLOR_CLASSES[moodLevel.color].cell : 'bg-surface border-transparent'}
+                                ${isSelected ? 'ring-2 ring-inset ring-stone-800' : 'hover:bg-stone-50'}
+                                ${inMonth ? '' : 'opacity-40'}
+                            `}
+                            title={dayEntries.length > 0 ? t('common.entries', { count: dayEntries.length }) : t('calendar.newEntryOnDay')}
+                        >
+                            <div className="flex items-center justify-between w-full">
+                                <span className={`text-xs font-semibold w-6 h-6 flex items-center justify-center rounded-full ${
+                                    key === todayKey ? 'bg-stone-900 text-surface' : 'text-stone-600'
+                                }`}>
+                                    {day.getDate()}
+                                </span>
+                                {moodLevel && <span className="text-sm" title={moodLevel.label}>{moodLevel.emoji}</span>}
+                            </div>
+                            <div className="flex-grow flex items-end justify-between w-full min-h-0">
+                                {dayEntries.length > 0 ? (
+                                    <span className="text-[10px] font-bold text-stone-500 bg-surface/80 px-1.5 py-0.5 rounded-full">
+                                        {dayEntries.length}
+                                    </span>
+                                ) : <span />}
+                                {photo && (
+                                    <LocalImage
+                                        imageId={photo.id}
+                                        alt={t('sidebar.thumbnail')}
+                                        thumbnail
+                                        className="w-8 h-8 md:w-10 md:h-10 rounded object-cover border border-surface shadow-sm"
+                                    />
+                                )}
+                            </div>
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+
+        {/* Selected Day */}
+        {selectedDay && (
+            <div className="lg:w-72 shrink-0 bg-surface rounded-xl border border-stone-200 shadow-sm self-start w-full">
+                <div className="flex items-center justify-between px-4 py-3 border-b border-stone-100">
+                    <h3 className="text-sm font-bold text-stone-800">
+                        {formatDay(selectedDay, { weekday: 'long', day: 'numeric', month: 'long' })}
+                    </h3>
+                    <button onClick={() => setSelectedDay(null)} className="p-1 text-stone-400 hover:text-stone-700 rounded-full" title={t('common.close')}>
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+                <div className="divide-y divide-stone-50">
+                    {selectedEntries.map(entry => (
+                        <button
+                            key={entry.id}
+                            onClick={() => onSelect(entry)}
+                            className="w-full text-start px-4 py-3 hover:bg-stone-50 transition-colors flex items-center gap-3"
+                        >
+                            <span className="text-lg">{entry.mood ? getMoodLevel(entry.mood, moodScale).emoji : '·'}</span>
+                            <div className="min-w-0 flex-grow">
+                                <div className="text-sm font-semibold text-stone-800 truncate">
+                                    {entry.title || <span className="italic text-stone-400">{t('table.untitled')}</span>}
+                                </div>
+                                <div className="text-xs text-stone-400 flex items-center gap-2">
+                                    {formatEntryDate(entry, { hour: '2-digit', minute: '2-digit' })}
+                                    {entryPhotos(entry).length > 0 && (
+                                        <span className="flex items-center"><ImageIcon className="w-3 h-3 me-0.5" />{entryPhotos(entry).length}</span>
+                                    )}
+                                    {entry.images.length > entryPhotos(entry).length && (
+                                        <span className="flex items-center"><Paperclip className="w-3 h-3 me-0.5" />{entry.images.length - entryPhotos(entry).length}</span>
+                                    )}
+                                </div>
+                            </div>
+                        </button>
+                    ))}
+                </div>
+                <div className="p-3 border-t border-stone-100">
+                    <button
+                        onClick={() => onCreate(timeOnDay(selectedDay))}
+                        className="w-full flex items-center justify-center px-4 py-2 bg-stone-900 text-surface text-xs font-medium rounded-lg hover:bg-stone-800 shadow-sm transition-colors"
+                    >
+                        <Plus className="w-3.5 h-3.5 me-1.5" /> {t('calendar.newEntryOnDay')}
+                    </button>
+                </div>
+            </div>
+        )}
+      </div>
+    </div>
+  );
+};
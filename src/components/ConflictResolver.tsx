@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Laptop, Cloud } from 'lucide-react';
+import { JournalEntry, Mood } from '../types';
+import { mergeText, mergeValue, mergeImages, mergeTags, joinChunks } from '../services/merge';
+import { getMoodLevel } from '../services/moodScale';
+import { useI18n } from '../hooks/useI18n';
+
+interface ConflictResolverProps {
+  entry: JournalEntry; // Local version; entry.conflict holds the base and the other device's version
+  onResolve: (resolved: JournalEntry) => void;
+}
+
+type Choice = 'local' | 'remote' | 'both';
+
+export const ConflictResolver: React.FC<ConflictResolverProps> = ({ entry, onResolve }) => {
+  const conflict = entry.conflict!;
+  const { base, remote } = conflict;
+
+  const [titleChoice, setTitleChoice] = useState<Choice | null>(null);
+  const [moodChoice, setMoodChoice] = useState<Choice | null>(null);
+  const [chunkChoices, setChunkChoices] = useState<Record<number, Choice>>({});
+  const { t } = useI18n();
+
+  const title = mergeValue(base.title, entry.title, remote.title);
+  const mood = mergeValue<Mood | undefined>(base.mood, entry.mood, remote.mood);
+  const chunks = useMemo(
+    () => mergeText(base.content, entry.content, remote.content),
+    [base.content, entry.content, remote.content]
+  );
+  const conflictCount = chunks.filter(c => c.kind === 'conflict').length;
+
+  const isComplete =
+    ('value' in title || titleChoice !== null) &&
+    ('value' in mood || moodChoice !== null) &&
+    Object.keys(chunkChoices).length >= conflictCount;
+
+  const chooseAll = (choice: 'local' | 'remote') => {
+    setTitleChoice(choice);
+    setMoodChoice(choice);
+    setChunkChoices(Object.fromEntries(Array.from({ length: conflictCount }, (_, i) => [i, choice])));
+  };
+
+  const handleApply = () => {
+    const resolvedTitle = 'value' in title ? title.value : (titleChoice === 'remote' ? remote.title : entry.title);
+    const resolvedMood = 'value' in mood ? mood.value : (moodChoice === 'remote' ? remote.mood : entry.mood);
+    const content = joinChunks(chunks, (c, i) => {
+      const choice = chunkChoices[i];
+      if (choice === 'remote') return c.remote;
+      if (choice === 'both') return [...c.local, ...c.remote];
+      return c.local;
+    });
+
+    onResolve({
+      ...entry,
+      title: resolvedTitle,
+      mood: resolvedMood,
+      content,
+      tags: mergeTags(base.tags, entry.tags, remote.tags),
+      images: mergeImages(base.imageIds, entry.images, remote.images),
+    });
+  };
+
+  const optionClass = (selected: boolean) => `
+    text-start p-3 rounded-lg border text-sm font-serif whitespace-pre-wrap break-words transition-all cursor-pointer
+    ${selected
+      ? 'bg-surface border-stone-800 ring-2 ring-stone-200'
+      : 'bg-surface/60 border-stone-200 hover:border-stone-400'
+    }
+  `;
+
+  const renderSides = (
+    local: React.ReactNode,
+    other: React.ReactNode,
+    selected: Choice | null,
+    onChoose: (choice: Choice) => void,
+    allowBoth = false
+  ) => (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <button onClick={() => onChoose('local')} className={optionClass(selected === 'local')}>
+          <span className="flex items-center text-[10px] font-sans font-bold uppercase tracking-wider text-stone-400 mb-1">
+            <Laptop className="w-3 h-3 me-1" /> {t('conflict.thisDevice')}
+          </span>
+          {local}
+        </button>
+        <button onClick={() => onChoose('remote')} className={optionClass(selected === 'remote')}>
+          <span className="flex items-center text-[10px] font-sans font-bold uppercase tracking-wider text-stone-400 mb-1">
+            <Cloud className="w-3 h-3 me-1" /> {t('conflict.otherDevice')}
+          </span>
+          {other}
+        </button>
+      </div>
+      {allowBoth && (
+        <button
+          onClick={() => onChoose('both')}
+          className={`mt-1 text-[10px] underline ${selected === 'both' ? 'text-stone-800 font-bold' : 'text-stone-400 hover:text-stone-600'}`}
+        >
+          {t('conflict.keepBoth')}
+        </button>
+      )}
+    </div>
+  );
+
+  const emptyText = <span className="italic text-stone-300">{t('conflict.removed')}</span>;
+  const moodText = (value?: Mood) => {
+    if (!value) return emptyText;
+    const level = getMoodLevel(value);
+    return `${level.emoji} ${level.label}`;
+  };
+
+  return (
+    <div className="mb-8 p-4 md:p-5 rounded-xl border border-amber-200 bg-amber-50/60">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3 mb-4">
+        <div className="flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+          <div>
+            <h3 className="text-sm font-bold text-amber-900">{t('conflict.title')}</h3>
+            <p className="text-xs text-amber-800 leading-relaxed">
+              {t('conflict.intro')}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button onClick={() => chooseAll('local')} className="px-3 py-1.5 text-xs font-medium text-stone-600 bg-surface border border-stone-200 rounded-full hover:bg-stone-50">
+            {t('conflict.allMine')}
+          </button>
+          <button onClick={() => chooseAll('remote')} className="px-3 py-1.5 text-xs font-medium text-stone-600 bg-surface border border-stone-200 rounded-full hover:bg-stone-50">
+            {t('conflict.allTheirs')}
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {'conflict' in title && (
+          <div>
+            <h4 className="text-xs font-bold uppercase text-stone-400 mb-2 tracking-wider">{t('conflict.entryTitle')}</h4>
+            {renderSides(entry.title || emptyText, remote.title || emptyText, titleChoice, setTitleChoice)}
+          </div>
+        )}
+
+        {'conflict' in mood && (
+          <div>
+            <h4 className="text-xs font-bold uppercase text-stone-400 mb-2 tracking-wider">{t('conflict.mood')}</h4>
+            {renderSides(moodText(entry.mood), moodText(remote.mood), moodChoice, setMoodChoice)}
+          </div>
+        )}
+
+        {conflictCount > 0 && (
+          <div>
+            <h4 className="text-xs font-bold uppercase text-stone-400 mb-2 tracking-wider">{t('conflict.text')}</h4>
+            <div className="space-y-2">
+              {(() => {
+                let conflictIndex = 0;
+                return chunks.map((chunk, i) => {
+                  if (chunk.kind === 'stable') {
+                    return (
+                      <p key={i} className="px-3 text-sm font-serif text-stone-400 whitespace-pre-wrap line-clamp-3">
+                        {chunk.lines.join('\n')}
+                      </p>
+                    );
+                  }
+                  const index = conflictIndex++;
+                  return (
+                    <div key={i}>
+                      {renderSides(
+                        chunk.local.join('\n') || emptyText,
+                        chunk.remote.join('\n') || emptyText,
+                        chunkChoices[index] ?? null,
+                        (choice) => setChunkChoices(prev => ({ ...prev, [index]: choice })),
+                        true
+                      )}
+                    </div>
+                  );
+                });
+              })()}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end mt-5">
+        <button
+          onClick={handleApply}
+          disabled={!isComplete}
+          className="px-4 py-2.5 bg-stone-900 text-surface text-sm font-medium rounded-lg hover:bg-stone-800 shadow-sm transition-colors disabled:bg-stone-300 disabled:cursor-not-allowed"
+        >
+          {t('conflict.apply')}
+        </button>
+      </div>
+    </div>
+  );
+};
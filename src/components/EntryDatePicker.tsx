@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { CalendarClock } from 'lucide-react';
+import { JournalEntry } from '../types';
+import { currentTimeZone, entryTimeZone, formatEntryDate, fromDateTimeInput, toDateTimeInput } from '../services/dateTime';
+import { useI18n } from '../hooks/useI18n';
+
+interface EntryDatePickerProps {
+  entry: Pick<JournalEntry, 'createdAt' | 'timeZone'>;
+  onChange: (createdAt: number) => void;
+}
+
+/**
+ * The entry's date in the editor toolbar; clicking it sets the date and time
+ * the entry is filed under (for writing about yesterday, or old journals)
+ */
+export const EntryDatePicker: React.FC<EntryDatePickerProps> = ({ entry, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { t } = useI18n();
+  // Entered in the zone the entry was written in, like the date it shows
+  const timeZone = entryTimeZone(entry);
+
+  const formattedDate = formatEntryDate(entry, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric'
+  });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const time = fromDateTimeInput(e.target.value, timeZone);
+    if (time !== null && time !== entry.createdAt) onChange(time);
+  };
+
+  return (
+    <div className="relative min-w-0">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-1.5 text-[10px] md:text-xs font-medium text-stone-400 hover:text-stone-700 uppercase tracking-widest transition-colors cursor-pointer max-w-[100px] md:max-w-none"
+        title={t('entryDate.change')}
+      >
+        <CalendarClock className="hidden md:block w-3.5 h-3.5 shrink-0" />
+        <span className="truncate">{formattedDate}</span>
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute start-0 top-full mt-3 z-50 bg-surface rounded-xl shadow-xl border border-stone-100 p-4 w-64 animate-in fade-in duration-200">
+            <label className="block">
+              <span className="text-xs font-bold uppercase text-stone-400 tracking-wider">{t('entryDate.writtenOn')}</span>
+              <input
+                type="datetime-local"
+                value={toDateTimeInput(entry.createdAt, timeZone)}
+                onChange={handleChange}
+                className="mt-1.5 w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-lg text-sm text-stone-700 focus:outline-none focus:border-stone-400"
+              />
+            </label>
+            {timeZone !== currentTimeZone() && (
+              <p className="mt-2 text-xs text-stone-400">{t('entryDate.otherZone', { zone: timeZone.replace(/_/g, ' ') })}</p>
+            )}
+            <div className="flex justify-between mt-3">
+              <button
+                onClick={() => onChange(Date.now())}
+                className="px-3 py-1.5 text-stone-500 text-xs font-medium hover:bg-stone-100 rounded-lg transition-colors"
+              >
+                {t('entryDate.now')}
+              </button>
+              <button
+                onClick={() => setIsOpen(false)}
+                className="px-3 py-1.5 bg-stone-900 text-surface text-xs font-medium rounded-lg hover:bg-stone-800 transition-colors"
+              >
+                {t('common.done')}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import React from 'react';
+import { SnippetPart } from '../services/search';
+
+interface HighlightedTextProps {
+  parts: SnippetPart[];
+}
+
+/**
+ * Search snippet with the matched words marked
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ parts }) => (
+  <>
+    {parts.map((part, i) =>
+      part.highlight
+        ? <mark key={i} className="bg-amber-100 text-stone-900 rounded-sm px-0.5">{part.text}</mark>
+        : <React.Fragment key={i}>{part.text}</React.Fragment>
+    )}
+  </>
+);
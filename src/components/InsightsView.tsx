@@ -0,0 +1,277 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart3, Flame, Trophy, BookOpen, Smile } from 'lucide-react';
+import { JournalEntry, MoodLevel } from '../types';
+import { today } from '../services/calendar';
+import {
+  TrendPoint,
+  moodTrend, moodDistribution, moodByWeekday, writingByMood, journalingStreaks,
+} from '../services/insights';
+import { getMoodLevel, nearestMoodLevel, MOOD_COLOR_CLASSES } from '../services/moodScale';
+import { formatDay } from '../services/dateTime';
+import { languageLocale } from '../services/i18n';
+import { useDateSettings } from '../hooks/useDateSettings';
+import { useMoodScale } from '../hooks/useMoodScale';
+import { useI18n } from '../hooks/useI18n';
+
+interface InsightsViewProps {
+  entries: JournalEntry[];
+}
+
+const RANGE_OPTIONS = [30, 90, 365];
+// Weekday names in the user's locale, Monday first (1 January 2024 was a Monday)
+const weekdayNames = () => Array.from({ length: 7 }, (_, i) => formatDay(new Date(2024, 0, 1 + i), { weekday: 'short' }));
+
+const formatDayKey = (day: string, options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', year: 'numeric' }) => {
+  const [y, m, d] = day.split('-').map(Number);
+  return formatDay(new Date(y, m - 1, d), options);
+};
+
+// ==========================================
+// CHARTS (plain SVG)
+// ==========================================
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = { top: 10, right: 10, bottom: 20, left: 28 };
+
+/**
+ * Lowest and highest score of the scale (kept apart so a one-level scale still plots)
+ */
+const scoreRange = (scale: MoodLevel[]) => {
+  const scores = scale.map(level => level.score);
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  return { min, max: max > min ? max : min + 1 };
+};
+
+/**
+ * Mood over time: daily averages as dots, rolling averages as lines
+ */
+const TrendChart: React.FC<{ points: TrendPoint[], scale: MoodLevel[] }> = ({ points, scale }) => {
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const { min, max } = scoreRange(scale);
+  const x = (i: number) => CHART_PADDING.left + (points.length > 1 ? (i / (points.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (score: number) => CHART_PADDING.top + ((max - score) / (max - min)) * plotHeight;
+
+  // Lines break where a window has no moods
+  const path = (key: 'weekly' | 'monthly') => {
+    let d = '';
+    let drawing = false;
+    points.forEach((point, i) => {
+      const value = point[key];
+      if (value === null) {
+        drawing = false;
+        return;
+      }
+      d += `${drawing ? 'L' : 'M'}${x(i).toFixed(1)},${y(value).toFixed(1)} `;
+      drawing = true;
+    });
+    return d;
+  };
+
+  const labelEvery = Math.ceil(points.length / 6);
+  const { t } = useI18n();
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label={t('insights.moodOverTime')}>
+      {scale.map(level => (
+        <g key={level.id}>
+          <line
+            x1={CHART_PADDING.left} x2={CHART_WIDTH - CHART_PADDING.right}
+            y1={y(level.score)} y2={y(level.score)}
+            className="stroke-stone-100" strokeWidth={1}
+          />
+          <text x={CHART_PADDING.left - 6} y={y(level.score) + 4} textAnchor="end" fontSize={11}>
+            {level.emoji}
+            <title>{level.label}</title>
+          </text>
+        </g>
+      ))}
+      {points.map((point, i) => point.daily !== null && (
+        <circle key={point.day} cx={x(i)} cy={y(point.daily)} r={2.5} className={MOOD_COLOR_CLASSES[nearestMoodLevel(point.daily, scale).color].fill}>
+          <title>{formatDayKey(point.day)}: {point.daily.toFixed(1)}</title>
+        </circle>
+      ))}
+      <path d={path('weekly')} fill="none" className="stroke-stone-400" strokeWidth={1.5} />
+      <path d={path('monthly')} fill="none" className="stroke-stone-800" strokeWidth={2} />
+      {points.map((point, i) => i % labelEvery === 0 && (
+        <text key={point.day} x={x(i)} y={CHART_HEIGHT - 4} textAnchor="middle" fontSize={9} className="fill-stone-400">
+          {formatDayKey(point.day, { day: 'numeric', month: 'short' })}
+        </text>
+      ))}
+    </svg>
+  );
+};
+
+/**
+ * Horizontal bar with a label and a value
+ */
+const BarRow: React.FC<{ label: React.ReactNode, value: number, max: number, barClassName: string, caption: string }> = ({ label, value, max, barClassName, caption }) => (
+  <div className="flex items-center gap-3">
+    <div className="w-16 shrink-0 text-xs text-stone-600 flex items-center gap-1">{label}</div>
+    <div className="flex-grow h-3 bg-stone-100 rounded-full overflow-hidden">
+      <div className={`h-full rounded-full ${barClassName}`} style={{ width: `${max > 0 ? (value / max) * 100 : 0}%` }} />
+    </div>
+    <div className="w-20 shrink-0 text-end text-xs text-stone-500 tabular-nums">{caption}</div>
+  </div>
+);
+
+const Card: React.FC<{ title: string, className?: string, children: React.ReactNode }> = ({ title, className = '', children }) => (
+  <div className={`bg-surface rounded-xl border border-stone-200 shadow-sm p-5 ${className}`}>
+    <h3 className="text-xs font-bold text-stone-500 uppercase tracking-wider mb-4">{title}</h3>
+    {children}
+  </div>
+);
+
+export const InsightsView: React.FC<InsightsViewProps> = ({ entries }) => {
+  const scale = useMoodScale();
+  const dateSettings = useDateSettings();
+  const [rangeDays, setRangeDays] = useState(90);
+  const { t } = useI18n();
+
+  const trend = useMemo(() => moodTrend(entries, rangeDays, today(), scale), [entries, rangeDays, scale, dateSettings]);
+  const distribution = useMemo(() => moodDistribution(entries, scale), [entries, scale]);
+  const weekdays = useMemo(() => moodByWeekday(entries, scale), [entries, scale, dateSettings]);
+  const writing = useMemo(() => writingByMood(entries, scale), [entries, scale]);
+  const streaks = useMemo(() => journalingStreaks(entries), [entries, dateSettings]);
+
+  const { min: minScore, max: maxScore } = scoreRange(scale);
+  const moodCount = [...distribution.values()].reduce((sum, count) => sum + count, 0);
+  const maxDistribution = Math.max(...distribution.values());
+  const maxWords = Math.max(...writing.map(w => w.averageWords));
+  const maxPhotos = Math.max(...writing.map(w => w.averagePhotos));
+
+  return (
+    <div className="flex flex-col h-full bg-paper overflow-hidden animate-in fade-in duration-300">
+
+      {/* Toolbar */}
+      <div className="p-6 border-b border-stone-200 bg-surface flex flex-col md:flex-row gap-4 justify-between items-center sticky top-0 z-10 shadow-sm">
+        <h2 className="text-2xl font-serif font-bold text-ink flex items-center">
+            <BarChart3 className="w-6 h-6 me-2 text-stone-400" /> {t('insights.title')}
+        </h2>
+        <select
+            value={rangeDays}
+            onChange={(e) => setRangeDays(Number(e.target.value))}
+            className="px-3 py-2 bg-stone-50 border border-stone-200 rounded-lg text-sm focus:outline-none focus:border-stone-400 cursor-pointer"
+        >
+            {RANGE_OPTIONS.map(days => <option key={days} value={days}>{t('insights.range', { count: days })}</option>)}
+        </select>
+      </div>
+
+      <div className="flex-grow overflow-auto p-6">
+        {entries.length === 0 ? (
+            <div className="text-center py-16 text-stone-400">
+                <div className="w-12 h-12 bg-stone-100 rounded-full flex items-center justify-center mx-auto mb-3">
+                    <BarChart3 className="w-5 h-5 text-stone-300" />
+                </div>
+                <p className="text-sm">{t('insights.empty')}</p>
+            </div>
+        ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 max-w-5xl mx-auto">
+                {/* Streaks */}
+                <div className="lg:col-span-2 grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {[
+                        { icon: <Flame className="w-4 h-4 text-orange-500" />, label: t('insights.currentStreak'), value: t('insights.days', { count: streaks.current }) },
+                        { icon: <Trophy className="w-4 h-4 text-amber-500" />, label: t('insights.longestStreak'), value: t('insights.days', { count: streaks.longest }), hint: streaks.longestEnd ? t('insights.streakEnded', { date: formatDayKey(streaks.longestEnd) }) : undefined },
+                        { icon: <BookOpen className="w-4 h-4 text-stone-500" />, label: t('insights.entries'), value: entries.length.toLocaleString(languageLocale()) },
+                        { icon: <Smile className="w-4 h-4 text-stone-500" />, label: t('insights.withMood'), value: `${Math.round((moodCount / entries.length) * 100)}%` },
+                    ].map(stat => (
+                        <div key={stat.label} className="bg-surface rounded-xl border border-stone-200 shadow-sm p-4">
+                            <div className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider text-stone-400 font-bold">
+                                {stat.icon} {stat.label}
+                            </div>
+                            <div className="text-2xl font-serif font-bold text-ink mt-1">{stat.value}</div>
+                            {stat.hint && <div className="text-[10px] text-stone-400">{stat.hint}</div>}
+                        </div>
+                    ))}
+                </div>
+
+                {/* Trend */}
+                <Card title={t('insights.moodOverTime')} className="lg:col-span-2">
+                    <TrendChart points={trend} scale={scale} />
+                    <div className="flex gap-4 mt-2 text-[11px] text-stone-500">
+                        <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-stone-300" /> {t('insights.daily')}</span>
+                        <span className="flex items-center gap-1.5"><span className="w-4 h-0.5 bg-stone-400" /> {t('insights.weeklyAverage')}</span>
+                        <span className="flex items-center gap-1.5"><span className="w-4 h-0.5 bg-stone-800" /> {t('insights.monthlyAverage')}</span>
+                    </div>
+                </Card>
+
+                {/* Distribution */}
+                <Card title={t('insights.distribution')}>
+                    <div className="space-y-3">
+                        {scale.map(level => (
+                            <BarRow
+                                key={level.id}
+                                label={<><span>{level.emoji}</span> {level.label}</>}
+                                value={distribution.get(level.id)!}
+                                max={maxDistribution}
+                                barClassName={MOOD_COLOR_CLASSES[level.color].bar}
+                                caption={`${distribution.get(level.id)} · ${moodCount > 0 ? Math.round((distribution.get(level.id)! / moodCount) * 100) : 0}%`}
+                            />
+                        ))}
+                    </div>
+                </Card>
+
+                {/* By weekday */}
+                <Card title={t('insights.byWeekday')}>
+                    <div className="flex items-end justify-between gap-2 h-32">
+                        {weekdays.map(stat => (
+                            <div key={stat.weekday} className="flex-1 flex flex-col items-center justify-end h-full" title={t('common.entries', { count: stat.count })}>
+                                {stat.average !== null ? (
+                                    <>
+                                        <span className="text-[10px] text-stone-500 tabular-nums mb-1">{stat.average.toFixed(1)}</span>
+                                        <div
+                                            className={`w-full max-w-[2rem] rounded-t-md ${MOOD_COLOR_CLASSES[nearestMoodLevel(stat.average, scale).color].bar}`}
+                                            style={{ height: `${10 + ((stat.average - minScore) / (maxScore - minScore)) * 90}%` }}
+                                        />
+                                    </>
+                                ) : (
+                                    <div className="w-full max-w-[2rem] h-1 bg-stone-100 rounded" />
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex justify-between gap-2 mt-2">
+                        {weekdays.map(stat => (
+                            <div key={stat.weekday} className="flex-1 text-center text-[10px] font-bold text-stone-400 uppercase">{weekdayNames()[stat.weekday]}</div>
+                        ))}
+                    </div>
+                </Card>
+
+                {/* Writing vs mood */}
+                <Card title={t('insights.wordsByMood')}>
+                    <div className="space-y-3">
+                        {writing.map(stat => (
+                            <BarRow
+                                key={stat.mood}
+                                label={<><span>{getMoodLevel(stat.mood, scale).emoji}</span> {getMoodLevel(stat.mood, scale).label}</>}
+                                value={stat.averageWords}
+                                max={maxWords}
+                                barClassName={MOOD_COLOR_CLASSES[getMoodLevel(stat.mood, scale).color].bar}
+                                caption={stat.entries > 0 ? t('common.words', { count: Math.round(stat.averageWords) }) : '-'}
+                            />
+                        ))}
+                    </div>
+                </Card>
+
+                <Card title={t('insights.photosByMood')}>
+                    <div className="space-y-3">
+                        {writing.map(stat => (
+                            <BarRow
+                                key={stat.mood}
+                                label={<><span>{getMoodLevel(stat.mood, scale).emoji}</span> {getMoodLevel(stat.mood, scale).label}</>}
+                                value={stat.averagePhotos}
+                                max={maxPhotos}
+                                barClassName={MOOD_COLOR_CLASSES[getMoodLevel(stat.mood, scale).color].bar}
+                                caption={stat.entries > 0 ? t('insights.averagePhotos', { value: stat.averagePhotos.toFixed(1) }) : '-'}
+                            />
+                        ))}
+                    </div>
+                </Card>
+            </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,25 +1,87 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { Check, Image as ImageIcon, Download, X, CloudUpload } from 'lucide-react';
-import { JournalEntry, JournalImage, Mood } from '../types';
+import {
+  Check, Image as ImageIcon, Download, X, CloudUpload, History, SlidersHorizontal,
+  Settings2, Loader2, Paperclip, PencilLine, Columns2, Eye, Bold, Italic, Strikethrough, Code, Link, Heading, Quote, List, ListOrdered, ListChecks,
+} from 'lucide-react';
+import { EditorFontSize, EditorMode, EntryRevision, JournalEntry, JournalAttachment, Mood } from '../types';
+import { AttachmentChip } from './AttachmentChip';
+import { ConflictResolver } from './ConflictResolver';
+import { EntryDatePicker } from './EntryDatePicker';
+import { LocalImage } from './LocalImage';
+import { MarkdownView } from './MarkdownView';
+import { PhotoSettings } from './PhotoSettings';
+import { RevisionHistory } from './RevisionHistory';
+import { TagInput } from './TagInput';
+import { VoiceRecorder } from './VoiceRecorder';
+import { saveImageBlob, getImageBlob } from '../services/storage';
+import { baseMimeType, downloadName, isPhoto, kindForMimeType, storeAttachments } from '../services/attachments';
+import { getMoodLevel } from '../services/moodScale';
+import { formatDate, formatEntryDate } from '../services/dateTime';
+import { hashtags } from '../services/tags';
+import { imageToken, inlineImageIds, toggleTask } from '../services/markdown';
+import { saveSettings } from '../services/settings';
+import { FormatCommand, applyTextEdit, continueBlock, formatEdit, shortcutCommand } from '../services/markdownEditing';
+import { useMoodScale } from '../hooks/useMoodScale';
+import { useSettings } from '../hooks/useSettings';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../locales/en';
 
 interface JournalEditorProps {
   entry: JournalEntry;
   onUpdate: (updatedEntry: JournalEntry) => void;
   onSaveToCloud: () => void;
+  onResolveConflict?: (resolved: JournalEntry) => void;
   isSaving: boolean;
+  onEditMoodScale?: () => void;
+  tagSuggestions?: string[]; // Every tag in use, for autocomplete
 }
 
-export const JournalEditor: React.FC<JournalEditorProps> = ({ entry, onUpdate, onSaveToCloud, isSaving }) => {
+const FONT_SIZE_CLASSES: Record<EditorFontSize, string> = {
+  small: 'text-base',
+  medium: 'text-lg',
+  large: 'text-xl',
+};
+
+const EDITOR_MODES: { mode: EditorMode, icon: React.ElementType, title: MessageKey }[] = [
+  { mode: 'edit', icon: PencilLine, title: 'editor.write' },
+  { mode: 'split', icon: Columns2, title: 'editor.split' },
+  { mode: 'preview', icon: Eye, title: 'editor.preview' },
+];
+
+const FORMAT_BUTTONS: { command: FormatCommand, icon: React.ElementType, title: MessageKey }[] = [
+  { command: 'heading', icon: Heading, title: 'editor.heading' },
+  { command: 'bold', icon: Bold, title: 'editor.bold' },
+  { command: 'italic', icon: Italic, title: 'editor.italic' },
+  { command: 'strike', icon: Strikethrough, title: 'editor.strike' },
+  { command: 'code', icon: Code, title: 'editor.code' },
+  { command: 'link', icon: Link, title: 'editor.link' },
+  { command: 'quote', icon: Quote, title: 'editor.quote' },
+  { command: 'bullet', icon: List, title: 'editor.bullet' },
+  { command: 'numbered', icon: ListOrdered, title: 'editor.numbered' },
+  { command: 'task', icon: ListChecks, title: 'editor.task' },
+];
+
+export const JournalEditor: React.FC<JournalEditorProps> = ({ entry, onUpdate, onSaveToCloud, onResolveConflict, isSaving, onEditMoodScale, tagSuggestions = [] }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [fullScreenImage, setFullScreenImage] = useState<JournalImage | null>(null);
+  const attachInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Latest props for handlers that finish after an await
+  const entryRef = useRef(entry);
+  entryRef.current = entry;
+  const [fullScreenImage, setFullScreenImage] = useState<JournalAttachment | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showPhotoSettings, setShowPhotoSettings] = useState(false);
+  const [isStoringFiles, setIsStoringFiles] = useState(false);
 
-  const moods: { value: Mood, label: string, icon: string }[] = [
-    { value: 'Great', label: 'Great', icon: '😁' },
-    { value: 'Good', label: 'Good', icon: '🙂' },
-    { value: 'Okay', label: 'Okay', icon: '😐' },
-    { value: 'Bad', label: 'Bad', icon: '☹️' },
-  ];
+  const moodScale = useMoodScale();
+  const { editorFontSize, editorMode } = useSettings();
+  const fontSize = FONT_SIZE_CLASSES[editorFontSize];
+  const { t, dir } = useI18n();
+  // A mood that is no longer on the scale stays visible until changed
+  const moods = entry.mood && !moodScale.some(level => level.id === entry.mood)
+    ? [...moodScale, getMoodLevel(entry.mood, moodScale)]
+    : moodScale;
 
   // Handle Title Change
   const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -31,62 +93,188 @@ export const JournalEditor: React.FC<JournalEditorProps> = ({ entry, onUpdate, o
     onUpdate({ ...entry, content: e.target.value, updatedAt: Date.now() });
   };
 
+  // Formatting from the toolbar or a shortcut, applied at the selection
+  const runFormat = (command: FormatCommand) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    applyTextEdit(textarea, formatEdit(command, textarea.value, textarea.selectionStart, textarea.selectionEnd));
+  };
+
+  const handleContentKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const command = shortcutCommand(e);
+    if (command) {
+      e.preventDefault();
+      runFormat(command);
+      return;
+    }
+    // Enter continues a list or quote
+    const textarea = e.currentTarget;
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing && textarea.selectionStart === textarea.selectionEnd) {
+      const edit = continueBlock(textarea.value, textarea.selectionStart);
+      if (edit) {
+        e.preventDefault();
+        applyTextEdit(textarea, edit);
+      }
+    }
+  };
+
+  const handleEditorModeChange = (mode: EditorMode) => saveSettings({ editorMode: mode });
+
+  // Checking a task in the preview edits its line in the text
+  const handleToggleTask = (line: number) => {
+    onUpdate({ ...entry, content: toggleTask(entry.content, line), updatedAt: Date.now() });
+  };
+
+  // Handle Date Change (the lists re-sort and the next sync moves the entry's Drive folder)
+  const handleDateChange = (createdAt: number) => {
+    onUpdate({ ...entry, createdAt, updatedAt: Date.now() });
+  };
+
   // Handle Mood Change
   const handleMoodChange = (mood: Mood) => {
     onUpdate({ ...entry, mood, updatedAt: Date.now() });
   };
 
-  // Handle Image Upload
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64 = reader.result as string;
-      const newImage: JournalImage = {
-        id: Date.now().toString(),
-        data: base64,
-        mimeType: file.type
-      };
-      
-      onUpdate({
-        ...entry,
-        images: [...entry.images, newImage],
-        updatedAt: Date.now()
-      });
-    };
-    reader.readAsDataURL(file);
-    
+  // Handle Tag Chips Change
+  const handleTagsChange = (tags: string[]) => {
+    onUpdate({ ...entry, tags, updatedAt: Date.now() });
+  };
+
+  // Files that fail are reported together; the others are still stored
+  const storeFiles = async (files: File[]): Promise<JournalAttachment[]> => {
+    setIsStoringFiles(true);
+    const { stored, failures } = await storeAttachments(files).finally(() => setIsStoringFiles(false));
+    if (failures.length > 0) alert(failures.join('\n'));
+    return stored;
+  };
+
+  const appendAttachments = (attachments: JournalAttachment[]) => {
+    if (attachments.length === 0) return;
+    const latest = entryRef.current;
+    onUpdate({
+      ...latest,
+      images: [...latest.images, ...attachments],
+      updatedAt: Date.now()
+    });
+  };
+
+  // Handle Image Upload and Attach File (both inputs)
+  const handleFileInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
     // Reset input
-    if (fileInputRef.current) fileInputRef.current.value = '';
+    e.target.value = '';
+    if (files.length === 0) return;
+    appendAttachments(await storeFiles(files));
+  };
+
+  // A finished voice note
+  const handleRecorded = async (audio: Blob, duration: number) => {
+    const voiceNote: JournalAttachment = {
+      id: crypto.randomUUID(),
+      kind: 'audio',
+      mimeType: baseMimeType(audio.type) || 'audio/webm',
+      size: audio.size,
+      duration,
+    };
+    try {
+      await saveImageBlob(voiceNote.id, audio);
+    } catch (err) {
+      alert(t('editor.voiceNoteFailed'));
+      return;
+    }
+    appendAttachments([voiceNote]);
+  };
+
+  // Images pasted or dropped into the text go in at the cursor
+  const insertInlineImages = async (files: File[]) => {
+    const textarea = textareaRef.current;
+    if (!textarea || files.length === 0) return;
+    const newImages = await storeFiles(files);
+    if (newImages.length === 0) return;
+
+    const cursor = textarea.selectionStart;
+    const atLineStart = cursor === 0 || textarea.value[cursor - 1] === '\n';
+    const tokens = newImages.map(img => imageToken(img.id)).join('\n');
+    const text = `${atLineStart ? '' : '\n'}${tokens}\n`;
+    applyTextEdit(textarea, {
+      start: cursor,
+      end: textarea.selectionEnd,
+      text,
+      selectionStart: cursor + text.length,
+      selectionEnd: cursor + text.length,
+    });
+
+    // The edit above already went through onUpdate; add the images on top of it
+    const latest = entryRef.current;
+    onUpdate({
+      ...latest,
+      content: textarea.value,
+      images: [...latest.images, ...newImages],
+      updatedAt: Date.now()
+    });
+  };
+
+  // Pasted or dropped files: pictures go in at the cursor, anything else is attached
+  const handleContentFiles = async (fileList: FileList | undefined) => {
+    const files = Array.from(fileList || []);
+    const images = files.filter(file => kindForMimeType(file.type) === 'image');
+    const others = files.filter(file => kindForMimeType(file.type) !== 'image');
+    if (images.length > 0) await insertInlineImages(images);
+    if (others.length > 0) appendAttachments(await storeFiles(others));
   };
 
-  // Remove Image
-  const removeImage = (imageId: string) => {
+  const handleContentPaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    if (!e.clipboardData?.files.length) return; // Plain text pastes as usual
+    e.preventDefault();
+    handleContentFiles(e.clipboardData.files);
+  };
+
+  const handleContentDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    if (!e.dataTransfer?.files.length) return;
+    e.preventDefault();
+    handleContentFiles(e.dataTransfer.files);
+  };
+
+  // Remove Attachment
+  const removeAttachment = (attachmentId: string) => {
     onUpdate({
       ...entry,
-      images: entry.images.filter(img => img.id !== imageId),
+      images: entry.images.filter(img => img.id !== attachmentId),
       updatedAt: Date.now()
     });
   };
 
-  // Download single image
-  const downloadImage = (img: JournalImage) => {
+  // Restore a revision from the history panel (autosave records it as a new revision)
+  const restoreRevision = (revision: EntryRevision) => {
+    onUpdate({
+      ...entry,
+      title: revision.title,
+      content: revision.content,
+      mood: revision.mood,
+      tags: revision.tags,
+      images: revision.images,
+      updatedAt: Date.now()
+    });
+    setShowHistory(false);
+  };
+
+  // Download single attachment
+  const downloadAttachment = async (attachment: JournalAttachment) => {
+    const blob = await getImageBlob(attachment.id);
+    if (!blob) return;
     const link = document.createElement('a');
-    link.href = img.data;
-    // Simple extension guess
-    const ext = img.mimeType.split('/')[1] || 'png';
-    link.download = `journal-photo-${img.id}.${ext}`;
+    link.href = URL.createObjectURL(blob);
+    link.download = downloadName(attachment);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
   };
 
   // Download entry as text file
   const downloadAsFile = () => {
-    const moodStr = entry.mood ? `Mood: ${entry.mood}\n` : '';
-    const textContent = `Title: ${entry.title}\nDate: ${new Date(entry.createdAt).toLocaleString()}\n${moodStr}\n${entry.content}`;
+    const moodStr = entry.mood ? `Mood: ${getMoodLevel(entry.mood).label}\n` : '';
+    const textContent = `Title: ${entry.title}\nDate: ${formatEntryDate(entry, { dateStyle: 'medium', timeStyle: 'short' })}\n${moodStr}\n${entry.content}`;
     const element = document.createElement("a");
     const file = new Blob([textContent], {type: 'text/plain'});
     element.href = URL.createObjectURL(file);
@@ -96,32 +284,26 @@ export const JournalEditor: React.FC<JournalEditorProps> = ({ entry, onUpdate, o
     document.body.removeChild(element);
   };
 
-  // Date Formatter for Morocco
-  const formattedDate = new Date(entry.createdAt).toLocaleDateString('en-GB', { 
-    timeZone: 'Africa/Casablanca',
-    weekday: 'long', 
-    month: 'long', 
-    day: 'numeric' 
-  });
+  const inlineIds = new Set(inlineImageIds(entry.content));
+  const gridPhotos = entry.images.filter(img => isPhoto(img) && !inlineIds.has(img.id));
+  const otherAttachments = entry.images.filter(img => !isPhoto(img));
 
   return (
-    <div className="flex flex-col h-full max-w-3xl mx-auto w-full bg-paper shadow-sm min-h-screen md:min-h-0 relative">
+    <div className={`flex flex-col h-full ${editorMode === 'split' ? 'max-w-6xl' : 'max-w-3xl'} mx-auto w-full bg-paper shadow-sm min-h-screen md:min-h-0 relative`}>
       
       {/* Toolbar - Z-Index increased to 50 to ensure it is above everything else */}
-      <div className="sticky top-0 z-50 bg-white/95 backdrop-blur-sm border-b border-stone-100 px-4 md:px-8 py-4 flex justify-between items-center gap-2 shadow-sm">
+      <div className="sticky top-0 z-50 bg-surface/95 backdrop-blur-sm border-b border-stone-100 px-4 md:px-8 py-4 flex justify-between items-center gap-2 shadow-sm">
         {/* Date */}
-        <div className="text-[10px] md:text-xs font-medium text-stone-400 uppercase tracking-widest truncate max-w-[100px] md:max-w-none">
-          {formattedDate}
-        </div>
+        <EntryDatePicker entry={entry} onChange={handleDateChange} />
         
         <div className="flex items-center gap-2 md:gap-3">
           {/* Autosave Indicator - Hidden on mobile to save space */}
           <div className="hidden md:block">
             {isSaving ? (
-               <span className="text-xs text-stone-400 animate-pulse">Saving...</span>
+               <span className="text-xs text-stone-400 animate-pulse">{t('editor.saving')}</span>
             ) : (
               <span className="flex items-center text-stone-300 text-xs">
-                 <Check className="w-3 h-3 mr-1" /> Saved
+                 <Check className="w-3 h-3 me-1" /> {t('editor.saved')}
               </span>
             )}
           </div>
@@ -137,34 +319,80 @@ export const JournalEditor: React.FC<JournalEditorProps> = ({ entry, onUpdate, o
                 onSaveToCloud();
             }}
             className="cursor-pointer flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-full transition-all shadow-sm hover:shadow-md text-xs font-bold active:scale-95 whitespace-nowrap relative z-50"
-            title="Save to Google Drive"
+            title={t('editor.saveToDrive')}
           >
             <CloudUpload className="w-3.5 h-3.5" />
-            <span>Save Online</span>
+            <span>{t('editor.saveOnline')}</span>
           </button>
 
           <div className="h-4 w-px bg-stone-200 mx-1 md:mx-2"></div>
 
+          {/* Write / Split / Preview */}
+          <div className="flex bg-stone-100 rounded-lg p-0.5">
+            {EDITOR_MODES.map(({ mode, icon: Icon, title }) => (
+              <button
+                key={mode}
+                onClick={() => handleEditorModeChange(mode)}
+                className={`p-1.5 rounded-md transition-all cursor-pointer ${mode === 'split' ? 'hidden md:block' : ''} ${editorMode === mode ? 'bg-surface shadow-sm text-ink' : 'text-stone-400 hover:text-stone-600'}`}
+                title={t(title)}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            ))}
+          </div>
+
           {/* Secondary Actions */}
           <button 
             onClick={() => fileInputRef.current?.click()}
+            disabled={isStoringFiles}
             className="p-2 hover:bg-stone-100 text-stone-500 rounded-full transition-colors cursor-pointer"
-            title="Add Image"
+            title={isStoringFiles ? t('editor.processingFiles') : t('editor.addImage')}
           >
-            <ImageIcon className="w-4 h-4" />
+            {isStoringFiles ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImageIcon className="w-4 h-4" />}
+          </button>
+          <button 
+            onClick={() => setShowPhotoSettings(true)}
+            className="hidden md:block p-2 -ms-2 hover:bg-stone-100 text-stone-300 hover:text-stone-500 rounded-full transition-colors cursor-pointer"
+            title={t('editor.photoSettings')}
+          >
+            <Settings2 className="w-3.5 h-3.5" />
           </button>
           <input 
             type="file" 
             ref={fileInputRef} 
-            onChange={handleImageUpload} 
+            onChange={handleFileInput} 
             accept="image/*" 
             className="hidden" 
           />
+          <button 
+            onClick={() => attachInputRef.current?.click()}
+            disabled={isStoringFiles}
+            className="p-2 hover:bg-stone-100 text-stone-500 rounded-full transition-colors cursor-pointer"
+            title={t('editor.attachFile')}
+          >
+            <Paperclip className="w-4 h-4" />
+          </button>
+          <input 
+            type="file" 
+            ref={attachInputRef} 
+            onChange={handleFileInput} 
+            multiple
+            className="hidden" 
+          />
+          <VoiceRecorder key={entry.id} onRecorded={handleRecorded} disabled={isStoringFiles} />
+
+          <button 
+            onClick={() => setShowHistory(true)}
+            className="p-2 hover:bg-stone-100 text-stone-500 rounded-full transition-colors cursor-pointer"
+            title={t('editor.history')}
+          >
+            <History className="w-4 h-4" />
+          </button>
 
           <button 
             onClick={downloadAsFile}
             className="p-2 hover:bg-stone-100 text-stone-500 rounded-full transition-colors cursor-pointer"
-            title="Download Entry as .txt"
+            title={t('editor.download')}
           >
             <Download className="w-4 h-4" />
           </button>
@@ -173,25 +401,39 @@ export const JournalEditor: React.FC<JournalEditorProps> = ({ entry, onUpdate, o
 
       {/* Content Area */}
       <div className="flex-grow overflow-y-auto px-6 py-6 md:px-12 md:py-8">
+
+        {/* Sync Conflict */}
+        {entry.conflict && onResolveConflict && (
+          <ConflictResolver key={entry.conflict.detectedAt} entry={entry} onResolve={onResolveConflict} />
+        )}
         
         {/* Mood Selector */}
-        <div className="flex space-x-2 mb-6 overflow-x-auto no-scrollbar pb-2 md:pb-0">
+        <div className="flex space-x-2 rtl:space-x-reverse mb-6 overflow-x-auto no-scrollbar pb-2 md:pb-0">
             {moods.map((m) => (
             <button
-                key={m.value}
-                onClick={() => handleMoodChange(m.value)}
+                key={m.id}
+                onClick={() => handleMoodChange(m.id)}
                 className={`
-                flex items-center space-x-1.5 px-4 py-2 rounded-full text-sm font-medium transition-all duration-200 transform active:scale-95 whitespace-nowrap cursor-pointer
-                ${entry.mood === m.value 
-                    ? 'bg-stone-800 text-white shadow-md scale-105 ring-2 ring-stone-200 ring-offset-2' 
+                flex items-center space-x-1.5 rtl:space-x-reverse px-4 py-2 rounded-full text-sm font-medium transition-all duration-200 transform active:scale-95 whitespace-nowrap cursor-pointer
+                ${entry.mood === m.id 
+                    ? 'bg-stone-800 text-surface shadow-md scale-105 ring-2 ring-stone-200 ring-offset-2 ring-offset-surface' 
                     : 'bg-stone-100 text-stone-500 hover:bg-stone-200 hover:text-stone-700'
                 }
                 `}
             >
-                <span className="text-base">{m.icon}</span>
+                <span className="text-base">{m.emoji}</span>
                 <span>{m.label}</span>
             </button>
             ))}
+            {onEditMoodScale && (
+                <button
+                    onClick={onEditMoodScale}
+                    className="p-2 text-stone-300 hover:text-stone-600 hover:bg-stone-100 rounded-full transition-colors cursor-pointer shrink-0"
+                    title={t('editor.editMoodScale')}
+                >
+                    <SlidersHorizontal className="w-4 h-4" />
+                </button>
+            )}
         </div>
 
         {/* Title Input */}
@@ -199,33 +441,96 @@ export const JournalEditor: React.FC<JournalEditorProps> = ({ entry, onUpdate, o
           type="text"
           value={entry.title}
           onChange={handleTitleChange}
-          placeholder="Untitled Entry"
-          className="w-full text-3xl md:text-4xl font-serif font-bold text-ink bg-transparent border-none focus:outline-none placeholder-stone-300 mb-6"
+          placeholder={t('common.untitled')}
+          dir={dir}
+          className="w-full text-3xl md:text-4xl font-serif font-bold text-ink bg-transparent border-none focus:outline-none placeholder-stone-300 mb-3"
         />
 
-        {/* Body Text */}
-        <textarea
-          value={entry.content}
-          onChange={handleContentChange}
-          placeholder="Start writing..."
-          className="w-full h-[60vh] resize-none bg-transparent text-lg leading-relaxed font-serif text-stone-800 placeholder-stone-300 focus:outline-none"
-          spellCheck={false}
+        {/* Tags */}
+        <TagInput
+          tags={entry.tags || []}
+          inlineTags={hashtags(entry.content)}
+          suggestions={tagSuggestions}
+          onChange={handleTagsChange}
         />
 
-        {/* Image Grid */}
-        {entry.images.length > 0 && (
+        {/* Formatting */}
+        {editorMode !== 'preview' && (
+          <div className="flex items-center gap-0.5 mb-3 -ms-1.5 overflow-x-auto no-scrollbar">
+            {FORMAT_BUTTONS.map(({ command, icon: Icon, title }) => (
+              <button
+                key={command}
+                // Keep the textarea's selection
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => runFormat(command)}
+                className="p-1.5 text-stone-400 hover:text-stone-700 hover:bg-stone-100 rounded-md transition-colors cursor-pointer shrink-0"
+                title={t(title)}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Body Text */}
+        <div className={editorMode === 'split' ? 'grid grid-cols-1 md:grid-cols-2 gap-8' : ''}>
+          {editorMode !== 'preview' && (
+            <textarea
+              ref={textareaRef}
+              value={entry.content}
+              onChange={handleContentChange}
+              onKeyDown={handleContentKeyDown}
+              onPaste={handleContentPaste}
+              onDrop={handleContentDrop}
+              placeholder={t('editor.placeholder')}
+              dir={dir}
+              className={`w-full h-[60vh] resize-none bg-transparent ${fontSize} leading-relaxed font-serif text-stone-800 placeholder-stone-300 focus:outline-none`}
+              spellCheck={false}
+            />
+          )}
+          {editorMode !== 'edit' && (
+            <div className={editorMode === 'split' ? 'h-[60vh] overflow-y-auto md:ps-8 md:border-s border-stone-100' : 'min-h-[60vh]'}>
+              {entry.content.trim() ? (
+                <MarkdownView
+                  content={entry.content}
+                  onToggleTask={handleToggleTask}
+                  onImageClick={(id) => setFullScreenImage(entry.images.find(img => img.id === id) || { id, mimeType: '' })}
+                  className={`${fontSize} leading-relaxed font-serif text-stone-800`}
+                />
+              ) : (
+                <p className={`${fontSize} font-serif text-stone-300`}>{t('editor.nothingToPreview')}</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Attachments: voice notes and files, then the photo grid (photos placed in the text show there instead) */}
+        {(gridPhotos.length > 0 || otherAttachments.length > 0) && (
           <div className="mt-8 pt-8 border-t border-stone-100">
-            <h3 className="text-xs font-bold uppercase text-stone-400 mb-4 tracking-wider">Attachments</h3>
+            <h3 className="text-xs font-bold uppercase text-stone-400 mb-4 tracking-wider">{t('editor.attachments')}</h3>
+            {otherAttachments.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+                {otherAttachments.map((attachment) => (
+                  <AttachmentChip
+                    key={attachment.id}
+                    attachment={attachment}
+                    onDownload={() => downloadAttachment(attachment)}
+                    onRemove={() => removeAttachment(attachment.id)}
+                  />
+                ))}
+              </div>
+            )}
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-              {entry.images.map((img) => (
+              {gridPhotos.map((img) => (
                 <div 
                   key={img.id} 
                   onClick={() => setFullScreenImage(img)}
                   className="group relative aspect-square rounded-lg overflow-hidden bg-stone-100 shadow-sm ring-1 ring-stone-200 cursor-zoom-in"
                 >
-                  <img 
-                    src={img.data} 
-                    alt="Attachment" 
+                  <LocalImage 
+                    imageId={img.id} 
+                    alt={t('editor.attachment')} 
+                    thumbnail
                     className="w-full h-full object-cover"
                   />
                   {/* Hover Overlay with Delete Button */}
@@ -233,10 +538,10 @@ export const JournalEditor: React.FC<JournalEditorProps> = ({ entry, onUpdate, o
                     <button 
                       onClick={(e) => {
                         e.stopPropagation();
-                        removeImage(img.id);
+                        removeAttachment(img.id);
                       }}
-                      className="p-2 bg-white rounded-full shadow-md text-red-500 hover:bg-red-50 cursor-pointer"
-                      title="Remove Image"
+                      className="p-2 bg-surface rounded-full shadow-md text-red-500 hover:bg-red-50 cursor-pointer"
+                      title={t('editor.removeImage')}
                     >
                       <X className="w-4 h-4" />
                     </button>
@@ -248,6 +553,13 @@ export const JournalEditor: React.FC<JournalEditorProps> = ({ entry, onUpdate, o
         )}
       </div>
 
+      {/* Revision History */}
+      {showHistory && (
+        <RevisionHistory entry={entry} onRestore={restoreRevision} onClose={() => setShowHistory(false)} />
+      )}
+
+      {showPhotoSettings && <PhotoSettings onClose={() => setShowPhotoSettings(false)} />}
+
       {/* Full Screen Image Modal */}
       {fullScreenImage && (
         <div 
@@ -257,27 +569,34 @@ export const JournalEditor: React.FC<JournalEditorProps> = ({ entry, onUpdate, o
             {/* Close Button */}
             <button 
                 onClick={() => setFullScreenImage(null)}
-                className="absolute top-6 right-6 p-2 bg-white/10 hover:bg-white/20 text-white/80 hover:text-white rounded-full transition-all cursor-pointer"
+                title={t('common.close')}
+                className="absolute top-6 end-6 p-2 bg-white/10 hover:bg-white/20 text-white/80 hover:text-white rounded-full transition-all cursor-pointer"
             >
                 <X className="w-8 h-8" />
             </button>
 
             {/* Image */}
-            <img 
-                src={fullScreenImage.data} 
-                alt="Full screen view" 
+            <LocalImage 
+                imageId={fullScreenImage.id} 
+                alt={t('editor.fullScreen')} 
                 className="max-w-full max-h-[80vh] object-contain shadow-2xl rounded-sm"
                 onClick={(e) => e.stopPropagation()} 
             />
 
+            {fullScreenImage.capturedAt && (
+                <p className="mt-4 text-sm text-white/60" onClick={(e) => e.stopPropagation()}>
+                    {t('editor.taken', { date: formatDate(fullScreenImage.capturedAt, { dateStyle: 'medium', timeStyle: 'short' }) })}
+                </p>
+            )}
+
             {/* Actions */}
             <div className="mt-8 flex items-center gap-4" onClick={(e) => e.stopPropagation()}>
                  <button 
-                    onClick={() => downloadImage(fullScreenImage)}
-                    className="flex items-center space-x-2 bg-white text-stone-900 px-6 py-3 rounded-full font-medium shadow-lg hover:bg-stone-100 hover:scale-105 transition-all active:scale-95 cursor-pointer"
+                    onClick={() => downloadAttachment(fullScreenImage)}
+                    className="flex items-center space-x-2 rtl:space-x-reverse bg-surface text-stone-900 px-6 py-3 rounded-full font-medium shadow-lg hover:bg-stone-100 hover:scale-105 transition-all active:scale-95 cursor-pointer"
                 >
                     <Download className="w-5 h-5" />
-                    <span>Download Photo</span>
+                    <span>{t('editor.downloadPhoto')}</span>
                 </button>
             </div>
         </div>
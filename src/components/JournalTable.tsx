@@ -1,61 +1,138 @@
 
 import React, { useState } from 'react';
 import { JournalEntry, Mood } from '../types';
-import { Search, Calendar, Smile, Image as ImageIcon, Edit2, Trash2, FileText, ArrowUpDown } from 'lucide-react';
+import { LocalImage } from './LocalImage';
+import { HighlightedText } from './HighlightedText';
+import { useEntryQuery } from '../hooks/useEntryQuery';
+import { useMoodScale } from '../hooks/useMoodScale';
+import { useI18n } from '../hooks/useI18n';
+import { getMoodLevel } from '../services/moodScale';
+import { buildSnippet, highlight } from '../services/search';
+import { entryTags } from '../services/tags';
+import { stripMarkdown } from '../services/markdown';
+import { entryPhotos } from '../services/attachments';
+import { formatEntryDate } from '../services/dateTime';
+import { Search, Calendar, Smile, Image as ImageIcon, Edit2, Trash2, FileText, ArrowUpDown, Bookmark, AlertCircle, Hash, Paperclip } from 'lucide-react';
 
 interface JournalTableProps {
   entries: JournalEntry[];
   onSelect: (entry: JournalEntry) => void;
   onDelete: (e: React.MouseEvent, id: string) => void;
+  onSaveSmartFilter?: (name: string, query: string) => void;
 }
 
-export const JournalTable: React.FC<JournalTableProps> = ({ entries, onSelect, onDelete }) => {
+/**
+ * First photo, with counts of the other photos and of any other attachments
+ */
+const MediaCell: React.FC<{ entry: JournalEntry }> = ({ entry }) => {
+    const photos = entryPhotos(entry);
+    const others = entry.images.length - photos.length;
+    const { t } = useI18n();
+    if (entry.images.length === 0) return <span className="text-stone-300">-</span>;
+
+    return (
+        <div className="flex items-center space-x-1 rtl:space-x-reverse">
+            {photos.length > 0 && (
+                <LocalImage 
+                    imageId={photos[0].id} 
+                    alt={t('sidebar.thumbnail')} 
+                    thumbnail
+                    className="w-8 h-8 rounded object-cover border border-stone-200 shadow-sm"
+                />
+            )}
+            {photos.length > 1 && (
+                <span className="text-xs font-bold text-stone-400 bg-stone-100 px-1.5 py-0.5 rounded-full">
+                    +{photos.length - 1}
+                </span>
+            )}
+            {others > 0 && (
+                <span className="flex items-center text-xs font-bold text-stone-400 bg-stone-100 px-1.5 py-0.5 rounded-full" title={t('table.otherAttachments')}>
+                    <Paperclip className="w-3 h-3 me-0.5" />{others}
+                </span>
+            )}
+        </div>
+    );
+};
+
+export const JournalTable: React.FC<JournalTableProps> = ({ entries, onSelect, onDelete, onSaveSmartFilter }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [moodFilter, setMoodFilter] = useState<Mood | 'All'>('All');
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('desc');
+  // While searching, rows are ranked by relevance until a column sort is picked
+  const [sortByDate, setSortByDate] = useState(false);
+  const [smartFilterName, setSmartFilterName] = useState<string | null>(null);
+  const { results: searchResults, pending: searchPending, terms: searchTerms, errors: queryErrors } = useEntryQuery(searchTerm, entries);
+  const isRanked = searchTerms.length > 0;
+  const rank = new Map(searchResults?.map((entry, i) => [entry.id, i]));
 
   // Filter & Sort
-  const filteredEntries = entries
-    .filter(entry => {
-      const matchesSearch = 
-        entry.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        entry.content.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesMood = moodFilter === 'All' || entry.mood === moodFilter;
-      return matchesSearch && matchesMood;
-    })
+  const filteredEntries = (searchResults || entries)
+    .filter(entry => moodFilter === 'All' || entry.mood === moodFilter)
     .sort((a, b) => {
+      if (isRanked && !sortByDate) return rank.get(a.id)! - rank.get(b.id)!;
       return sortDir === 'asc' 
         ? a.createdAt - b.createdAt 
         : b.createdAt - a.createdAt;
     });
 
-  const moodIcons: Record<string, string> = {
-    'Great': '😁',
-    'Good': '🙂',
-    'Okay': '😐',
-    'Bad': '☹️'
+  const canSaveQuery = !!onSaveSmartFilter && searchTerm.trim() !== '' && queryErrors.length === 0;
+
+  const confirmSaveSmartFilter = () => {
+    if (!smartFilterName?.trim() || !onSaveSmartFilter) return;
+    onSaveSmartFilter(smartFilterName.trim(), searchTerm.trim());
+    setSmartFilterName(null);
   };
 
+  const moodScale = useMoodScale();
+  const { t } = useI18n();
+
   return (
     <div className="flex flex-col h-full bg-paper overflow-hidden animate-in fade-in duration-300">
       
       {/* Table Toolbar */}
-      <div className="p-6 border-b border-stone-200 bg-white flex flex-col md:flex-row gap-4 justify-between items-center sticky top-0 z-10 shadow-sm">
+      <div className="p-6 border-b border-stone-200 bg-surface flex flex-col md:flex-row gap-4 justify-between items-center sticky top-0 z-10 shadow-sm">
         <h2 className="text-2xl font-serif font-bold text-ink flex items-center">
-            <span className="mr-2">📊</span> Sheet View
+            <span className="me-2">📊</span> {t('table.title')}
         </h2>
         
         <div className="flex gap-3 w-full md:w-auto">
-            {/* Search */}
-            <div className="relative flex-grow md:flex-grow-0 md:w-64">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-stone-400 w-4 h-4" />
+            {/* Search (query language: see services/query.ts) */}
+            <div className="relative flex-grow md:flex-grow-0 md:w-80">
+                <Search className="absolute start-3 top-1/2 transform -translate-y-1/2 text-stone-400 w-4 h-4" />
                 <input 
                     type="text" 
-                    placeholder="Filter title or content..." 
+                    placeholder={t('table.search', { mood: moodScale[0]?.label.toLowerCase() ?? 'good' })}
                     value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
-                    className="w-full pl-9 pr-4 py-2 bg-stone-50 border border-stone-200 rounded-lg text-sm focus:outline-none focus:border-stone-400 focus:ring-1 focus:ring-stone-200"
+                    onChange={(e) => { setSearchTerm(e.target.value); setSortByDate(false); }}
+                    className={`w-full ps-9 pe-9 py-2 bg-stone-50 border rounded-lg text-sm focus:outline-none focus:ring-1 ${
+                        queryErrors.length > 0
+                            ? 'border-amber-300 focus:border-amber-400 focus:ring-amber-100'
+                            : 'border-stone-200 focus:border-stone-400 focus:ring-stone-200'
+                    }`}
+                    title={t('common.searchHelp')}
                 />
+                {canSaveQuery && (
+                    <button
+                        onClick={() => setSmartFilterName('')}
+                        className="absolute end-2 top-1/2 transform -translate-y-1/2 p-1 text-stone-400 hover:text-stone-700"
+                        title={t('table.saveSmartFilter')}
+                    >
+                        <Bookmark className="w-4 h-4" />
+                    </button>
+                )}
+                {queryErrors.length > 0 && (
+                    <div className="absolute start-0 end-0 top-full mt-1 z-20 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 shadow-sm space-y-1">
+                        {queryErrors.map((err, i) => (
+                            <p key={i} className="flex items-start text-xs text-amber-800">
+                                <AlertCircle className="w-3 h-3 me-1.5 mt-0.5 shrink-0" />
+                                <span>
+                                    <code className="font-mono bg-amber-100 px-1 rounded">{searchTerm.slice(err.start, err.end)}</code>{' '}
+                                    {err.message}
+                                </span>
+                            </p>
+                        ))}
+                    </div>
+                )}
             </div>
 
             {/* Mood Filter */}
@@ -64,51 +141,55 @@ export const JournalTable: React.FC<JournalTableProps> = ({ entries, onSelect, o
                 onChange={(e) => setMoodFilter(e.target.value as Mood | 'All')}
                 className="px-3 py-2 bg-stone-50 border border-stone-200 rounded-lg text-sm focus:outline-none focus:border-stone-400 cursor-pointer"
             >
-                <option value="All">All Moods</option>
-                <option value="Great">😁 Great</option>
-                <option value="Good">🙂 Good</option>
-                <option value="Okay">😐 Okay</option>
-                <option value="Bad">☹️ Bad</option>
+                <option value="All">{t('table.allMoods')}</option>
+                {moodScale.map(level => (
+                    <option key={level.id} value={level.id}>{level.emoji} {level.label}</option>
+                ))}
             </select>
         </div>
       </div>
 
       {/* Table Area */}
       <div className="flex-grow overflow-auto p-6">
-        <div className="bg-white rounded-xl border border-stone-200 shadow-sm overflow-hidden">
-            <table className="w-full text-left border-collapse">
+        <div className="bg-surface rounded-xl border border-stone-200 shadow-sm overflow-hidden">
+            <table className="w-full text-start border-collapse">
                 <thead>
                     <tr className="bg-stone-50 border-b border-stone-200 text-xs font-bold text-stone-500 uppercase tracking-wider">
-                        <th className="p-4 w-32 cursor-pointer hover:bg-stone-100 transition-colors group" onClick={() => setSortDir(prev => prev === 'asc' ? 'desc' : 'asc')}>
+                        <th className="p-4 w-32 cursor-pointer hover:bg-stone-100 transition-colors group" onClick={() => { setSortDir(prev => prev === 'asc' ? 'desc' : 'asc'); setSortByDate(true); }}>
                             <div className="flex items-center">
-                                <Calendar className="w-3 h-3 mr-1" /> Date
-                                <ArrowUpDown className={`w-3 h-3 ml-1 opacity-0 group-hover:opacity-50 ${sortDir === 'asc' ? 'rotate-180' : ''} transition-transform`} />
+                                <Calendar className="w-3 h-3 me-1" /> {t('table.date')}
+                                <ArrowUpDown className={`w-3 h-3 ms-1 opacity-0 group-hover:opacity-50 ${sortDir === 'asc' ? 'rotate-180' : ''} transition-transform`} />
                             </div>
                         </th>
                         <th className="p-4 w-24">
                             <div className="flex items-center">
-                                <Smile className="w-3 h-3 mr-1" /> Mood
+                                <Smile className="w-3 h-3 me-1" /> {t('table.mood')}
                             </div>
                         </th>
-                        <th className="p-4 w-1/4">Title</th>
+                        <th className="p-4 w-1/4">{t('table.entryTitle')}</th>
                         <th className="p-4">
                             <div className="flex items-center">
-                                <FileText className="w-3 h-3 mr-1" /> Content Preview
+                                <FileText className="w-3 h-3 me-1" /> {t('table.preview')}
+                            </div>
+                        </th>
+                        <th className="p-4 w-40">
+                            <div className="flex items-center">
+                                <Hash className="w-3 h-3 me-1" /> {t('table.tags')}
                             </div>
                         </th>
                         <th className="p-4 w-24">
                              <div className="flex items-center">
-                                <ImageIcon className="w-3 h-3 mr-1" /> Media
+                                <ImageIcon className="w-3 h-3 me-1" /> {t('table.media')}
                             </div>
                         </th>
-                        <th className="p-4 w-24 text-right">Actions</th>
+                        <th className="p-4 w-24 text-end">{t('table.actions')}</th>
                     </tr>
                 </thead>
                 <tbody className="divide-y divide-stone-100 text-sm text-stone-700">
-                    {filteredEntries.length === 0 ? (
+                    {searchPending ? null : filteredEntries.length === 0 ? (
                         <tr>
-                            <td colSpan={6} className="p-12 text-center text-stone-400">
-                                No entries found matching your filters.
+                            <td colSpan={7} className="p-12 text-center text-stone-400">
+                                {t('table.noMatch')}
                             </td>
                         </tr>
                     ) : (
@@ -119,54 +200,55 @@ export const JournalTable: React.FC<JournalTableProps> = ({ entries, onSelect, o
                                 onClick={() => onSelect(entry)}
                             >
                                 <td className="p-4 font-mono text-xs text-stone-500 whitespace-nowrap">
-                                    {new Date(entry.createdAt).toLocaleDateString('en-GB', { 
-                                        year: 'numeric', month: '2-digit', day: '2-digit' 
-                                    })}
+                                    {formatEntryDate(entry, { year: 'numeric', month: '2-digit', day: '2-digit' })}
                                 </td>
                                 <td className="p-4">
                                     {entry.mood ? (
-                                        <span className="text-lg" title={entry.mood}>{moodIcons[entry.mood]}</span>
+                                        <span className="text-lg" title={getMoodLevel(entry.mood, moodScale).label}>{getMoodLevel(entry.mood, moodScale).emoji}</span>
                                     ) : (
                                         <span className="text-stone-300">-</span>
                                     )}
                                 </td>
                                 <td className="p-4 font-semibold text-stone-900">
-                                    {entry.title || <span className="italic text-stone-400">Untitled</span>}
+                                    {entry.title
+                                        ? (isRanked ? <HighlightedText parts={highlight(entry.title, searchTerms)} /> : entry.title)
+                                        : <span className="italic text-stone-400">{t('table.untitled')}</span>}
                                 </td>
                                 <td className="p-4 text-stone-500 max-w-md truncate">
-                                    {entry.content || "-"}
+                                    {isRanked
+                                        ? <HighlightedText parts={buildSnippet(stripMarkdown(entry.content), searchTerms)} />
+                                        : stripMarkdown(entry.content) || "-"}
                                 </td>
                                 <td className="p-4">
-                                    {entry.images.length > 0 ? (
-                                        <div className="flex items-center space-x-1">
-                                            <img 
-                                                src={entry.images[0].data} 
-                                                alt="thumbnail" 
-                                                className="w-8 h-8 rounded object-cover border border-stone-200 shadow-sm"
-                                            />
-                                            {entry.images.length > 1 && (
-                                                <span className="text-xs font-bold text-stone-400 bg-stone-100 px-1.5 py-0.5 rounded-full">
-                                                    +{entry.images.length - 1}
-                                                </span>
-                                            )}
-                                        </div>
-                                    ) : (
-                                        <span className="text-stone-300">-</span>
-                                    )}
+                                    <div className="flex flex-wrap gap-1">
+                                        {entryTags(entry).map(tag => (
+                                            <button
+                                                key={tag}
+                                                onClick={(e) => { e.stopPropagation(); setSearchTerm(`tag:${tag}`); setSortByDate(false); }}
+                                                className="px-1.5 py-0.5 bg-stone-100 text-stone-500 rounded text-[11px] hover:bg-stone-200 hover:text-stone-700"
+                                                title={t('table.showTag', { tag })}
+                                            >
+                                                #{tag}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </td>
+                                <td className="p-4">
+                                    <MediaCell entry={entry} />
                                 </td>
-                                <td className="p-4 text-right">
-                                    <div className="flex items-center justify-end space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <td className="p-4 text-end">
+                                    <div className="flex items-center justify-end space-x-2 rtl:space-x-reverse opacity-0 group-hover:opacity-100 transition-opacity">
                                         <button 
                                             onClick={(e) => { e.stopPropagation(); onSelect(entry); }}
-                                            className="p-1.5 hover:bg-white hover:text-blue-600 text-stone-400 rounded-md border border-transparent hover:border-stone-200 shadow-sm"
-                                            title="Edit"
+                                            className="p-1.5 hover:bg-surface hover:text-blue-600 text-stone-400 rounded-md border border-transparent hover:border-stone-200 shadow-sm"
+                                            title={t('table.edit')}
                                         >
                                             <Edit2 className="w-3 h-3" />
                                         </button>
                                         <button 
                                             onClick={(e) => onDelete(e, entry.id)}
                                             className="p-1.5 hover:bg-red-50 hover:text-red-600 text-stone-400 rounded-md border border-transparent hover:border-red-100 shadow-sm"
-                                            title="Delete"
+                                            title={t('common.delete')}
                                         >
                                             <Trash2 className="w-3 h-3" />
                                         </button>
@@ -179,6 +261,48 @@ export const JournalTable: React.FC<JournalTableProps> = ({ entries, onSelect, o
             </table>
         </div>
       </div>
+
+      {/* Save Smart Filter Modal */}
+      {smartFilterName !== null && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-stone-900/20 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-surface rounded-xl shadow-2xl border border-stone-100 p-6 max-w-sm w-full transform transition-all scale-100">
+                <div className="flex items-center space-x-3 rtl:space-x-reverse mb-4">
+                    <div className="p-2 bg-stone-100 rounded-full">
+                        <Bookmark className="w-6 h-6 text-stone-600" />
+                    </div>
+                    <h3 className="text-lg font-bold text-stone-900">{t('smartFilterDialog.title')}</h3>
+                </div>
+                <p className="text-stone-600 text-sm leading-relaxed mb-3">
+                    {t('smartFilterDialog.body')}
+                </p>
+                <code className="block text-xs font-mono bg-stone-50 border border-stone-100 rounded-lg px-3 py-2 mb-3 text-stone-600 break-all">{searchTerm.trim()}</code>
+                <input
+                    type="text"
+                    autoFocus
+                    placeholder={t('smartFilterDialog.name')}
+                    value={smartFilterName}
+                    onChange={(e) => setSmartFilterName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') confirmSaveSmartFilter(); if (e.key === 'Escape') setSmartFilterName(null); }}
+                    className="w-full px-3 py-2 mb-6 bg-stone-50 border border-stone-200 rounded-lg text-sm focus:outline-none focus:border-stone-400 focus:ring-1 focus:ring-stone-200"
+                />
+                <div className="flex justify-end space-x-3 rtl:space-x-reverse">
+                    <button
+                        onClick={() => setSmartFilterName(null)}
+                        className="px-4 py-2.5 text-stone-600 text-sm font-medium hover:bg-stone-100 rounded-lg transition-colors"
+                    >
+                        {t('common.cancel')}
+                    </button>
+                    <button
+                        onClick={confirmSaveSmartFilter}
+                        disabled={!smartFilterName.trim()}
+                        className="px-4 py-2.5 bg-stone-900 text-surface text-sm font-medium rounded-lg hover:bg-stone-800 shadow-sm transition-colors disabled:bg-stone-200 disabled:text-stone-400 disabled:shadow-none"
+                    >
+                        {t('common.save')}
+                    </button>
+                </div>
+            </div>
+        </div>
+      )}
     </div>
   );
 };
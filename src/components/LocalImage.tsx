@@ -0,0 +1,74 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageOff } from 'lucide-react';
+import { acquireImageUrl, releaseImageUrl } from '../services/imageUrls';
+
+interface LocalImageProps {
+  imageId: string;
+  alt: string;
+  className?: string;
+  thumbnail?: boolean; // Load the small version (for lists and grids)
+  onClick?: (e: React.MouseEvent<HTMLImageElement>) => void;
+}
+
+/**
+ * <img> backed by the local image store. The blob is only read once the
+ * element scrolls near the viewport.
+ */
+export const LocalImage: React.FC<LocalImageProps> = ({ imageId, alt, className = '', thumbnail = false, onClick }) => {
+  const placeholderRef = useRef<HTMLSpanElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+
+  // Wait until the placeholder is close to the viewport
+  useEffect(() => {
+    const el = placeholderRef.current;
+    if (isVisible || !el) return;
+    if (typeof IntersectionObserver === 'undefined') {
+      setIsVisible(true);
+      return;
+    }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(e => e.isIntersecting)) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [isVisible]);
+
+  useEffect(() => {
+    if (!isVisible) return;
+    let cancelled = false;
+    let acquired = false;
+
+    setIsMissing(false);
+    acquireImageUrl(imageId, thumbnail).then(result => {
+      if (!result) {
+        if (!cancelled) setIsMissing(true);
+        return;
+      }
+      acquired = true;
+      if (cancelled) releaseImageUrl(imageId, thumbnail);
+      else setUrl(result);
+    });
+
+    return () => {
+      cancelled = true;
+      setUrl(null);
+      if (acquired) releaseImageUrl(imageId, thumbnail);
+    };
+  }, [imageId, thumbnail, isVisible]);
+
+  if (url) {
+    return <img src={url} alt={alt} className={className} onClick={onClick} />;
+  }
+
+  return (
+    // A span so the placeholder can sit inside a paragraph, like the <img>
+    <span ref={placeholderRef} className={`${className} flex items-center justify-center bg-stone-100 text-stone-300`}>
+      {isMissing && <ImageOff className="w-4 h-4" />}
+    </span>
+  );
+};
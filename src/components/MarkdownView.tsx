@@ -0,0 +1,123 @@
+import React, { useMemo } from 'react';
+import { MdBlock, MdInline, parseMarkdown } from '../services/markdown';
+import { LocalImage } from './LocalImage';
+
+interface MarkdownActions {
+  onToggleTask?: (line: number) => void; // Task checkboxes are read-only without it
+  onImageClick?: (imageId: string) => void;
+}
+
+interface MarkdownViewProps extends MarkdownActions {
+  content: string;
+  className?: string;
+}
+
+const HEADING_CLASSES = [
+  'text-2xl font-bold mt-6 mb-3',
+  'text-xl font-bold mt-5 mb-2',
+  'text-lg font-semibold mt-4 mb-2',
+  'text-base font-semibold mt-3 mb-1',
+  'text-base font-semibold mt-3 mb-1',
+  'text-sm font-semibold uppercase tracking-wide mt-3 mb-1',
+];
+
+const Inlines: React.FC<{ nodes: MdInline[], actions: MarkdownActions }> = ({ nodes, actions }) => (
+  <>
+    {nodes.map((node, i) => {
+      switch (node.type) {
+        case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+        case 'break': return <br key={i} />;
+        case 'code': return <code key={i} className="px-1 py-0.5 bg-stone-100 rounded text-[0.9em] font-mono">{node.text}</code>;
+        case 'image':
+          return (
+            <LocalImage
+              key={i}
+              imageId={node.imageId}
+              alt={node.alt || 'Photo'}
+              onClick={actions.onImageClick ? () => actions.onImageClick!(node.imageId) : undefined}
+              className={`inline-block max-w-full min-h-[4rem] min-w-[4rem] max-h-[28rem] my-2 rounded-lg shadow-sm ring-1 ring-stone-200 align-middle ${actions.onImageClick ? 'cursor-zoom-in' : ''}`}
+            />
+          );
+        case 'strong': return <strong key={i} className="font-semibold"><Inlines nodes={node.children} actions={actions} /></strong>;
+        case 'em': return <em key={i}><Inlines nodes={node.children} actions={actions} /></em>;
+        case 'del': return <del key={i} className="text-stone-400"><Inlines nodes={node.children} actions={actions} /></del>;
+        case 'link':
+          return (
+            <a key={i} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="underline decoration-stone-300 hover:decoration-stone-600">
+              <Inlines nodes={node.children} actions={actions} />
+            </a>
+          );
+      }
+    })}
+  </>
+);
+
+// Items with a single paragraph show it without paragraph spacing
+const isTight = (blocks: MdBlock[]) => blocks.filter(block => block.type === 'paragraph').length <= 1;
+
+const Blocks: React.FC<{ blocks: MdBlock[], actions: MarkdownActions, tight?: boolean }> = ({ blocks, actions, tight }) => (
+  <>
+    {blocks.map((block, i) => {
+      switch (block.type) {
+        case 'heading': {
+          const Tag = `h${block.level}` as 'h1';
+          return <Tag key={i} className={`font-serif text-ink ${HEADING_CLASSES[block.level - 1]}`}><Inlines nodes={block.children} actions={actions} /></Tag>;
+        }
+        case 'paragraph':
+          return tight
+            ? <React.Fragment key={i}><Inlines nodes={block.children} actions={actions} /></React.Fragment>
+            : <p key={i} className="my-3"><Inlines nodes={block.children} actions={actions} /></p>;
+        case 'quote':
+          return (
+            <blockquote key={i} className="my-3 ps-4 border-s-4 border-stone-200 text-stone-600 italic">
+              <Blocks blocks={block.children} actions={actions} />
+            </blockquote>
+          );
+        case 'code':
+          return <pre key={i} className="my-3 p-3 bg-stone-100 rounded-lg text-sm font-mono whitespace-pre overflow-x-auto">{block.text}</pre>;
+        case 'rule':
+          return <hr key={i} className="my-6 border-stone-200" />;
+        case 'list': {
+          const ListTag = block.ordered ? 'ol' : 'ul';
+          return (
+            <ListTag key={i} start={block.ordered ? block.start : undefined} className={`my-2 ps-6 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map(item => (
+                <li key={item.line} className={item.checked !== undefined ? 'list-none -ms-6' : ''}>
+                  {item.checked !== undefined ? (
+                    <div className="flex items-start gap-2">
+                      <input
+                        type="checkbox"
+                        checked={item.checked}
+                        disabled={!actions.onToggleTask}
+                        onChange={() => actions.onToggleTask?.(item.line)}
+                        className="mt-[0.45em] w-4 h-4 accent-stone-700 cursor-pointer disabled:cursor-default shrink-0"
+                      />
+                      <div className={item.checked ? 'text-stone-400 line-through' : ''}>
+                        <Blocks blocks={item.children} actions={actions} tight={isTight(item.children)} />
+                      </div>
+                    </div>
+                  ) : (
+                    <Blocks blocks={item.children} actions={actions} tight={isTight(item.children)} />
+                  )}
+                </li>
+              ))}
+            </ListTag>
+          );
+        }
+      }
+    })}
+  </>
+);
+
+/**
+ * An entry body rendered from Markdown. Built from React elements only, so
+ * HTML in the text is shown, never interpreted.
+ */
+export const MarkdownView: React.FC<MarkdownViewProps> = ({ content, onToggleTask, onImageClick, className = '' }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return (
+    <div className={`break-words ${className}`}>
+      <Blocks blocks={blocks} actions={{ onToggleTask, onImageClick }} />
+    </div>
+  );
+};
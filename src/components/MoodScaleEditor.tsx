@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { SlidersHorizontal, Plus, Trash2, RotateCcw, AlertCircle } from 'lucide-react';
+import { JournalEntry, MoodLevel } from '../types';
+import {
+  DEFAULT_MOOD_SCALE, MOOD_COLORS, MOOD_COLOR_CLASSES,
+  getMoodLevel, localizeMoodLevel, moodReassignments, newMoodId,
+} from '../services/moodScale';
+import { useMoodScale } from '../hooks/useMoodScale';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../locales/en';
+
+interface MoodScaleEditorProps {
+  entries: JournalEntry[];
+  onSave: (levels: MoodLevel[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Problems that block saving, or null
+ */
+const validate = (levels: MoodLevel[]): MessageKey | null => {
+  if (levels.length < 2) return 'moodScale.tooFew';
+  if (levels.some(level => !level.label.trim())) return 'moodScale.missingName';
+  if (levels.some(level => !level.emoji.trim())) return 'moodScale.missingEmoji';
+  const labels = levels.map(level => level.label.trim().toLowerCase());
+  if (new Set(labels).size !== labels.length) return 'moodScale.duplicateName';
+  if (levels.some(level => !Number.isFinite(level.score))) return 'moodScale.missingScore';
+  return null;
+};
+
+export const MoodScaleEditor: React.FC<MoodScaleEditorProps> = ({ entries, onSave, onClose }) => {
+  const currentScale = useMoodScale();
+  const [levels, setLevels] = useState<MoodLevel[]>(currentScale);
+  const { t } = useI18n();
+
+  const error = validate(levels);
+  const moves = useMemo(() => moodReassignments(entries, currentScale, levels), [entries, currentScale, levels]);
+
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const entry of entries) if (entry.mood) counts.set(entry.mood, (counts.get(entry.mood) || 0) + 1);
+    return counts;
+  }, [entries]);
+
+  const updateLevel = (id: string, changes: Partial<MoodLevel>) =>
+    setLevels(prev => prev.map(level => (level.id === id ? { ...level, ...changes } : level)));
+
+  const addLevel = () => setLevels(prev => [
+    ...prev,
+    {
+      id: newMoodId('mood', [...currentScale, ...prev]),
+      label: '',
+      emoji: '🙂',
+      color: 'stone',
+      score: Math.min(...prev.map(level => level.score), 1) - 1,
+    },
+  ]);
+
+  const handleSave = () => {
+    if (error) return;
+    // New levels get an id from their name; existing ones keep theirs so entries still match
+    const saved = levels.map(level => {
+      const isNew = !currentScale.some(existing => existing.id === level.id);
+      const others = levels.filter(other => other !== level);
+      return {
+        ...level,
+        id: isNew ? newMoodId(level.label, [...currentScale, ...others]) : level.id,
+        label: level.label.trim(),
+        emoji: level.emoji.trim(),
+      };
+    });
+    onSave(saved);
+  };
+
+  // Where entries of removed moods go, grouped for the summary
+  const moveSummary = [...moves.values()].reduce((acc, mood) => acc.set(mood, (acc.get(mood) || 0) + 1), new Map<string, number>());
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-stone-900/20 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-surface rounded-xl shadow-2xl border border-stone-100 p-6 max-w-lg w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center space-x-3 rtl:space-x-reverse mb-4">
+          <div className="p-2 bg-stone-100 rounded-full">
+            <SlidersHorizontal className="w-6 h-6 text-stone-600" />
+          </div>
+          <h3 className="text-lg font-bold text-stone-900">{t('moodScale.title')}</h3>
+        </div>
+        <p className="text-stone-600 text-sm leading-relaxed mb-4">
+          {t('moodScale.intro')}
+        </p>
+
+        <div className="flex-grow overflow-y-auto -mx-2 px-2 space-y-2">
+          <div className="grid grid-cols-[3rem_1fr_4rem_2rem] gap-2 px-1 text-[10px] font-bold text-stone-400 uppercase tracking-wider">
+            <span>{t('moodScale.emoji')}</span><span>{t('moodScale.name')}</span><span>{t('moodScale.score')}</span><span />
+          </div>
+          {levels.map(level => (
+            <div key={level.id} className="p-2 rounded-lg border border-stone-100 bg-stone-50/50 space-y-2">
+              <div className="grid grid-cols-[3rem_1fr_4rem_2rem] gap-2 items-center">
+                <input
+                  type="text"
+                  value={level.emoji}
+                  onChange={(e) => updateLevel(level.id, { emoji: e.target.value })}
+                  className="w-full px-2 py-1.5 text-center bg-surface border border-stone-200 rounded-lg text-base focus:outline-none focus:border-stone-400"
+                  aria-label={t('moodScale.emoji')}
+                />
+                <input
+                  type="text"
+                  value={level.label}
+                  placeholder={t('moodScale.name')}
+                  onChange={(e) => updateLevel(level.id, { label: e.target.value })}
+                  className="w-full px-3 py-1.5 bg-surface border border-stone-200 rounded-lg text-sm focus:outline-none focus:border-stone-400"
+                  aria-label={t('moodScale.name')}
+                />
+                <input
+                  type="number"
+                  value={Number.isFinite(level.score) ? level.score : ''}
+                  onChange={(e) => updateLevel(level.id, { score: e.target.value === '' ? NaN : Number(e.target.value) })}
+                  className="w-full px-2 py-1.5 bg-surface border border-stone-200 rounded-lg text-sm focus:outline-none focus:border-stone-400"
+                  aria-label={t('moodScale.score')}
+                />
+                <button
+                  onClick={() => setLevels(prev => prev.filter(l => l.id !== level.id))}
+                  className="p-1.5 text-stone-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title={t('moodScale.remove')}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex gap-1">
+                  {MOOD_COLORS.map(color => (
+                    <button
+                      key={color}
+                      onClick={() => updateLevel(level.id, { color })}
+                      className={`w-4 h-4 rounded-full ${MOOD_COLOR_CLASSES[color].bar} ${level.color === color ? 'ring-2 ring-offset-1 ring-stone-500' : ''}`}
+                      title={color}
+                    />
+                  ))}
+                </div>
+                {usage.get(level.id) ? (
+                  <span className="text-[10px] text-stone-400">{t('common.entries', { count: usage.get(level.id)! })}</span>
+                ) : null}
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={addLevel}
+            className="w-full flex items-center justify-center py-2 text-xs font-medium text-stone-500 border border-dashed border-stone-200 rounded-lg hover:bg-stone-50 hover:text-stone-700"
+          >
+            <Plus className="w-3.5 h-3.5 me-1" /> {t('moodScale.add')}
+          </button>
+        </div>
+
+        {moveSummary.size > 0 && !error && (
+          <div className="mt-4 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 space-y-0.5">
+            {[...moveSummary].map(([mood, count]) => {
+              const target = levels.find(level => level.id === mood) || getMoodLevel(mood);
+              return <p key={mood}>{t('moodScale.moves', { count, mood: `${target.emoji} ${target.label || t('moodScale.newMood')}` })}</p>;
+            })}
+          </div>
+        )}
+        {error && (
+          <p className="mt-4 flex items-center text-xs text-amber-700">
+            <AlertCircle className="w-3.5 h-3.5 me-1.5 shrink-0" /> {t(error)}
+          </p>
+        )}
+
+        <div className="flex justify-between items-center mt-6">
+          <button
+            onClick={() => setLevels(DEFAULT_MOOD_SCALE.map(localizeMoodLevel))}
+            className="flex items-center px-3 py-2.5 text-stone-500 text-sm font-medium hover:bg-stone-100 rounded-lg transition-colors"
+          >
+            <RotateCcw className="rtl:-scale-x-100 w-3.5 h-3.5 me-1.5" /> {t('moodScale.default')}
+          </button>
+          <div className="flex space-x-3 rtl:space-x-reverse">
+            <button onClick={onClose} className="px-4 py-2.5 text-stone-600 text-sm font-medium hover:bg-stone-100 rounded-lg transition-colors">
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!!error}
+              className="px-4 py-2.5 bg-stone-900 text-surface text-sm font-medium rounded-lg hover:bg-stone-800 shadow-sm transition-colors disabled:bg-stone-200 disabled:text-stone-400 disabled:shadow-none"
+            >
+              {t('common.save')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { ImageIcon, ShieldCheck } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+import { ImageFormat, ImageSettings } from '../types';
+import { MAX_DIMENSION_OPTIONS, getImageSettings, saveImageSettings } from '../services/imageProcessing';
+
+interface PhotoSettingsProps {
+  onClose: () => void;
+}
+
+const FORMATS: { format: ImageFormat, label: string }[] = [
+  { format: 'webp', label: 'WebP' },
+  { format: 'jpeg', label: 'JPEG' },
+];
+
+/**
+ * How new photos are processed before they are stored and synced
+ */
+export const PhotoSettings: React.FC<PhotoSettingsProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<ImageSettings>(getImageSettings);
+  const { t } = useI18n();
+
+  const update = (changes: Partial<ImageSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const handleSave = () => {
+    saveImageSettings(settings);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-stone-900/20 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-surface rounded-xl shadow-2xl border border-stone-100 p-6 max-w-sm w-full">
+        <div className="flex items-center space-x-3 rtl:space-x-reverse mb-4">
+          <div className="p-2 bg-stone-100 rounded-full">
+            <ImageIcon className="w-6 h-6 text-stone-600" />
+          </div>
+          <h3 className="text-lg font-bold text-stone-900">{t('photoSettings.title')}</h3>
+        </div>
+        <p className="text-stone-600 text-sm leading-relaxed mb-5">
+          {t('photoSettings.intro')}
+        </p>
+
+        <div className="space-y-4">
+          <label className="block">
+            <span className="text-xs font-bold uppercase text-stone-400 tracking-wider">{t('photoSettings.maxSize')}</span>
+            <select
+              value={settings.maxDimension}
+              onChange={(e) => update({ maxDimension: Number(e.target.value) })}
+              className="mt-1.5 w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-lg text-sm focus:outline-none focus:border-stone-400"
+            >
+              {MAX_DIMENSION_OPTIONS.map(size => (
+                <option key={size} value={size}>{t('photoSettings.longestSide', { size })}</option>
+              ))}
+            </select>
+          </label>
+
+          <div>
+            <span className="text-xs font-bold uppercase text-stone-400 tracking-wider">{t('photoSettings.format')}</span>
+            <div className="mt-1.5 flex bg-stone-100 rounded-lg p-0.5">
+              {FORMATS.map(({ format, label }) => (
+                <button
+                  key={format}
+                  onClick={() => update({ format })}
+                  className={`flex-1 py-1.5 rounded-md text-sm font-medium transition-all ${settings.format === format ? 'bg-surface shadow-sm text-ink' : 'text-stone-500 hover:text-stone-700'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="block">
+            <span className="flex justify-between text-xs font-bold uppercase text-stone-400 tracking-wider">
+              <span>{t('photoSettings.quality')}</span>
+              <span className="text-stone-600">{Math.round(settings.quality * 100)}%</span>
+            </span>
+            <input
+              type="range"
+              min={50}
+              max={100}
+              step={1}
+              value={Math.round(settings.quality * 100)}
+              onChange={(e) => update({ quality: Number(e.target.value) / 100 })}
+              className="mt-2 w-full accent-stone-700"
+            />
+          </label>
+
+          <label className="flex items-start gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.keepCaptureDate}
+              onChange={(e) => update({ keepCaptureDate: e.target.checked })}
+              className="mt-0.5 w-4 h-4 accent-stone-700"
+            />
+            <span className="text-sm text-stone-700">{t('photoSettings.keepDate')}</span>
+          </label>
+          <p className="flex items-start text-xs text-stone-400">
+            <ShieldCheck className="w-3.5 h-3.5 me-1.5 mt-px shrink-0" />
+            {t('photoSettings.privacy')}
+          </p>
+        </div>
+
+        <div className="flex justify-end space-x-3 rtl:space-x-reverse mt-6">
+          <button onClick={onClose} className="px-4 py-2.5 text-stone-600 text-sm font-medium hover:bg-stone-100 rounded-lg transition-colors">
+            {t('common.cancel')}
+          </button>
+          <button onClick={handleSave} className="px-4 py-2.5 bg-stone-900 text-surface text-sm font-medium rounded-lg hover:bg-stone-800 shadow-sm transition-colors">
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
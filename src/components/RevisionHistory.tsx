@@ -0,0 +1,185 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, RotateCcw, X, Loader2 } from 'lucide-react';
+import { EntryRevision, JournalEntry, Mood } from '../types';
+import { getRevisions } from '../services/storage';
+import { diffWords, DiffPart } from '../services/merge';
+import { getMoodLevel } from '../services/moodScale';
+import { formatDate } from '../services/dateTime';
+import { useI18n } from '../hooks/useI18n';
+
+interface RevisionHistoryProps {
+  entry: JournalEntry;
+  onRestore: (revision: EntryRevision) => void;
+  onClose: () => void;
+}
+
+// What the selected revision is compared against
+type CompareTarget = 'previous' | 'current' | number;
+
+const formatRevisionTime = (time: number) =>
+  formatDate(time, {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const moodLabel = (mood: Mood | undefined, none: string) => {
+  if (!mood) return none;
+  const level = getMoodLevel(mood);
+  return `${level.emoji} ${level.label}`;
+};
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ entry, onRestore, onClose }) => {
+  const [revisions, setRevisions] = useState<EntryRevision[] | null>(null);
+  const [selectedSeq, setSelectedSeq] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<CompareTarget>('previous');
+  const { t } = useI18n();
+
+  useEffect(() => {
+    getRevisions(entry.id).then(loaded => {
+      setRevisions(loaded);
+      setSelectedSeq(loaded[0]?.seq ?? null);
+    });
+  }, [entry.id]);
+
+  const selectedIndex = revisions?.findIndex(r => r.seq === selectedSeq) ?? -1;
+  const selected = selectedIndex >= 0 ? revisions![selectedIndex] : null;
+
+  // Diff sides. Against the current text the diff reads as what restoring would change.
+  const [from, to] = useMemo(() => {
+    if (!revisions || !selected) return [null, null];
+    if (compareTo === 'current') {
+      return [{ title: entry.title, content: entry.content, mood: entry.mood, images: entry.images }, selected];
+    }
+    if (compareTo === 'previous') {
+      return [revisions[selectedIndex + 1] ?? { title: '', content: '', mood: undefined, images: [] }, selected];
+    }
+    const other = revisions.find(r => r.seq === compareTo);
+    if (!other) return [null, null];
+    return other.savedAt < selected.savedAt ? [other, selected] : [selected, other];
+  }, [revisions, selected, selectedIndex, compareTo, entry]);
+
+  const contentDiff = useMemo<DiffPart[]>(
+    () => (from && to ? diffWords(from.content, to.content) : []),
+    [from, to]
+  );
+  const titleDiff = useMemo<DiffPart[]>(
+    () => (from && to && from.title !== to.title ? diffWords(from.title, to.title) : []),
+    [from, to]
+  );
+
+  const renderDiff = (parts: DiffPart[]) => parts.map((part, i) => {
+    if (part.kind === 'added') return <ins key={i} className="bg-green-100 text-green-900 no-underline rounded-sm">{part.text}</ins>;
+    if (part.kind === 'removed') return <del key={i} className="bg-red-100 text-red-800 rounded-sm">{part.text}</del>;
+    return <span key={i}>{part.text}</span>;
+  });
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-stone-900/20 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-surface rounded-xl shadow-2xl border border-stone-100 w-full max-w-4xl h-[85vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-stone-100">
+          <div className="flex items-center space-x-3 rtl:space-x-reverse">
+            <div className="p-2 bg-stone-100 rounded-full">
+              <History className="w-5 h-5 text-stone-600" />
+            </div>
+            <h3 className="text-lg font-bold text-stone-900">{t('history.title')}</h3>
+          </div>
+          <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-700 hover:bg-stone-100 rounded-full transition-colors" title={t('common.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {revisions === null ? (
+          <div className="flex-grow flex items-center justify-center text-stone-400">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="flex-grow flex items-center justify-center text-sm text-stone-400 italic">
+            {t('history.noVersions')}
+          </div>
+        ) : (
+          <div className="flex-grow flex flex-col md:flex-row min-h-0">
+            {/* Revision list */}
+            <div className="md:w-56 shrink-0 border-b md:border-b-0 md:border-e border-stone-100 overflow-y-auto max-h-40 md:max-h-none">
+              {revisions.map((revision, i) => (
+                <button
+                  key={revision.seq}
+                  onClick={() => {
+                    setSelectedSeq(revision.seq!);
+                    setCompareTo(current => (current === revision.seq ? 'previous' : current));
+                  }}
+                  className={`w-full text-start px-4 py-3 border-b border-stone-50 transition-colors ${
+                    revision.seq === selectedSeq ? 'bg-stone-100' : 'hover:bg-stone-50'
+                  }`}
+                >
+                  <div className="text-sm font-medium text-stone-800">{formatRevisionTime(revision.savedAt)}</div>
+                  <div className="text-xs text-stone-400">
+                    {i === 0 ? t('history.latest', { words: t('common.words', { count: wordCount(revision.content) }) }) : t('common.words', { count: wordCount(revision.content) })}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {/* Diff */}
+            <div className="flex-grow flex flex-col min-h-0">
+              <div className="flex items-center justify-between gap-3 px-6 py-3 border-b border-stone-100">
+                <label className="flex items-center text-xs text-stone-500 gap-2">
+                  {t('history.compareWith')}
+                  <select
+                    value={String(compareTo)}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      setCompareTo(value === 'previous' || value === 'current' ? value : Number(value));
+                    }}
+                    className="bg-surface border border-stone-200 rounded-md px-2 py-1 text-xs text-stone-700 focus:outline-none focus:ring-2 focus:ring-stone-200"
+                  >
+                    <option value="previous">{t('history.previousVersion')}</option>
+                    <option value="current">{t('history.currentText')}</option>
+                    {revisions.filter(r => r.seq !== selectedSeq).map(r => (
+                      <option key={r.seq} value={r.seq}>{formatRevisionTime(r.savedAt)}</option>
+                    ))}
+                  </select>
+                </label>
+                {selected && (
+                  <button
+                    onClick={() => onRestore(selected)}
+                    className="flex items-center px-4 py-2 bg-stone-900 text-surface text-xs font-medium rounded-lg hover:bg-stone-800 shadow-sm transition-colors"
+                  >
+                    <RotateCcw className="rtl:-scale-x-100 w-3.5 h-3.5 me-1.5" /> {t('history.restore')}
+                  </button>
+                )}
+              </div>
+
+              <div className="flex-grow overflow-y-auto px-6 py-5">
+                {from && to && (
+                  <>
+                    {titleDiff.length > 0 && (
+                      <h4 className="text-xl font-serif font-bold text-ink mb-3">{renderDiff(titleDiff)}</h4>
+                    )}
+                    {(from.mood !== to.mood || from.images.length !== to.images.length) && (
+                      <div className="flex flex-wrap gap-2 mb-4 text-xs text-stone-500">
+                        {from.mood !== to.mood && (
+                          <span className="px-2 py-1 bg-stone-100 rounded-full">{t('history.moodChange', { from: moodLabel(from.mood, t('history.noMood')), to: moodLabel(to.mood, t('history.noMood')) })}</span>
+                        )}
+                        {from.images.length !== to.images.length && (
+                          <span className="px-2 py-1 bg-stone-100 rounded-full">{t('history.attachmentChange', { from: from.images.length, to: to.images.length })}</span>
+                        )}
+                      </div>
+                    )}
+                    <p className="font-serif text-stone-800 leading-relaxed whitespace-pre-wrap break-words">
+                      {contentDiff.length > 0 ? renderDiff(contentDiff) : <span className="italic text-stone-300">{t('history.emptyText')}</span>}
+                    </p>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
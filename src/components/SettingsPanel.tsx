@@ -0,0 +1,245 @@
+import React, { useMemo, useState } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { AppSettings, ClockFormat, EditorFontSize, Language, ThemePreference } from '../types';
+import { AUTOSAVE_DELAY_OPTIONS, CLOCK_FORMATS, EDITOR_FONT_SIZES, LANGUAGES, START_VIEWS, THEME_PREFERENCES, TRASH_RETENTION_OPTIONS, getSettings, saveSettings } from '../services/settings';
+import { LOCALE_OPTIONS, deviceTimeZone } from '../services/dateTime';
+import { LANGUAGE_NAMES, languageLocale } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../locales/en';
+
+interface SettingsPanelProps {
+  onConfigureClientId: () => void;
+  onClose: () => void;
+}
+
+const VIEW_LABELS: Record<AppSettings['defaultView'], MessageKey> = {
+  editor: 'settings.view.editor',
+  table: 'settings.view.table',
+  calendar: 'settings.view.calendar',
+  insights: 'settings.view.insights',
+};
+
+const FONT_SIZE_LABELS: Record<EditorFontSize, MessageKey> = {
+  small: 'settings.fontSize.small',
+  medium: 'settings.fontSize.medium',
+  large: 'settings.fontSize.large',
+};
+
+const THEME_LABELS: Record<ThemePreference, MessageKey> = {
+  system: 'settings.theme.system',
+  light: 'settings.theme.light',
+  sepia: 'settings.theme.sepia',
+  dark: 'settings.theme.dark',
+};
+
+const CLOCK_LABELS: Record<ClockFormat, MessageKey> = {
+  auto: 'settings.clock.auto',
+  '12h': 'settings.clock.12h',
+  '24h': 'settings.clock.24h',
+};
+
+// Every zone the browser knows; older browsers only offer the device's and UTC
+const timeZoneOptions = (): string[] => {
+  try {
+    return Intl.supportedValuesOf('timeZone');
+  } catch {
+    return [...new Set([deviceTimeZone(), 'UTC'])];
+  }
+};
+
+// In its own language, like the language picker
+const localeName = (locale: string) => {
+  try {
+    return new Intl.DisplayNames([locale], { type: 'language' }).of(locale) || locale;
+  } catch {
+    return locale;
+  }
+};
+
+const SELECT_CLASS = 'mt-1.5 w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-lg text-sm focus:outline-none focus:border-stone-400';
+
+const Section: React.FC<{ title: string, children: React.ReactNode }> = ({ title, children }) => (
+  <section className="space-y-4">
+    <h4 className="text-xs font-bold uppercase text-stone-400 tracking-wider">{title}</h4>
+    {children}
+  </section>
+);
+
+const Field: React.FC<{ label: string, hint?: string, children: React.ReactNode }> = ({ label, hint, children }) => (
+  <label className="block">
+    <span className="text-sm font-medium text-stone-700">{label}</span>
+    {children}
+    {hint && <span className="block mt-1 text-xs text-stone-400">{hint}</span>}
+  </label>
+);
+
+/**
+ * The user's preferences; nothing changes until they are saved
+ */
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onConfigureClientId, onClose }) => {
+  const [draft, setDraft] = useState<AppSettings>(getSettings);
+  const { t } = useI18n();
+  const zones = useMemo(timeZoneOptions, []);
+  const locales = draft.locale && !LOCALE_OPTIONS.includes(draft.locale) ? [...LOCALE_OPTIONS, draft.locale] : LOCALE_OPTIONS;
+  const delays = AUTOSAVE_DELAY_OPTIONS.includes(draft.autosaveDelayMs)
+    ? AUTOSAVE_DELAY_OPTIONS
+    : [...AUTOSAVE_DELAY_OPTIONS, draft.autosaveDelayMs].sort((a, b) => a - b);
+  const retentions = TRASH_RETENTION_OPTIONS.includes(draft.trashRetentionDays)
+    ? TRASH_RETENTION_OPTIONS
+    : [...TRASH_RETENTION_OPTIONS, draft.trashRetentionDays].sort((a, b) => a - b);
+  const folderName = draft.driveFolderName.trim();
+  const folderChanged = folderName !== getSettings().driveFolderName;
+
+  const update = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) =>
+    setDraft(prev => ({ ...prev, [key]: value }));
+
+  let preview: string;
+  try {
+    preview = new Intl.DateTimeFormat(draft.locale || languageLocale(draft.language || undefined), {
+      timeZone: draft.timeZone || deviceTimeZone(),
+      dateStyle: 'full',
+      timeStyle: 'short',
+      hour12: draft.clock === 'auto' ? undefined : draft.clock === '12h',
+    }).format(Date.now());
+  } catch {
+    preview = '';
+  }
+
+  const handleSave = () => {
+    saveSettings({ ...draft, driveFolderName: folderName });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-stone-900/20 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-surface rounded-xl shadow-2xl border border-stone-100 w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-stone-100">
+          <div className="flex items-center space-x-3 rtl:space-x-reverse">
+            <div className="p-2 bg-stone-100 rounded-full">
+              <SlidersHorizontal className="w-5 h-5 text-stone-600" />
+            </div>
+            <h3 className="text-lg font-bold text-stone-900">{t('settings.title')}</h3>
+          </div>
+          <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-700 hover:bg-stone-100 rounded-full transition-colors" title={t('common.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto px-6 py-5 space-y-8">
+          <Section title={t('settings.appearance')}>
+            <div className="grid grid-cols-4 gap-2">
+              {THEME_PREFERENCES.map(theme => (
+                <button
+                  key={theme}
+                  onClick={() => update('theme', theme)}
+                  className={`px-2 py-2 rounded-lg border text-xs font-medium transition-colors ${
+                    draft.theme === theme ? 'bg-stone-800 text-surface border-stone-800' : 'border-stone-200 text-stone-600 hover:bg-stone-50'
+                  }`}
+                >
+                  {t(THEME_LABELS[theme])}
+                </button>
+              ))}
+            </div>
+            <Field label={t('settings.language')}>
+              <select value={draft.language} onChange={(e) => update('language', e.target.value as Language | '')} className={SELECT_CLASS}>
+                <option value="">{t('settings.languageAuto')}</option>
+                {LANGUAGES.map(language => <option key={language} value={language}>{LANGUAGE_NAMES[language]}</option>)}
+              </select>
+            </Field>
+          </Section>
+
+          <Section title={t('settings.writing')}>
+            <Field label={t('settings.textSize')}>
+              <select value={draft.editorFontSize} onChange={(e) => update('editorFontSize', e.target.value as EditorFontSize)} className={SELECT_CLASS}>
+                {EDITOR_FONT_SIZES.map(size => <option key={size} value={size}>{t(FONT_SIZE_LABELS[size])}</option>)}
+              </select>
+            </Field>
+            <Field label={t('settings.autosave')} hint={t('settings.autosaveHint')}>
+              <select value={draft.autosaveDelayMs} onChange={(e) => update('autosaveDelayMs', Number(e.target.value))} className={SELECT_CLASS}>
+                {delays.map(ms => <option key={ms} value={ms}>{t('settings.autosaveAfter', { count: ms / 1000 })}</option>)}
+              </select>
+            </Field>
+            <Field label={t('settings.startView')}>
+              <select value={draft.defaultView} onChange={(e) => update('defaultView', e.target.value as AppSettings['defaultView'])} className={SELECT_CLASS}>
+                {START_VIEWS.map(view => <option key={view} value={view}>{t(VIEW_LABELS[view])}</option>)}
+              </select>
+            </Field>
+            <Field label={t('settings.trashRetention')}>
+              <select value={draft.trashRetentionDays} onChange={(e) => update('trashRetentionDays', Number(e.target.value))} className={SELECT_CLASS}>
+                {retentions.map(days => <option key={days} value={days}>{t('trash.days', { count: days })}</option>)}
+              </select>
+            </Field>
+          </Section>
+
+          <Section title={t('settings.dates')}>
+            <Field label={t('settings.timeZone')} hint={t('settings.timeZoneHint')}>
+              <select value={draft.timeZone} onChange={(e) => update('timeZone', e.target.value)} className={SELECT_CLASS}>
+                <option value="">{t('settings.timeZoneAuto', { zone: deviceTimeZone() })}</option>
+                {zones.map(zone => <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>)}
+              </select>
+            </Field>
+            <Field label={t('settings.dateFormat')}>
+              <select value={draft.locale} onChange={(e) => update('locale', e.target.value)} className={SELECT_CLASS}>
+                <option value="">{t('settings.dateFormatAuto')}</option>
+                {locales.map(locale => <option key={locale} value={locale}>{localeName(locale)}</option>)}
+              </select>
+            </Field>
+            <Field label={t('settings.clock')}>
+              <select value={draft.clock} onChange={(e) => update('clock', e.target.value as ClockFormat)} className={SELECT_CLASS}>
+                {CLOCK_FORMATS.map(clock => <option key={clock} value={clock}>{t(CLOCK_LABELS[clock])}</option>)}
+              </select>
+            </Field>
+            {preview && (
+              <p className="text-xs text-stone-400">
+                {t('settings.now')} <span className="text-stone-600">{preview}</span>
+              </p>
+            )}
+          </Section>
+
+          <Section title={t('settings.drive')}>
+            <Field
+              label={t('settings.folderName')}
+              hint={folderChanged ? t('settings.folderChangedHint') : t('settings.folderHint')}
+            >
+              <input
+                value={draft.driveFolderName}
+                onChange={(e) => update('driveFolderName', e.target.value)}
+                placeholder="ZenJournal"
+                className={SELECT_CLASS}
+              />
+            </Field>
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.syncOnFocus}
+                onChange={(e) => update('syncOnFocus', e.target.checked)}
+                className="mt-0.5 w-4 h-4 accent-stone-800"
+              />
+              <span>
+                <span className="block text-sm font-medium text-stone-700">{t('settings.syncOnFocus')}</span>
+                <span className="block text-xs text-stone-400">{t('settings.syncOnFocusHint')}</span>
+              </span>
+            </label>
+            <button onClick={onConfigureClientId} className="text-xs text-stone-500 underline hover:text-stone-700">
+              {t('settings.configureClientId')}
+            </button>
+          </Section>
+        </div>
+
+        <div className="flex justify-end space-x-3 rtl:space-x-reverse px-6 py-4 border-t border-stone-100">
+          <button onClick={onClose} className="px-4 py-2.5 text-stone-600 text-sm font-medium hover:bg-stone-100 rounded-lg transition-colors">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!folderName}
+            className="px-4 py-2.5 bg-stone-900 text-surface text-sm font-medium rounded-lg hover:bg-stone-800 shadow-sm transition-colors disabled:opacity-50"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
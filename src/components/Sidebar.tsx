@@ -1,22 +1,41 @@
 
-import React, { useState } from 'react';
-import { Plus, Trash2, BookOpen, Cloud, CloudOff, LogOut, Settings, Loader2, Filter, Table as TableIcon, List, RefreshCw } from 'lucide-react';
-import { JournalEntry, Mood } from '../types';
+import React, { useMemo, useState } from 'react';
+import { Plus, Trash2, BookOpen, Cloud, CloudOff, LogOut, Settings, Loader2, Filter, Table as TableIcon, List, CalendarDays, BarChart3, RefreshCw, AlertTriangle, Search, X, Bookmark, AlertCircle, Hash, SlidersHorizontal } from 'lucide-react';
+import { JournalEntry, Mood, SmartFilter, ViewMode } from '../types';
+import { useEntryQuery } from '../hooks/useEntryQuery';
+import { useMoodScale } from '../hooks/useMoodScale';
+import { useSettings } from '../hooks/useSettings';
+import { useI18n } from '../hooks/useI18n';
+import { getMoodLevel, MOOD_COLOR_CLASSES } from '../services/moodScale';
+import { buildSnippet, highlight } from '../services/search';
+import { entryTags, tagCounts } from '../services/tags';
+import { stripMarkdown } from '../services/markdown';
+import { entryPhotos } from '../services/attachments';
+import { formatEntryDate } from '../services/dateTime';
+import { HighlightedText } from './HighlightedText';
+import { LocalImage } from './LocalImage';
 
 interface SidebarProps {
   entries: JournalEntry[];
   activeId: string | null;
-  viewMode: 'editor' | 'table';
-  onViewChange: (mode: 'editor' | 'table') => void;
+  viewMode: ViewMode;
+  onViewChange: (mode: ViewMode) => void;
   onSelect: (entry: JournalEntry) => void;
   onCreate: () => void;
   onDelete: (e: React.MouseEvent, id: string) => void;
   isLoggedIn: boolean;
   isSyncing: boolean;
+  pendingSyncCount?: number; // Drive writes waiting in the offline outbox
+  trashCount?: number;
+  smartFilters?: SmartFilter[];
+  onDeleteSmartFilter?: (id: string) => void;
+  onManageTags?: () => void;
   onLogin: () => void;
   onLogout: () => void;
   onSync?: () => void;
+  onFullRescan?: () => void;
   onResetConfig: () => void;
+  onOpenSettings?: () => void;
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({ 
@@ -29,42 +48,64 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onDelete,
   isLoggedIn,
   isSyncing,
+  pendingSyncCount = 0,
+  trashCount = 0,
+  smartFilters = [],
+  onDeleteSmartFilter,
+  onManageTags,
   onLogin,
   onLogout,
   onSync,
-  onResetConfig
+  onFullRescan,
+  onResetConfig,
+  onOpenSettings
 }) => {
   
   const [filterMood, setFilterMood] = useState<Mood | 'All'>('All');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeFilterId, setActiveFilterId] = useState<string | null>(null);
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const activeFilter = smartFilters.find(f => f.id === activeFilterId);
+  // A smart filter and the search box combine: both must match
+  const { results: searchResults, pending: searchPending, terms: searchTerms, errors: queryErrors } = useEntryQuery(
+    [activeFilter?.query, searchQuery].filter(Boolean).join(' '),
+    entries
+  );
+  const isRanked = searchTerms.length > 0;
 
-  const moodConfig: Record<Mood, { icon: string, className: string, label: string }> = {
-    'Great': { icon: '😁', className: 'bg-emerald-100 text-emerald-700 border-emerald-200', label: 'Great' },
-    'Good': { icon: '🙂', className: 'bg-sky-100 text-sky-700 border-sky-200', label: 'Good' },
-    'Okay': { icon: '😐', className: 'bg-amber-100 text-amber-700 border-amber-200', label: 'Okay' },
-    'Bad': { icon: '☹️', className: 'bg-rose-100 text-rose-700 border-rose-200', label: 'Bad' }
-  };
+  const moodScale = useMoodScale();
+  const { driveFolderName } = useSettings();
+  const { t } = useI18n();
+  const tags = useMemo(() => tagCounts(entries), [entries]);
+  const maxTagCount = tags.length > 0 ? tags[0][1] : 1;
 
-  // Filter entries based on selection
-  const filteredEntries = entries.filter(entry => {
+  // Filter entries based on selection (search results come in rank order)
+  const filteredEntries = (searchResults || entries).filter(entry => {
+    if (activeTag && !entryTags(entry).includes(activeTag)) return false;
     if (filterMood === 'All') return true;
     return entry.mood === filterMood;
   });
 
   return (
-    <div className="w-full md:w-80 bg-white border-r border-stone-200 h-full flex flex-col flex-shrink-0 z-20 shadow-lg md:shadow-none">
+    <div className="w-full md:w-80 bg-surface border-e border-stone-200 h-full flex flex-col flex-shrink-0 z-20 shadow-lg md:shadow-none">
       {/* Sidebar Header */}
-      <div className="p-5 border-b border-stone-100 flex justify-between items-center bg-white sticky top-0 z-10">
-        <div className="flex items-center space-x-2 text-ink font-serif font-bold text-lg">
+      <div className="p-5 border-b border-stone-100 flex justify-between items-center bg-surface sticky top-0 z-10">
+        <div className="flex items-center space-x-2 rtl:space-x-reverse text-ink font-serif font-bold text-lg">
           <BookOpen className="w-5 h-5 text-stone-500" />
-          <span>Library</span>
+          <span>{t('sidebar.library')}</span>
           {isLoggedIn && (
             <button 
                 onClick={onSync} 
                 disabled={isSyncing}
-                className={`ml-2 p-1.5 rounded-full bg-stone-50 hover:bg-stone-100 text-stone-400 hover:text-stone-600 transition-all ${isSyncing ? 'animate-spin text-stone-600' : ''}`}
-                title="Analyze & Sync from Drive"
+                className="relative ms-2 p-1.5 rounded-full bg-stone-50 hover:bg-stone-100 text-stone-400 hover:text-stone-600 transition-all"
+                title={pendingSyncCount > 0 ? t('sidebar.pendingSyncNow', { count: pendingSyncCount }) : t('sidebar.syncNow')}
             >
-                {isSyncing ? <Loader2 className="w-3 h-3" /> : <RefreshCw className="w-3 h-3" />}
+                {isSyncing ? <Loader2 className="w-3 h-3 animate-spin text-stone-600" /> : <RefreshCw className="w-3 h-3" />}
+                {pendingSyncCount > 0 && (
+                    <span className="absolute -top-1 -end-1 min-w-[14px] h-[14px] px-0.5 rounded-full bg-amber-500 text-white text-[9px] font-bold leading-[14px] text-center">
+                        {pendingSyncCount}
+                    </span>
+                )}
             </button>
           )}
         </div>
@@ -74,30 +115,78 @@ export const Sidebar: React.FC<SidebarProps> = ({
             <div className="flex bg-stone-100 rounded-lg p-0.5">
                 <button 
                     onClick={() => onViewChange('editor')}
-                    className={`p-1.5 rounded-md transition-all ${viewMode === 'editor' ? 'bg-white shadow-sm text-ink' : 'text-stone-400 hover:text-stone-600'}`}
-                    title="List View"
+                    className={`p-1.5 rounded-md transition-all ${viewMode === 'editor' ? 'bg-surface shadow-sm text-ink' : 'text-stone-400 hover:text-stone-600'}`}
+                    title={t('sidebar.listView')}
                 >
                     <List className="w-4 h-4" />
                 </button>
                 <button 
                     onClick={() => onViewChange('table')}
-                    className={`p-1.5 rounded-md transition-all ${viewMode === 'table' ? 'bg-white shadow-sm text-ink' : 'text-stone-400 hover:text-stone-600'}`}
-                    title="Sheet View"
+                    className={`p-1.5 rounded-md transition-all ${viewMode === 'table' ? 'bg-surface shadow-sm text-ink' : 'text-stone-400 hover:text-stone-600'}`}
+                    title={t('sidebar.sheetView')}
                 >
                     <TableIcon className="w-4 h-4" />
                 </button>
+                <button 
+                    onClick={() => onViewChange('calendar')}
+                    className={`p-1.5 rounded-md transition-all ${viewMode === 'calendar' ? 'bg-surface shadow-sm text-ink' : 'text-stone-400 hover:text-stone-600'}`}
+                    title={t('sidebar.calendarView')}
+                >
+                    <CalendarDays className="w-4 h-4" />
+                </button>
+                <button 
+                    onClick={() => onViewChange('insights')}
+                    className={`p-1.5 rounded-md transition-all ${viewMode === 'insights' ? 'bg-surface shadow-sm text-ink' : 'text-stone-400 hover:text-stone-600'}`}
+                    title={t('sidebar.insights')}
+                >
+                    <BarChart3 className="w-4 h-4" />
+                </button>
             </div>
 
             <button 
             onClick={onCreate}
-            className="p-2 bg-stone-900 text-white rounded-full hover:bg-stone-700 transition-colors shadow-sm active:scale-95 transform ml-2"
-            title="New Entry"
+            className="p-2 bg-stone-900 text-surface rounded-full hover:bg-stone-700 transition-colors shadow-sm active:scale-95 transform ms-2"
+            title={t('sidebar.newEntry')}
             >
             <Plus className="w-4 h-4" />
             </button>
         </div>
       </div>
 
+      {/* Search */}
+      <div className="px-4 pt-3">
+        <div className="relative">
+          <Search className="absolute start-3 top-1/2 transform -translate-y-1/2 text-stone-400 w-3.5 h-3.5" />
+          <input
+            type="text"
+            placeholder={t('sidebar.search')}
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className={`w-full ps-8 pe-8 py-2 bg-stone-50 border rounded-lg text-sm focus:outline-none focus:ring-1 ${
+              queryErrors.length > 0
+                ? 'border-amber-300 focus:border-amber-400 focus:ring-amber-100'
+                : 'border-stone-200 focus:border-stone-400 focus:ring-stone-200'
+            }`}
+            title={t('common.searchHelp')}
+          />
+          {searchQuery && (
+            <button
+              onClick={() => setSearchQuery('')}
+              className="absolute end-2 top-1/2 transform -translate-y-1/2 p-1 text-stone-400 hover:text-stone-600"
+              title={t('sidebar.clearSearch')}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+        {queryErrors.map((err, i) => (
+          <p key={i} className="flex items-start mt-1.5 text-[11px] text-amber-700">
+            <AlertCircle className="w-3 h-3 me-1 mt-0.5 shrink-0" />
+            {err.message}
+          </p>
+        ))}
+      </div>
+
       {/* Filter Bar */}
       <div className="px-4 py-3 border-b border-stone-50 flex gap-2 overflow-x-auto no-scrollbar items-center">
          <button
@@ -105,56 +194,109 @@ export const Sidebar: React.FC<SidebarProps> = ({
             className={`
                 px-3 py-1 rounded-full text-xs font-medium transition-colors whitespace-nowrap border
                 ${filterMood === 'All' 
-                    ? 'bg-stone-800 text-white border-stone-800' 
-                    : 'bg-white text-stone-500 border-stone-200 hover:bg-stone-50'
+                    ? 'bg-stone-800 text-surface border-stone-800' 
+                    : 'bg-surface text-stone-500 border-stone-200 hover:bg-stone-50'
                 }
             `}
          >
-            All
+            {t('sidebar.allMoods')}
          </button>
-         {(Object.keys(moodConfig) as Mood[]).map((m) => (
+         {moodScale.map((level) => (
              <button
-                key={m}
-                onClick={() => setFilterMood(filterMood === m ? 'All' : m)}
+                key={level.id}
+                onClick={() => setFilterMood(filterMood === level.id ? 'All' : level.id)}
                 className={`
                     px-2 py-1 rounded-full text-xs font-medium transition-all whitespace-nowrap border flex items-center gap-1
-                    ${filterMood === m
-                        ? moodConfig[m].className + ' ring-1 ring-offset-1 ring-stone-200' // Active style
-                        : 'bg-white text-stone-400 border-stone-100 hover:bg-stone-50 grayscale hover:grayscale-0' // Inactive style
+                    ${filterMood === level.id
+                        ? MOOD_COLOR_CLASSES[level.color].chip + ' ring-1 ring-offset-1 ring-stone-200' // Active style
+                        : 'bg-surface text-stone-400 border-stone-100 hover:bg-stone-50 grayscale hover:grayscale-0' // Inactive style
+                    }
+                `}
+                title={t('sidebar.filterByMood', { mood: level.label })}
+             >
+                <span>{level.emoji}</span>
+                {filterMood === level.id && <span>{level.label}</span>}
+             </button>
+         ))}
+         {smartFilters.length > 0 && <div className="w-px h-4 bg-stone-200 shrink-0" />}
+         {smartFilters.map(filter => (
+             <button
+                key={filter.id}
+                onClick={() => setActiveFilterId(activeFilterId === filter.id ? null : filter.id)}
+                className={`
+                    ps-2 pe-2.5 py-1 rounded-full text-xs font-medium transition-colors whitespace-nowrap border flex items-center gap-1
+                    ${activeFilterId === filter.id
+                        ? 'bg-stone-800 text-surface border-stone-800'
+                        : 'bg-surface text-stone-500 border-stone-200 hover:bg-stone-50'
                     }
                 `}
-                title={`Filter by ${m}`}
+                title={filter.query}
              >
-                <span>{moodConfig[m].icon}</span>
-                {filterMood === m && <span>{m}</span>}
+                <Bookmark className="w-3 h-3" />
+                <span>{filter.name}</span>
+                {activeFilterId === filter.id && onDeleteSmartFilter && (
+                    <span
+                        role="button"
+                        onClick={(e) => { e.stopPropagation(); setActiveFilterId(null); onDeleteSmartFilter(filter.id); }}
+                        className="ms-0.5 p-0.5 rounded-full hover:bg-stone-600"
+                        title={t('sidebar.deleteSmartFilter')}
+                    >
+                        <X className="w-2.5 h-2.5" />
+                    </span>
+                )}
              </button>
          ))}
       </div>
 
+      {/* Tag Cloud: more used tags are drawn bolder */}
+      {tags.length > 0 && (
+        <div className="px-4 py-2 border-b border-stone-50 flex flex-wrap gap-x-2 gap-y-1 items-baseline max-h-20 overflow-y-auto scrollbar-thin">
+          {tags.map(([tag, count]) => {
+            const weight = count / maxTagCount;
+            return (
+              <button
+                key={tag}
+                onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                className={`
+                    px-1.5 rounded transition-colors
+                    ${weight > 0.66 ? 'text-sm font-semibold' : weight > 0.33 ? 'text-xs font-medium' : 'text-[11px]'}
+                    ${activeTag === tag ? 'bg-stone-800 text-surface' : 'text-stone-500 hover:text-stone-800 hover:bg-stone-50'}
+                `}
+                title={t('common.entries', { count })}
+              >
+                #{tag}
+              </button>
+            );
+          })}
+          {onManageTags && (
+            <button onClick={onManageTags} className="ms-auto flex items-center text-[10px] text-stone-400 hover:text-stone-600" title={t('sidebar.manageTagsHint')}>
+              <Hash className="w-3 h-3 me-0.5" /> {t('sidebar.manageTags')}
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Entry List */}
       <div className="flex-grow overflow-y-auto p-3 space-y-2 scrollbar-thin">
         {entries.length === 0 ? (
           <div className="text-center py-10 text-stone-400 text-sm px-4">
-            <p>No entries yet.</p>
-            <p className="mt-2">Click + to start writing.</p>
+            <p>{t('sidebar.noEntries')}</p>
+            <p className="mt-2">{t('sidebar.startWriting')}</p>
           </div>
-        ) : filteredEntries.length === 0 ? (
+        ) : searchPending ? null : filteredEntries.length === 0 ? (
            <div className="text-center py-10 text-stone-400 text-sm px-4">
             <div className="w-10 h-10 bg-stone-50 rounded-full flex items-center justify-center mx-auto mb-3">
                 <Filter className="w-4 h-4 text-stone-300" />
             </div>
-            <p>No entries found with this mood.</p>
-            <button onClick={() => setFilterMood('All')} className="mt-2 text-stone-600 underline text-xs">Clear filter</button>
+            <p>{searchResults ? t('sidebar.noSearchMatch') : activeTag ? t('sidebar.noTagMatch', { tag: activeTag }) : t('sidebar.noMoodMatch')}</p>
+            <button onClick={() => { setFilterMood('All'); setSearchQuery(''); setActiveFilterId(null); setActiveTag(null); }} className="mt-2 text-stone-600 underline text-xs">{t('sidebar.clearFilter')}</button>
           </div> 
         ) : (
           filteredEntries.map(entry => {
             const isActive = activeId === entry.id && viewMode === 'editor';
-            // Format date for Morocco
-            const dateStr = new Date(entry.createdAt).toLocaleDateString('en-GB', { 
-                timeZone: 'Africa/Casablanca',
-                month: 'short', 
-                day: 'numeric' 
-            });
+            const moodLevel = entry.mood ? getMoodLevel(entry.mood, moodScale) : null;
+            const photo = entryPhotos(entry)[0];
+            const dateStr = formatEntryDate(entry, { month: 'short', day: 'numeric' });
 
             return (
               <div 
@@ -164,27 +306,44 @@ export const Sidebar: React.FC<SidebarProps> = ({
                   group relative p-4 rounded-xl cursor-pointer transition-all duration-200 border select-none
                   ${isActive
                     ? 'bg-stone-100 border-stone-200 shadow-sm' 
-                    : 'bg-white border-transparent hover:bg-stone-50 hover:border-stone-100'
+                    : 'bg-surface border-transparent hover:bg-stone-50 hover:border-stone-100'
                   }
                 `}
               >
                 <div className="flex justify-between items-start mb-1">
                     <h3 className={`font-semibold text-sm truncate flex-1 ${isActive ? 'text-ink' : 'text-stone-700'}`}>
-                    {entry.title || "Untitled Entry"}
+                    {isRanked && entry.title ? <HighlightedText parts={highlight(entry.title, searchTerms)} /> : entry.title || t('common.untitled')}
                     </h3>
-                    {entry.mood && moodConfig[entry.mood] && (
+                    {entry.conflict && (
+                        <span title={t('sidebar.conflict')} className="ms-2 shrink-0">
+                            <AlertTriangle className="w-3.5 h-3.5 text-amber-500" />
+                        </span>
+                    )}
+                    {moodLevel && (
                         <div 
-                            className={`ml-2 px-1.5 py-0.5 rounded-full border text-[10px] font-medium flex items-center gap-1 shadow-sm shrink-0 ${moodConfig[entry.mood].className}`} 
-                            title={`Mood: ${entry.mood}`}
+                            className={`ms-2 px-1.5 py-0.5 rounded-full border text-[10px] font-medium flex items-center gap-1 shadow-sm shrink-0 ${MOOD_COLOR_CLASSES[moodLevel.color].chip}`} 
+                            title={t('sidebar.mood', { mood: moodLevel.label })}
                         >
-                           <span>{moodConfig[entry.mood].icon}</span>
+                           <span>{moodLevel.emoji}</span>
                         </div>
                     )}
                 </div>
 
-                <p className="text-xs text-stone-500 line-clamp-2 mb-2 h-8">
-                  {entry.content || "No content..."}
-                </p>
+                <div className="flex gap-2 mb-2">
+                  <p className="flex-1 text-xs text-stone-500 line-clamp-2 h-8">
+                    {isRanked
+                      ? <HighlightedText parts={buildSnippet(stripMarkdown(entry.content), searchTerms)} />
+                      : stripMarkdown(entry.content) || t('sidebar.noContent')}
+                  </p>
+                  {photo && (
+                    <LocalImage
+                      imageId={photo.id}
+                      alt={t('sidebar.thumbnail')}
+                      thumbnail
+                      className="w-8 h-8 rounded object-cover border border-stone-200 shrink-0"
+                    />
+                  )}
+                </div>
                 <div className="flex justify-between items-center pt-2 border-t border-stone-100/50 mt-1">
                   <span className="text-[10px] uppercase tracking-wider text-stone-400 font-medium">
                     {dateStr}
@@ -197,14 +356,14 @@ export const Sidebar: React.FC<SidebarProps> = ({
                       onDelete(e, entry.id);
                     }}
                     className={`
-                        relative z-20 p-2 -mr-2 rounded-lg transition-all duration-200
+                        relative z-20 p-2 -me-2 rounded-lg transition-all duration-200
                         text-stone-400 hover:text-red-600 hover:bg-red-50
                         opacity-100 md:opacity-0 md:group-hover:opacity-100
                         ${isActive ? 'md:opacity-100' : ''}
                         active:bg-red-100
                     `}
-                    title="Delete Entry"
-                    aria-label="Delete entry"
+                    title={t('sidebar.moveToTrash')}
+                    aria-label={t('sidebar.moveToTrashLabel')}
                   >
                     <Trash2 className="w-4 h-4" />
                   </button>
@@ -215,36 +374,77 @@ export const Sidebar: React.FC<SidebarProps> = ({
         )}
       </div>
 
+      {/* Trash */}
+      <div className="px-3 py-2 border-t border-stone-100">
+        <button
+          onClick={() => onViewChange('trash')}
+          className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-xs font-medium transition-colors ${
+            viewMode === 'trash' ? 'bg-stone-100 text-ink' : 'text-stone-500 hover:bg-stone-50 hover:text-stone-700'
+          }`}
+        >
+          <span className="flex items-center gap-2">
+            <Trash2 className="w-3.5 h-3.5" /> {t('sidebar.trash')}
+          </span>
+          {trashCount > 0 && (
+            <span className="min-w-[18px] px-1.5 py-0.5 rounded-full bg-stone-200 text-stone-600 text-[10px] font-bold text-center">
+              {trashCount}
+            </span>
+          )}
+        </button>
+      </div>
+
       {/* Footer / Login Section */}
       <div className="p-4 border-t border-stone-100 bg-stone-50/50">
         {isLoggedIn ? (
           <div className="flex flex-col space-y-2">
              <div className="flex items-center justify-between text-xs font-medium text-green-600 bg-green-50 px-3 py-2 rounded-lg border border-green-100">
-                <div className="flex items-center space-x-2">
+                <div className="flex items-center space-x-2 rtl:space-x-reverse">
                   <Cloud className="w-3 h-3" />
-                  <span>Sync Active</span>
+                  <span>{t('sidebar.syncActive')}</span>
                 </div>
-                <button onClick={onLogout} title="Sign Out" className="text-green-700 hover:text-green-900">
-                  <LogOut className="w-3 h-3" />
+                <button onClick={onLogout} title={t('sidebar.signOut')} className="text-green-700 hover:text-green-900">
+                  <LogOut className="rtl:-scale-x-100 w-3 h-3" />
                 </button>
              </div>
              <div className="flex justify-between items-center">
-               <p className="text-[10px] text-stone-400">Saved to ZenJournal</p>
-               <button onClick={onResetConfig} className="text-[10px] text-stone-400 underline hover:text-stone-600">Settings</button>
+               <p className="text-[10px] text-stone-400 truncate">{t('sidebar.savedTo', { folder: driveFolderName })}</p>
+               <div className="flex items-center gap-3">
+                 {onFullRescan && (
+                   <button 
+                     onClick={onFullRescan} 
+                     disabled={isSyncing}
+                     className="text-[10px] text-stone-400 underline hover:text-stone-600 disabled:opacity-50"
+                     title={t('sidebar.fullRescanHint')}
+                   >
+                     {t('sidebar.fullRescan')}
+                   </button>
+                 )}
+                 <button onClick={onOpenSettings ?? onResetConfig} className="text-[10px] text-stone-400 underline hover:text-stone-600">{t('sidebar.settings')}</button>
+               </div>
              </div>
           </div>
         ) : (
           <div className="flex flex-col space-y-3">
             <button 
               onClick={onLogin}
-              className="w-full flex items-center justify-center space-x-2 py-2.5 bg-white border border-stone-200 hover:bg-stone-50 text-stone-600 rounded-lg transition-all text-xs font-semibold shadow-sm"
+              className="w-full flex items-center justify-center space-x-2 rtl:space-x-reverse py-2.5 bg-surface border border-stone-200 hover:bg-stone-50 text-stone-600 rounded-lg transition-all text-xs font-semibold shadow-sm"
             >
               <CloudOff className="w-3 h-3" />
-              <span>Connect Google Drive</span>
+              <span>{t('sidebar.connectDrive')}</span>
             </button>
-            <div className="text-center">
+            {pendingSyncCount > 0 && (
+              <p className="text-[10px] text-amber-600 text-center">
+                {t('sidebar.pendingSync', { count: pendingSyncCount })}
+              </p>
+            )}
+            <div className="text-center space-y-1">
+               {onOpenSettings && (
+                 <button onClick={onOpenSettings} className="text-[10px] text-stone-400 flex items-center justify-center w-full hover:text-stone-600">
+                    <SlidersHorizontal className="w-3 h-3 me-1" /> {t('sidebar.settings')}
+                 </button>
+               )}
                <button onClick={onResetConfig} className="text-[10px] text-stone-400 flex items-center justify-center w-full hover:text-stone-600">
-                  <Settings className="w-3 h-3 mr-1" /> Configure Client ID
+                  <Settings className="w-3 h-3 me-1" /> {t('sidebar.configureClientId')}
                </button>
             </div>
           </div>
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Hash, X } from 'lucide-react';
+import { normalizeTag } from '../services/tags';
+import { useI18n } from '../hooks/useI18n';
+
+interface TagInputProps {
+  tags: string[]; // Chips, editable
+  inlineTags: string[]; // From #hashtags in the content, shown but not removable here
+  suggestions: string[]; // Every known tag, for autocomplete
+  onChange: (tags: string[]) => void;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export const TagInput: React.FC<TagInputProps> = ({ tags, inlineTags, suggestions, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const { t } = useI18n();
+
+  const current = new Set([...tags, ...inlineTags]);
+  const prefix = normalizeTag(draft);
+  const matches = prefix
+    ? suggestions.filter(tag => tag.startsWith(prefix) && !current.has(tag)).slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    setDraft('');
+    setHighlighted(0);
+    if (!tag || current.has(tag)) return;
+    onChange([...tags, tag]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || (e.key === 'Tab' && draft)) {
+      e.preventDefault();
+      addTag(matches[highlighted] ?? draft);
+    } else if (e.key === 'ArrowDown' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % matches.length);
+    } else if (e.key === 'ArrowUp' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    } else if (e.key === 'Escape') {
+      setDraft('');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mb-6">
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center ps-2 pe-1 py-0.5 bg-stone-100 text-stone-600 rounded-full text-xs font-medium">
+          #{tag}
+          <button
+            onClick={() => onChange(tags.filter(other => other !== tag))}
+            className="ms-0.5 p-0.5 text-stone-400 hover:text-stone-700 rounded-full"
+            title={t('tags.remove')}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      {inlineTags.filter(tag => !tags.includes(tag)).map(tag => (
+        <span
+          key={tag}
+          className="px-2 py-0.5 border border-dashed border-stone-200 text-stone-400 rounded-full text-xs font-medium"
+          title={t('tags.fromHashtag')}
+        >
+          #{tag}
+        </span>
+      ))}
+
+      <div className="relative">
+        <div className="flex items-center text-stone-300 focus-within:text-stone-500">
+          <Hash className="w-3 h-3 me-0.5" />
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => { setDraft(e.target.value); setHighlighted(0); }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setIsFocused(true)}
+            onBlur={() => { setIsFocused(false); if (draft) addTag(draft); }}
+            placeholder={t('tags.add')}
+            className="w-24 bg-transparent text-xs text-stone-600 placeholder-stone-300 focus:outline-none"
+          />
+        </div>
+        {isFocused && matches.length > 0 && (
+          <ul className="absolute start-0 top-full mt-1 z-30 min-w-[10rem] bg-surface border border-stone-200 rounded-lg shadow-lg py-1">
+            {matches.map((tag, i) => (
+              <li key={tag}>
+                <button
+                  // Keep focus in the input so onBlur doesn't add the draft first
+                  onMouseDown={(e) => { e.preventDefault(); addTag(tag); }}
+                  className={`w-full text-start px-3 py-1.5 text-xs ${i === highlighted ? 'bg-stone-100 text-stone-900' : 'text-stone-600 hover:bg-stone-50'}`}
+                >
+                  #{tag}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
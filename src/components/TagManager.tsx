@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { Hash, Loader2, Check, X, Pencil } from 'lucide-react';
+import { JournalEntry } from '../types';
+import { normalizeTag, tagCounts } from '../services/tags';
+import { useI18n } from '../hooks/useI18n';
+
+interface TagManagerProps {
+  entries: JournalEntry[];
+  onRename: (from: string, to: string) => Promise<void>; // Merges when `to` already exists
+  onClose: () => void;
+}
+
+export const TagManager: React.FC<TagManagerProps> = ({ entries, onRename, onClose }) => {
+  const tags = useMemo(() => tagCounts(entries), [entries]);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isRenaming, setIsRenaming] = useState(false);
+  const { t } = useI18n();
+
+  const target = normalizeTag(draft);
+  const isMerge = !!target && target !== editing && tags.some(([tag]) => tag === target);
+
+  const startEditing = (tag: string) => {
+    setEditing(tag);
+    setDraft(tag);
+  };
+
+  const confirmRename = async () => {
+    if (!editing || !target || target === editing) {
+      setEditing(null);
+      return;
+    }
+    setIsRenaming(true);
+    try {
+      await onRename(editing, target);
+      setEditing(null);
+    } finally {
+      setIsRenaming(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-stone-900/20 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-surface rounded-xl shadow-2xl border border-stone-100 p-6 max-w-sm w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center space-x-3 rtl:space-x-reverse mb-4">
+          <div className="p-2 bg-stone-100 rounded-full">
+            <Hash className="w-6 h-6 text-stone-600" />
+          </div>
+          <h3 className="text-lg font-bold text-stone-900">{t('tags.title')}</h3>
+        </div>
+        <p className="text-stone-600 text-sm leading-relaxed mb-4">
+          {t('tags.intro')}
+        </p>
+
+        <div className="flex-grow overflow-y-auto -mx-2 px-2 divide-y divide-stone-50">
+          {tags.length === 0 && (
+            <p className="text-sm text-stone-400 italic py-4 text-center">{t('tags.none')}</p>
+          )}
+          {tags.map(([tag, count]) => (
+            <div key={tag} className="py-2">
+              {editing === tag ? (
+                <div>
+                  <div className="flex items-center gap-1">
+                    <span className="text-stone-400 text-sm">#</span>
+                    <input
+                      type="text"
+                      autoFocus
+                      value={draft}
+                      disabled={isRenaming}
+                      onChange={(e) => setDraft(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') confirmRename(); if (e.key === 'Escape') setEditing(null); }}
+                      className="flex-grow px-2 py-1 bg-stone-50 border border-stone-200 rounded-lg text-sm focus:outline-none focus:border-stone-400"
+                    />
+                    <button
+                      onClick={confirmRename}
+                      disabled={isRenaming || !target}
+                      className="p-1.5 text-stone-600 hover:bg-stone-100 rounded-lg disabled:text-stone-300"
+                      title={isMerge ? t('tags.merge') : t('tags.rename')}
+                    >
+                      {isRenaming ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                    </button>
+                    <button onClick={() => setEditing(null)} disabled={isRenaming} className="p-1.5 text-stone-400 hover:bg-stone-100 rounded-lg" title={t('common.cancel')}>
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {isMerge && (
+                    <p className="text-[11px] text-amber-700 mt-1 ms-3">{t('tags.mergesInto', { tag: target })}</p>
+                  )}
+                </div>
+              ) : (
+                <div className="flex items-center justify-between group">
+                  <span className="text-sm text-stone-700">#{tag}</span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-stone-400">{t('common.entries', { count })}</span>
+                    <button
+                      onClick={() => startEditing(tag)}
+                      disabled={editing !== null}
+                      className="p-1.5 text-stone-300 hover:text-stone-600 hover:bg-stone-100 rounded-lg transition-colors"
+                      title={t('tags.renameTag')}
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end mt-6">
+          <button onClick={onClose} disabled={isRenaming} className="px-4 py-2.5 text-stone-600 text-sm font-medium hover:bg-stone-100 rounded-lg transition-colors">
+            {t('common.done')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React from 'react';
+import { Trash2, RotateCcw, XCircle } from 'lucide-react';
+import { JournalEntry } from '../types';
+import { setTrashRetentionDays, purgeDate } from '../services/trash';
+import { TRASH_RETENTION_OPTIONS } from '../services/settings';
+import { useSettings } from '../hooks/useSettings';
+import { stripMarkdown } from '../services/markdown';
+import { formatDate } from '../services/dateTime';
+import { useI18n } from '../hooks/useI18n';
+
+interface TrashViewProps {
+  entries: JournalEntry[]; // Trashed entries only
+  onRestore: (id: string) => void;
+  onPurge: (ids: string[]) => void; // Asks for confirmation, then deletes for good
+}
+
+export const TrashView: React.FC<TrashViewProps> = ({ entries, onRestore, onPurge }) => {
+  const { trashRetentionDays: retentionDays } = useSettings();
+  const { t } = useI18n();
+
+  const sorted = [...entries].sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0));
+
+  const daysLeft = (entry: JournalEntry) =>
+    Math.max(0, Math.ceil((purgeDate(entry, retentionDays) - Date.now()) / (24 * 60 * 60 * 1000)));
+
+  return (
+    <div className="flex flex-col h-full bg-paper overflow-hidden animate-in fade-in duration-300">
+
+      {/* Toolbar */}
+      <div className="p-6 border-b border-stone-200 bg-surface flex flex-col md:flex-row gap-4 justify-between items-center sticky top-0 z-10 shadow-sm">
+        <h2 className="text-2xl font-serif font-bold text-ink flex items-center">
+            <Trash2 className="w-6 h-6 me-2 text-stone-400" /> {t('trash.title')}
+        </h2>
+
+        <div className="flex gap-3 w-full md:w-auto items-center">
+            <label className="flex items-center gap-2 text-xs text-stone-500">
+                {t('trash.deleteAfter')}
+                <select
+                    value={retentionDays}
+                    onChange={(e) => setTrashRetentionDays(Number(e.target.value))}
+                    className="px-3 py-2 bg-stone-50 border border-stone-200 rounded-lg text-sm focus:outline-none focus:border-stone-400 cursor-pointer"
+                >
+                    {(TRASH_RETENTION_OPTIONS.includes(retentionDays) ? TRASH_RETENTION_OPTIONS : [...TRASH_RETENTION_OPTIONS, retentionDays].sort((a, b) => a - b)).map(days => (
+                        <option key={days} value={days}>{t('trash.days', { count: days })}</option>
+                    ))}
+                </select>
+            </label>
+            <button
+                onClick={() => onPurge(sorted.map(e => e.id))}
+                disabled={sorted.length === 0}
+                className="px-4 py-2 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 shadow-sm transition-colors disabled:bg-stone-200 disabled:text-stone-400 disabled:shadow-none"
+            >
+                {t('trash.empty')}
+            </button>
+        </div>
+      </div>
+
+      {/* List */}
+      <div className="flex-grow overflow-auto p-6">
+        {sorted.length === 0 ? (
+            <div className="text-center py-16 text-stone-400">
+                <div className="w-12 h-12 bg-stone-100 rounded-full flex items-center justify-center mx-auto mb-3">
+                    <Trash2 className="w-5 h-5 text-stone-300" />
+                </div>
+                <p className="text-sm">{t('trash.isEmpty')}</p>
+            </div>
+        ) : (
+            <div className="bg-surface rounded-xl border border-stone-200 shadow-sm divide-y divide-stone-100">
+                {sorted.map(entry => (
+                    <div key={entry.id} className="flex items-center gap-4 p-4">
+                        <div className="flex-grow min-w-0">
+                            <h3 className="font-semibold text-sm text-stone-800 truncate">
+                                {entry.title || <span className="italic text-stone-400">{t('table.untitled')}</span>}
+                            </h3>
+                            <p className="text-xs text-stone-500 truncate">{stripMarkdown(entry.content) || t('sidebar.noContent')}</p>
+                            <p className="text-[10px] uppercase tracking-wider text-stone-400 font-medium mt-1">
+                                {t('trash.deletedOn', { date: formatDate(entry.deletedAt!, { month: 'short', day: 'numeric' }) })}
+                                {' · '}
+                                {daysLeft(entry) === 0 ? t('trash.purgedNextLaunch') : t('trash.daysLeft', { count: daysLeft(entry) })}
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                            <button
+                                onClick={() => onRestore(entry.id)}
+                                className="flex items-center px-3 py-1.5 text-xs font-medium text-stone-600 bg-surface border border-stone-200 rounded-full hover:bg-stone-50"
+                                title={t('trash.restoreEntry')}
+                            >
+                                <RotateCcw className="rtl:-scale-x-100 w-3.5 h-3.5 me-1" /> {t('common.restore')}
+                            </button>
+                            <button
+                                onClick={() => onPurge([entry.id])}
+                                className="p-2 text-stone-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                title={t('trash.deleteForever')}
+                            >
+                                <XCircle className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        )}
+      </div>
+    </div>
+  );
+};
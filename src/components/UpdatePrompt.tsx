@@ -0,0 +1,39 @@
+import React from 'react';
+import { RefreshCw } from 'lucide-react';
+import { applyUpdate, dismissUpdate } from '../services/serviceWorker';
+import { useAppUpdate } from '../hooks/useAppUpdate';
+import { useI18n } from '../hooks/useI18n';
+
+/**
+ * Offers to reload when a new build has been deployed
+ */
+export const UpdatePrompt: React.FC = () => {
+  const hasUpdate = useAppUpdate();
+  const { t } = useI18n();
+
+  if (!hasUpdate) return null;
+
+  return (
+    <div role="status" className="fixed bottom-4 inset-x-4 sm:inset-x-auto sm:end-4 z-[70] flex justify-center animate-in fade-in duration-200">
+      <div className="bg-surface rounded-xl shadow-2xl border border-stone-100 p-4 max-w-sm w-full">
+        <div className="flex items-start space-x-3 rtl:space-x-reverse mb-3">
+          <div className="p-2 bg-stone-100 rounded-full">
+            <RefreshCw className="w-4 h-4 text-stone-600" />
+          </div>
+          <div>
+            <p className="text-sm font-bold text-stone-900">{t('update.title')}</p>
+            <p className="text-xs text-stone-500 mt-0.5">{t('update.body')}</p>
+          </div>
+        </div>
+        <div className="flex justify-end space-x-2 rtl:space-x-reverse">
+          <button onClick={dismissUpdate} className="px-4 py-2 text-stone-600 text-sm font-medium hover:bg-stone-100 rounded-lg transition-colors">
+            {t('update.later')}
+          </button>
+          <button onClick={applyUpdate} className="px-4 py-2 bg-stone-900 text-surface text-sm font-medium rounded-lg hover:bg-stone-800 shadow-sm transition-colors">
+            {t('update.reload')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
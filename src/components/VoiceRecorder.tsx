@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, Square } from 'lucide-react';
+import { formatDuration } from '../services/attachments';
+import { useI18n } from '../hooks/useI18n';
+
+interface VoiceRecorderProps {
+  onRecorded: (audio: Blob, duration: number) => void; // Duration in seconds
+  disabled?: boolean;
+}
+
+interface Recording {
+  recorder: MediaRecorder;
+  stream: MediaStream;
+  startedAt: number;
+  discard: boolean; // Set when the editor closes mid-recording
+}
+
+/**
+ * Toolbar button that records a voice note from the microphone
+ */
+export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onRecorded, disabled = false }) => {
+  const recordingRef = useRef<Recording | null>(null);
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+  const [elapsed, setElapsed] = useState<number | null>(null); // Seconds, while recording
+  const isRecording = elapsed !== null;
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = setInterval(() => {
+      const recording = recordingRef.current;
+      if (recording) setElapsed((Date.now() - recording.startedAt) / 1000);
+    }, 500);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  // Leaving the entry mid-recording drops the recording
+  useEffect(() => () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recording.discard = true;
+    if (recording.recorder.state !== 'inactive') recording.recorder.stop();
+  }, []);
+
+  const start = async () => {
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      alert(t('recorder.unsupported'));
+      return;
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      alert(t('recorder.noMicrophone'));
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    const recording: Recording = { recorder, stream, startedAt: Date.now(), discard: false };
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      recordingRef.current = null;
+      setElapsed(null);
+      if (recording.discard || chunks.length === 0) return;
+      // MediaRecorder files often carry no duration, so it is measured here
+      onRecordedRef.current(new Blob(chunks, { type: recorder.mimeType || chunks[0].type }), (Date.now() - recording.startedAt) / 1000);
+    };
+
+    recordingRef.current = recording;
+    recorder.start();
+    setElapsed(0);
+  };
+
+  const stop = () => recordingRef.current?.recorder.stop();
+
+  if (isRecording) {
+    return (
+      <button
+        onClick={stop}
+        className="flex items-center gap-1.5 px-3 py-1.5 bg-red-50 hover:bg-red-100 text-red-600 rounded-full transition-colors cursor-pointer text-xs font-bold tabular-nums"
+        title={t('recorder.stop')}
+      >
+        <Square className="w-3 h-3 fill-current" />
+        <span>{formatDuration(elapsed)}</span>
+      </button>
+    );
+  }
+
+  return (
+    <button
+      onClick={start}
+      disabled={disabled}
+      className="p-2 hover:bg-stone-100 text-stone-500 rounded-full transition-colors cursor-pointer"
+      title={t('recorder.record')}
+    >
+      <Mic className="w-4 h-4" />
+    </button>
+  );
+};
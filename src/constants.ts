@@ -6,6 +6,25 @@
 // PASTE YOUR CLIENT ID HERE
 export const GOOGLE_CLIENT_ID = '111426887413-sfa7r7ujf8lvgs7h1hmijsdinneirfm6.apps.googleusercontent.com'; 
 
-export const AUTOSAVE_INTERVAL_MS = 2000; // Autosave every 2 seconds
-export const APP_FOLDER_NAME = 'ZenJournal';
+// Defaults for settings the user can change (see services/settings.ts)
+export const DEFAULT_AUTOSAVE_DELAY_MS = 2000; // Autosave 2 seconds after the last keystroke
+export const DEFAULT_DRIVE_FOLDER_NAME = 'ZenJournal';
 export const SCOPES = 'https://www.googleapis.com/auth/drive.file';
+
+// Offline outbox retry: exponential backoff between these bounds
+export const OUTBOX_RETRY_BASE_MS = 5000;
+export const OUTBOX_RETRY_MAX_MS = 10 * 60 * 1000;
+
+// Entries stay in the trash this many days unless the user picks another period
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Revision history: saves closer together than this are folded into one snapshot,
+// unless a single save changes more than REVISION_LARGE_EDIT_CHARS characters
+export const REVISION_COALESCE_MS = 10 * 60 * 1000;
+export const REVISION_LARGE_EDIT_CHARS = 200;
+// Every snapshot of the last day is kept, then the last one of each day, up to this age
+export const REVISION_KEEP_ALL_MS = 24 * 60 * 60 * 1000;
+export const REVISION_RETENTION_DAYS = 30;
+
+// Attachments are kept in IndexedDB and uploaded whole, so very large files are refused
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
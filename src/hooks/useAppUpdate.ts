@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { hasUpdate, subscribeUpdate } from '../services/serviceWorker';
+
+/**
+ * Whether a new build is ready to load; re-renders when one arrives
+ */
+export function useAppUpdate(): boolean {
+  return useSyncExternalStore(subscribeUpdate, hasUpdate);
+}
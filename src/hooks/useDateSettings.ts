@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { DateSettings, getDateSettings } from '../services/dateTime';
+import { subscribeSettings } from '../services/settings';
+
+/**
+ * The timezone, locale and clock settings; re-renders when they change
+ */
+export function useDateSettings(): DateSettings {
+  return useSyncExternalStore(subscribeSettings, getDateSettings);
+}
@@ -0,0 +1,58 @@
+import { useState, useEffect, useMemo } from 'react';
+import { JournalEntry, SearchHit } from '../types';
+import { ParsedQuery, parseQuery, rankQuery, matchesFilters, highlightTerms } from '../services/query';
+
+const SEARCH_DEBOUNCE_MS = 150;
+
+/**
+ * Run a search query (see services/query.ts) over entries as the user types.
+ * `results` is null while the query is empty (no filtering), otherwise the
+ * matching entries, best first when the query has words to rank. While the
+ * ranking for the current text is on its way, `pending` is set and `results`
+ * is empty rather than the previous query's matches.
+ */
+export function useEntryQuery(query: string, entries: JournalEntry[]) {
+  const parsed = useMemo(() => parseQuery(query), [query]);
+  // Hits are kept with the query they rank, so a new query never shows the last one's
+  const [ranking, setRanking] = useState<{ query: ParsedQuery, hits: SearchHit[] } | null>(null);
+  const isEmpty = !query.trim();
+  const hasText = parsed.words.length > 0 || parsed.phrases.length > 0;
+  const hits = ranking?.query === parsed ? ranking.hits : null;
+  const pending = hasText && !hits;
+
+  // Ranking goes through the index, so it is async and debounced
+  useEffect(() => {
+    if (!hasText) {
+      setRanking(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const ranked = await rankQuery(parsed);
+        if (!cancelled) setRanking({ query: parsed, hits: ranked });
+      } catch (err) {
+        console.error("Search failed", err);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [parsed, hasText, entries]);
+
+  const results = useMemo(() => {
+    if (isEmpty) return null;
+    if (pending) return [];
+    const filtered = entries.filter(entry => matchesFilters(entry, parsed));
+    if (!hits) return filtered;
+    const rank = new Map(hits.map((hit, i) => [hit.entryId, i]));
+    return filtered
+      .filter(entry => rank.has(entry.id))
+      .sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
+  }, [isEmpty, pending, entries, parsed, hits]);
+
+  return { results, pending, terms: highlightTerms(parsed), errors: parsed.errors };
+}
@@ -0,0 +1,13 @@
+import { Language } from '../types';
+import { currentLanguage, t, textDirection } from '../services/i18n';
+import { useSettings } from './useSettings';
+
+/**
+ * The translate function and the UI language and direction; re-renders when
+ * the language changes
+ */
+export function useI18n(): { t: typeof t, language: Language, dir: 'ltr' | 'rtl' } {
+  useSettings();
+  const language = currentLanguage();
+  return { t, language, dir: textDirection(language) };
+}
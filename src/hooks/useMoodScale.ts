@@ -0,0 +1,22 @@
+import { useSyncExternalStore } from 'react';
+import { MoodLevel } from '../types';
+import { getMoodScale, subscribeMoodScale } from '../services/moodScale';
+import { subscribeSettings } from '../services/settings';
+
+// The default labels follow the UI language, which is a setting
+const subscribe = (listener: () => void) => {
+  const unsubscribeScale = subscribeMoodScale(listener);
+  const unsubscribeSettings = subscribeSettings(listener);
+  return () => {
+    unsubscribeScale();
+    unsubscribeSettings();
+  };
+};
+
+/**
+ * The configured mood scale, best first; re-renders when it is edited or the
+ * language changes
+ */
+export function useMoodScale(): MoodLevel[] {
+  return useSyncExternalStore(subscribe, getMoodScale);
+}
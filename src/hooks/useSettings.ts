@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { AppSettings } from '../types';
+import { getSettings, subscribeSettings } from '../services/settings';
+
+/**
+ * The user's settings; re-renders when they change
+ */
+export function useSettings(): AppSettings {
+  return useSyncExternalStore(subscribeSettings, getSettings);
+}
@@ -0,0 +1,19 @@
+import { useLayoutEffect, useSyncExternalStore } from 'react';
+import { ResolvedTheme } from '../types';
+import { applyTheme, resolveTheme, subscribeSystemTheme, systemPrefersDark } from '../services/theme';
+import { useSettings } from './useSettings';
+
+/**
+ * Apply the theme from the settings to the page, following the system when
+ * asked to; returns the theme shown
+ */
+export function useTheme(): ResolvedTheme {
+  const { theme } = useSettings();
+  const prefersDark = useSyncExternalStore(subscribeSystemTheme, systemPrefersDark);
+  const resolved = resolveTheme(theme, prefersDark);
+
+  // Before paint, so the page never shows in the previous theme
+  useLayoutEffect(() => applyTheme(resolved), [resolved]);
+
+  return resolved;
+}
@@ -0,0 +1,428 @@
+import { Catalog } from './en';
+
+// ==========================================
+// ARABIC
+// ==========================================
+// Plurals use all six Arabic forms: zero, one, two, few (3 to 10),
+// many (11 to 99) and other (100 and up, and fractions).
+
+export const ar: Catalog = {
+  // Shared
+  'common.cancel': 'إلغاء',
+  'common.save': 'حفظ',
+  'common.close': 'إغلاق',
+  'common.done': 'تم',
+  'common.delete': 'حذف',
+  'common.restore': 'استعادة',
+  'common.untitled': 'تدوينة بلا عنوان',
+  'common.entries': {
+    zero: 'لا تدوينات',
+    one: 'تدوينة واحدة',
+    two: 'تدوينتان',
+    few: '{count} تدوينات',
+    many: '{count} تدوينة',
+    other: '{count} تدوينة',
+  },
+  'common.words': {
+    zero: 'لا كلمات',
+    one: 'كلمة واحدة',
+    two: 'كلمتان',
+    few: '{count} كلمات',
+    many: '{count} كلمة',
+    other: '{count} كلمة',
+  },
+  'common.searchHelp': 'كلمات، "عبارات مطابقة"، -مستبعدة، title:، body:، mood:، tag:، before:، after:، has:image|audio|file',
+
+  // App
+  'app.emptyState': 'اختر تدوينة أو أنشئ واحدة جديدة',
+  'app.openMenu': 'فتح القائمة',
+  'app.migrationFailed': 'تعذّرت ترقية بعض الملفات. سيُطرح عليك السؤال مجددًا بعد المزامنة التالية.',
+  'app.driveUnreachable': 'تعذّر الوصول إلى Drive. التدوينة محفوظة على هذا الجهاز وسيتم رفعها تلقائيًا.',
+  'app.authNotReady': 'خدمة تسجيل الدخول من Google غير جاهزة. حدّث الصفحة أو تحقق من اتصالك بالإنترنت.',
+  'app.authNotLoaded': 'لم يتم تحميل سكربت تسجيل الدخول من Google. تحقق من اتصالك بالإنترنت.',
+
+  // Dialogs
+  'setup.title': 'إعداد ZenJournal',
+  'setup.subtitle': 'اضبط Google Cloud لتفعيل المزامنة بين أجهزتك.',
+  'setup.authorizeTitle': 'تفويض هذا الموقع',
+  'setup.authorizeBody': 'أضف هذا الرابط إلى "Authorized JavaScript origins" في Google Cloud Console.',
+  'setup.clientId': 'معرّف عميل Google',
+  'setup.instructions': 'التعليمات:',
+  'setup.step1': '1. افتح',
+  'setup.step2': '2. أنشئ مشروعًا > APIs & Services > Credentials.',
+  'setup.step3': '3. أنشئ "OAuth Client ID" > Web Application.',
+  'setup.mobileTitle': 'التجربة على الهاتف',
+  'setup.mobileBody': 'للاستخدام على الهاتف، انشر التطبيق على Netlify أو Vercel وأضف الرابط الجديد في Google Cloud.',
+  'setup.saveConnect': 'حفظ واتصال',
+  'setup.skip': 'تخطٍّ (بدون اتصال فقط)',
+  'trashDialog.title': 'نقل إلى سلة المهملات؟',
+  'trashDialog.body': {
+    zero: 'تُحذف التدوينة نهائيًا عند التشغيل التالي.',
+    one: 'تبقى التدوينة في سلة المهملات يومًا واحدًا، يمكنك خلاله استعادتها، ثم تُحذف نهائيًا.',
+    two: 'تبقى التدوينة في سلة المهملات يومين، يمكنك خلالهما استعادتها، ثم تُحذف نهائيًا.',
+    few: 'تبقى التدوينة في سلة المهملات {count} أيام، يمكنك خلالها استعادتها، ثم تُحذف نهائيًا.',
+    many: 'تبقى التدوينة في سلة المهملات {count} يومًا، يمكنك خلالها استعادتها، ثم تُحذف نهائيًا.',
+    other: 'تبقى التدوينة في سلة المهملات {count} يوم، يمكنك خلالها استعادتها، ثم تُحذف نهائيًا.',
+  },
+  'trashDialog.moving': 'جارٍ النقل…',
+  'trashDialog.confirm': 'نقل إلى سلة المهملات',
+  'purgeDialog.title': {
+    one: 'حذف نهائي؟',
+    two: 'حذف تدوينتين نهائيًا؟',
+    few: 'حذف {count} تدوينات نهائيًا؟',
+    many: 'حذف {count} تدوينة نهائيًا؟',
+    other: 'حذف {count} تدوينة نهائيًا؟',
+  },
+  'purgeDialog.body': {
+    one: 'ستُزال التدوينة من هذا الجهاز ومن Google Drive. لا يمكن التراجع عن هذا الإجراء.',
+    other: 'ستُزال هذه التدوينات من هذا الجهاز ومن Google Drive. لا يمكن التراجع عن هذا الإجراء.',
+  },
+  'purgeDialog.deleting': 'جارٍ الحذف…',
+  'purgeDialog.confirm': 'نعم، احذف',
+  'saveDialog.title': 'حفظ في Drive',
+  'saveDialog.body': 'اختر اسم ملف لهذه التدوينة.',
+  'saveDialog.filename': 'اسم الملف',
+  'saveDialog.extensionHint': 'يُضاف الامتداد ‎.md تلقائيًا إن لم يكن موجودًا',
+  'migrationDialog.title': 'ترقية ملفات Drive؟',
+  'migrationDialog.body': {
+    one: 'تدوينة واحدة محفوظة بتنسيق ‎.txt القديم، الذي قد يُفقد التواريخ ويقتطع النص. هل تريد إعادة كتابتها كملف ‎.md يحفظ كل التفاصيل؟',
+    two: 'تدوينتان محفوظتان بتنسيق ‎.txt القديم، الذي قد يُفقد التواريخ ويقتطع النص. هل تريد إعادة كتابتهما كملفات ‎.md تحفظ كل التفاصيل؟',
+    few: '{count} تدوينات محفوظة بتنسيق ‎.txt القديم، الذي قد يُفقد التواريخ ويقتطع النص. هل تريد إعادة كتابتها كملفات ‎.md تحفظ كل التفاصيل؟',
+    many: '{count} تدوينة محفوظة بتنسيق ‎.txt القديم، الذي قد يُفقد التواريخ ويقتطع النص. هل تريد إعادة كتابتها كملفات ‎.md تحفظ كل التفاصيل؟',
+    other: '{count} تدوينة محفوظة بتنسيق ‎.txt القديم، الذي قد يُفقد التواريخ ويقتطع النص. هل تريد إعادة كتابتها كملفات ‎.md تحفظ كل التفاصيل؟',
+  },
+  'migrationDialog.notNow': 'ليس الآن',
+  'migrationDialog.confirm': 'ترقية',
+
+  // Sidebar
+  'sidebar.library': 'المكتبة',
+  'sidebar.syncNow': 'تحليل ومزامنة من Drive',
+  'sidebar.pendingSync': {
+    one: 'تغيير واحد بانتظار الرفع',
+    two: 'تغييران بانتظار الرفع',
+    few: '{count} تغييرات بانتظار الرفع',
+    many: '{count} تغييرًا بانتظار الرفع',
+    other: '{count} تغيير بانتظار الرفع',
+  },
+  'sidebar.pendingSyncNow': {
+    one: 'تغيير واحد بانتظار الرفع. زامن الآن',
+    two: 'تغييران بانتظار الرفع. زامن الآن',
+    few: '{count} تغييرات بانتظار الرفع. زامن الآن',
+    many: '{count} تغييرًا بانتظار الرفع. زامن الآن',
+    other: '{count} تغيير بانتظار الرفع. زامن الآن',
+  },
+  'sidebar.listView': 'عرض القائمة',
+  'sidebar.sheetView': 'عرض الجدول',
+  'sidebar.calendarView': 'عرض التقويم',
+  'sidebar.insights': 'الإحصاءات',
+  'sidebar.newEntry': 'تدوينة جديدة',
+  'sidebar.search': 'ابحث في التدوينات…',
+  'sidebar.clearSearch': 'مسح البحث',
+  'sidebar.allMoods': 'الكل',
+  'sidebar.filterByMood': 'تصفية حسب: {mood}',
+  'sidebar.deleteSmartFilter': 'حذف عامل التصفية المحفوظ',
+  'sidebar.manageTags': 'إدارة',
+  'sidebar.manageTagsHint': 'إعادة تسمية الوسوم أو دمجها',
+  'sidebar.noEntries': 'لا توجد تدوينات بعد.',
+  'sidebar.startWriting': 'انقر + لتبدأ الكتابة.',
+  'sidebar.noSearchMatch': 'لا توجد تدوينات تطابق هذا البحث.',
+  'sidebar.noTagMatch': 'لا توجد تدوينات بالوسم #{tag}.',
+  'sidebar.noMoodMatch': 'لا توجد تدوينات بهذا المزاج.',
+  'sidebar.clearFilter': 'مسح التصفية',
+  'sidebar.conflict': 'عُدّلت على جهاز آخر: تحتاج إلى مراجعة',
+  'sidebar.mood': 'المزاج: {mood}',
+  'sidebar.noContent': 'لا محتوى…',
+  'sidebar.thumbnail': 'صورة مصغرة',
+  'sidebar.moveToTrash': 'نقل إلى سلة المهملات',
+  'sidebar.moveToTrashLabel': 'نقل التدوينة إلى سلة المهملات',
+  'sidebar.trash': 'سلة المهملات',
+  'sidebar.syncActive': 'المزامنة مفعّلة',
+  'sidebar.signOut': 'تسجيل الخروج',
+  'sidebar.savedTo': 'محفوظة في {folder}',
+  'sidebar.fullRescan': 'إعادة فحص كاملة',
+  'sidebar.fullRescanHint': 'إعادة تنزيل كل التدوينات من Drive',
+  'sidebar.settings': 'الإعدادات',
+  'sidebar.connectDrive': 'ربط Google Drive',
+  'sidebar.configureClientId': 'ضبط معرّف العميل',
+
+  // Editor
+  'editor.write': 'كتابة',
+  'editor.split': 'كتابة ومعاينة',
+  'editor.preview': 'معاينة',
+  'editor.heading': 'عنوان (Ctrl+Shift+H)',
+  'editor.bold': 'غامق (Ctrl+B)',
+  'editor.italic': 'مائل (Ctrl+I)',
+  'editor.strike': 'يتوسطه خط (Ctrl+Shift+X)',
+  'editor.code': 'شيفرة (Ctrl+E)',
+  'editor.link': 'رابط (Ctrl+K)',
+  'editor.quote': 'اقتباس (Ctrl+Shift+.)',
+  'editor.bullet': 'قائمة نقطية (Ctrl+Shift+8)',
+  'editor.numbered': 'قائمة مرقّمة (Ctrl+Shift+7)',
+  'editor.task': 'قائمة مهام (Ctrl+Shift+9)',
+  'editor.fileTooLarge': 'حجم {name} أكبر من {size}.',
+  'editor.fileUnreadable': 'تعذّرت قراءة {name}.',
+  'editor.aFile': 'ملف',
+  'editor.voiceNoteFailed': 'تعذّر حفظ الملاحظة الصوتية.',
+  'editor.saving': 'جارٍ الحفظ…',
+  'editor.saved': 'محفوظة',
+  'editor.saveToDrive': 'حفظ في Google Drive',
+  'editor.saveOnline': 'حفظ على الإنترنت',
+  'editor.processingFiles': 'جارٍ معالجة الملفات…',
+  'editor.addImage': 'إضافة صورة',
+  'editor.photoSettings': 'إعدادات الصور',
+  'editor.attachFile': 'إرفاق ملف',
+  'editor.history': 'السجل',
+  'editor.download': 'تنزيل التدوينة كملف ‎.txt',
+  'editor.editMoodScale': 'تعديل مقياس المزاج',
+  'editor.placeholder': 'ابدأ الكتابة… يدعم Markdown: ‏**غامق**، *مائل*، # عناوين، - قوائم، - [ ] مهام',
+  'editor.nothingToPreview': 'لا شيء للمعاينة بعد.',
+  'editor.attachments': 'المرفقات',
+  'editor.attachment': 'مرفق',
+  'editor.removeImage': 'إزالة الصورة',
+  'editor.fullScreen': 'عرض بملء الشاشة',
+  'editor.taken': 'التُقطت في {date}',
+  'editor.downloadPhoto': 'تنزيل الصورة',
+
+  // Sheet view
+  'table.title': 'عرض الجدول',
+  'table.otherAttachments': 'ملاحظات صوتية وملفات',
+  'table.search': 'ابحث… مثلًا: شاطئ mood:{mood} after:2025-06 -مطر',
+  'table.saveSmartFilter': 'حفظ كعامل تصفية',
+  'table.allMoods': 'كل الحالات المزاجية',
+  'table.date': 'التاريخ',
+  'table.mood': 'المزاج',
+  'table.entryTitle': 'العنوان',
+  'table.preview': 'معاينة المحتوى',
+  'table.tags': 'الوسوم',
+  'table.media': 'الوسائط',
+  'table.actions': 'إجراءات',
+  'table.noMatch': 'لا توجد تدوينات تطابق عوامل التصفية.',
+  'table.untitled': 'بلا عنوان',
+  'table.showTag': 'عرض التدوينات ذات الوسم #{tag}',
+  'table.edit': 'تعديل',
+  'smartFilterDialog.title': 'حفظ عامل التصفية',
+  'smartFilterDialog.body': 'سيظهر في الشريط الجانبي بجوار عوامل تصفية المزاج.',
+  'smartFilterDialog.name': 'الاسم',
+
+  // Calendar
+  'calendar.title': 'التقويم',
+  'calendar.previousMonth': 'الشهر السابق',
+  'calendar.nextMonth': 'الشهر التالي',
+  'calendar.today': 'اليوم',
+  'calendar.newEntryOnDay': 'تدوينة جديدة في هذا اليوم',
+
+  // Insights
+  'insights.title': 'الإحصاءات',
+  'insights.range': {
+    one: 'آخر يوم',
+    two: 'آخر يومين',
+    few: 'آخر {count} أيام',
+    many: 'آخر {count} يومًا',
+    other: 'آخر {count} يوم',
+  },
+  'insights.empty': 'اكتب بعض التدوينات لترى الإحصاءات.',
+  'insights.currentStreak': 'السلسلة الحالية',
+  'insights.longestStreak': 'أطول سلسلة',
+  'insights.streakEnded': 'انتهت في {date}',
+  'insights.days': {
+    zero: '{count} يوم',
+    one: 'يوم واحد',
+    two: 'يومان',
+    few: '{count} أيام',
+    many: '{count} يومًا',
+    other: '{count} يوم',
+  },
+  'insights.entries': 'التدوينات',
+  'insights.withMood': 'مع مزاج',
+  'insights.moodOverTime': 'المزاج عبر الزمن',
+  'insights.daily': 'يوميًا',
+  'insights.weeklyAverage': 'متوسط 7 أيام',
+  'insights.monthlyAverage': 'متوسط 30 يومًا',
+  'insights.distribution': 'توزيع المزاج',
+  'insights.byWeekday': 'المزاج حسب يوم الأسبوع',
+  'insights.wordsByMood': 'الكلمات لكل تدوينة حسب المزاج',
+  'insights.photosByMood': 'الصور لكل تدوينة حسب المزاج',
+  'insights.averagePhotos': '{value} صورة',
+
+  // Trash
+  'trash.title': 'سلة المهملات',
+  'trash.deleteAfter': 'الحذف بعد',
+  'trash.days': {
+    one: 'يوم واحد',
+    two: 'يومين',
+    few: '{count} أيام',
+    many: '{count} يومًا',
+    other: '{count} يوم',
+  },
+  'trash.empty': 'إفراغ سلة المهملات',
+  'trash.isEmpty': 'سلة المهملات فارغة.',
+  'trash.deletedOn': 'حُذفت في {date}',
+  'trash.purgedNextLaunch': 'تُحذف نهائيًا عند التشغيل التالي',
+  'trash.daysLeft': {
+    one: 'بقي يوم واحد',
+    two: 'بقي يومان',
+    few: 'بقيت {count} أيام',
+    many: 'بقي {count} يومًا',
+    other: 'بقي {count} يوم',
+  },
+  'trash.restoreEntry': 'استعادة التدوينة',
+  'trash.deleteForever': 'حذف نهائي',
+
+  // History
+  'history.title': 'السجل',
+  'history.noVersions': 'لا توجد نسخ محفوظة بعد.',
+  'history.latest': 'الأحدث · {words}',
+  'history.compareWith': 'مقارنة مع',
+  'history.previousVersion': 'النسخة السابقة',
+  'history.currentText': 'النص الحالي',
+  'history.restore': 'استعادة هذه النسخة',
+  'history.noMood': 'لا شيء',
+  'history.moodChange': 'المزاج: {from} ← {to}',
+  'history.attachmentChange': 'المرفقات: {from} ← {to}',
+  'history.emptyText': '(فارغ)',
+
+  // Mood scale
+  'moodScale.title': 'مقياس المزاج',
+  'moodScale.intro': 'تحدد الدرجة ترتيب الحالات المزاجية وتُحتسب بها المتوسطات في الإحصاءات: الأعلى هو الأفضل.',
+  'moodScale.emoji': 'رمز تعبيري',
+  'moodScale.name': 'الاسم',
+  'moodScale.score': 'الدرجة',
+  'moodScale.remove': 'إزالة المزاج',
+  'moodScale.add': 'إضافة مزاج',
+  'moodScale.default': 'الافتراضي',
+  'moodScale.moves': {
+    one: 'تدوينة واحدة بمزاج محذوف ستنتقل إلى {mood}.',
+    two: 'تدوينتان بمزاج محذوف ستنتقلان إلى {mood}.',
+    few: '{count} تدوينات بمزاج محذوف ستنتقل إلى {mood}.',
+    many: '{count} تدوينة بمزاج محذوف ستنتقل إلى {mood}.',
+    other: '{count} تدوينة بمزاج محذوف ستنتقل إلى {mood}.',
+  },
+  'moodScale.newMood': 'المزاج الجديد',
+  'moodScale.tooFew': 'أبقِ على مزاجين على الأقل.',
+  'moodScale.missingName': 'كل مزاج يحتاج إلى اسم.',
+  'moodScale.missingEmoji': 'كل مزاج يحتاج إلى رمز تعبيري.',
+  'moodScale.duplicateName': 'هناك مزاجان بالاسم نفسه.',
+  'moodScale.missingScore': 'كل مزاج يحتاج إلى درجة رقمية.',
+
+  // Tags
+  'tags.title': 'الوسوم',
+  'tags.intro': 'إعادة تسمية وسم تحدّث كل التدوينات، بما فيها #الوسوم داخل النص. أعد التسمية إلى وسم موجود لدمج الاثنين.',
+  'tags.none': 'لا توجد وسوم بعد.',
+  'tags.merge': 'دمج',
+  'tags.rename': 'إعادة تسمية',
+  'tags.mergesInto': 'يُدمج في #{tag}',
+  'tags.renameTag': 'إعادة تسمية الوسم',
+  'tags.remove': 'إزالة الوسم',
+  'tags.fromHashtag': 'من #وسم داخل النص',
+  'tags.add': 'إضافة وسم',
+
+  // Photo settings
+  'photoSettings.title': 'إعدادات الصور',
+  'photoSettings.intro': 'تنطبق على الصور المضافة من الآن فصاعدًا. الصور الأصغر توفّر المساحة على هذا الجهاز وفي Drive.',
+  'photoSettings.maxSize': 'الحجم الأقصى',
+  'photoSettings.longestSide': '{size} بكسل للضلع الأطول',
+  'photoSettings.format': 'التنسيق',
+  'photoSettings.quality': 'الجودة',
+  'photoSettings.keepDate': 'الاحتفاظ بتاريخ التقاط كل صورة',
+  'photoSettings.privacy': 'يُزال الموقع وتفاصيل الكاميرا وغيرها من البيانات الوصفية دائمًا.',
+
+  // Attachments
+  'attachment.notOnDevice': 'الملاحظة الصوتية ليست على هذا الجهاز بعد',
+  'attachment.file': 'ملف',
+  'attachment.download': 'تنزيل',
+  'attachment.remove': 'إزالة',
+  'recorder.unsupported': 'لا يستطيع هذا المتصفح تسجيل الصوت.',
+  'recorder.noMicrophone': 'تعذّر استخدام الميكروفون. تحقق من أن ZenJournal مسموح له باستخدامه.',
+  'recorder.stop': 'إيقاف التسجيل',
+  'recorder.record': 'تسجيل ملاحظة صوتية',
+
+  // Conflicts
+  'conflict.thisDevice': 'هذا الجهاز',
+  'conflict.otherDevice': 'جهاز آخر',
+  'conflict.keepBoth': 'الاحتفاظ بالاثنين (هذا الجهاز أولًا)',
+  'conflict.removed': '(محذوف)',
+  'conflict.title': 'عُدّلت على جهاز آخر',
+  'conflict.intro': 'دُمجت التغييرات غير المتداخلة. اختر نسخة لكل قسم مظلَّل.',
+  'conflict.allMine': 'كلها من هنا',
+  'conflict.allTheirs': 'كلها من الجهاز الآخر',
+  'conflict.entryTitle': 'العنوان',
+  'conflict.mood': 'المزاج',
+  'conflict.text': 'النص',
+  'conflict.apply': 'تطبيق الحل',
+
+  // Entry date
+  'entryDate.change': 'تغيير التاريخ والوقت',
+  'entryDate.writtenOn': 'كُتبت في',
+  'entryDate.otherZone': 'الأوقات بتوقيت {zone}، حيث كُتبت هذه التدوينة.',
+  'entryDate.now': 'الآن',
+
+  // Search query errors
+  'query.missingQuote': 'علامة الاقتباس الختامية مفقودة',
+  'query.unknownFilter': 'عامل تصفية غير معروف "{key}:". استخدم title: أو body: أو mood: أو tag: أو before: أو after: أو has:',
+  'query.missingValue': '"{key}:" يحتاج إلى قيمة',
+  'query.cantExclude': 'لا يمكن استبعاد "{key}:" بعلامة "-"',
+  'query.unknownMood': 'مزاج غير معروف "{name}". استخدم {moods}',
+  'query.badTag': '"{value}" ليس وسمًا',
+  'query.badDate': '"{value}" ليس تاريخًا. استخدم YYYY-MM-DD أو YYYY-MM أو YYYY',
+  'query.unknownHas': '"has:{value}" غير معروف. استخدم has:image أو has:audio أو has:file',
+
+  // Default mood labels
+  'mood.great': 'رائع',
+  'mood.good': 'جيد',
+  'mood.okay': 'عادي',
+  'mood.bad': 'سيئ',
+
+  // Settings
+  'settings.title': 'الإعدادات',
+  'settings.appearance': 'المظهر',
+  'settings.theme.system': 'حسب النظام',
+  'settings.theme.light': 'فاتح',
+  'settings.theme.sepia': 'بني داكن',
+  'settings.theme.dark': 'داكن',
+  'settings.language': 'اللغة',
+  'settings.languageAuto': 'تلقائي (لغة المتصفح)',
+  'settings.writing': 'الكتابة',
+  'settings.textSize': 'حجم النص',
+  'settings.fontSize.small': 'صغير',
+  'settings.fontSize.medium': 'متوسط',
+  'settings.fontSize.large': 'كبير',
+  'settings.autosave': 'الحفظ التلقائي',
+  'settings.autosaveHint': 'المدة بين توقفك عن الكتابة وحفظ التدوينة.',
+  'settings.autosaveAfter': {
+    one: 'بعد ثانية واحدة',
+    two: 'بعد ثانيتين',
+    few: 'بعد {count} ثوانٍ',
+    many: 'بعد {count} ثانية',
+    other: 'بعد {count} ثانية',
+  },
+  'settings.startView': 'فتح التطبيق على',
+  'settings.trashRetention': 'حذف التدوينات من سلة المهملات بعد',
+  'settings.view.editor': 'عرض القائمة',
+  'settings.view.table': 'عرض الجدول',
+  'settings.view.calendar': 'عرض التقويم',
+  'settings.view.insights': 'عرض الإحصاءات',
+  'settings.dates': 'التواريخ',
+  'settings.timeZone': 'المنطقة الزمنية',
+  'settings.timeZoneHint': 'تحدد اليوم الذي تقع فيه كل تدوينة. تحتفظ كل تدوينة بالمنطقة التي كُتبت فيها.',
+  'settings.timeZoneAuto': 'تلقائي ({zone})',
+  'settings.dateFormat': 'تنسيق التاريخ',
+  'settings.dateFormatAuto': 'حسب اللغة',
+  'settings.clock': 'الساعة',
+  'settings.clock.auto': 'تلقائي',
+  'settings.clock.12h': '12 ساعة',
+  'settings.clock.24h': '24 ساعة',
+  'settings.now': 'الآن:',
+  'settings.drive': 'Google Drive',
+  'settings.folderName': 'اسم المجلد',
+  'settings.folderHint': 'المجلد في Drive الذي يحفظ اليوميات.',
+  'settings.folderChangedHint': 'تنتقل التدوينات إلى هذا المجلد عند حفظها التالي. إعادة الفحص الكاملة تقرأ هذا المجلد فقط.',
+  'settings.syncOnFocus': 'المزامنة عند العودة إلى التطبيق',
+  'settings.syncOnFocusHint': 'البحث في Drive عن تغييرات من أجهزة أخرى عند عودتك إلى هذه النافذة.',
+  'settings.configureClientId': 'ضبط معرّف عميل Google',
+
+  // Update prompt
+  'update.title': 'إصدار جديد من ZenJournal جاهز',
+  'update.body': 'أعد التحميل لاستخدامه. تبقى تدويناتك كما هي.',
+  'update.later': 'لاحقًا',
+  'update.reload': 'إعادة التحميل',
+};
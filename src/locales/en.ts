@@ -0,0 +1,362 @@
+import { PluralMessage } from '../types';
+
+// ==========================================
+// ENGLISH
+// ==========================================
+// The reference catalog: every key the UI uses, and the fallback for keys a
+// translation is missing. `{name}` is filled in by t(); messages with plural
+// forms are picked by the `count` parameter (see services/i18n.ts).
+
+export type Message = string | PluralMessage;
+
+export const en = {
+  // Shared
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.close': 'Close',
+  'common.done': 'Done',
+  'common.delete': 'Delete',
+  'common.restore': 'Restore',
+  'common.untitled': 'Untitled Entry',
+  'common.entries': { one: '{count} entry', other: '{count} entries' },
+  'common.words': { one: '{count} word', other: '{count} words' },
+  'common.searchHelp': 'Words, "exact phrases", -excluded, title:, body:, mood:, tag:, before:, after:, has:image|audio|file',
+
+  // App
+  'app.emptyState': 'Select an entry or create a new one',
+  'app.openMenu': 'Open menu',
+  'app.migrationFailed': "Some files could not be upgraded. You'll be asked again after the next sync.",
+  'app.driveUnreachable': "Couldn't reach Drive. The entry is saved on this device and will upload automatically.",
+  'app.authNotReady': 'Google Auth service not ready. Please refresh or check internet.',
+  'app.authNotLoaded': 'Google Auth script not loaded. Please check internet connection.',
+
+  // Dialogs
+  'setup.title': 'Setup ZenJournal',
+  'setup.subtitle': 'Configure Google Cloud to enable syncing across devices.',
+  'setup.authorizeTitle': 'Authorize This Website',
+  'setup.authorizeBody': 'Add this URL to "Authorized JavaScript origins" in Google Cloud Console.',
+  'setup.clientId': 'Google Client ID',
+  'setup.instructions': 'Instructions:',
+  'setup.step1': '1. Go to',
+  'setup.step2': '2. Create a Project > APIs & Services > Credentials.',
+  'setup.step3': '3. Create "OAuth Client ID" > Web Application.',
+  'setup.mobileTitle': 'Mobile Testing',
+  'setup.mobileBody': 'To use on phone, deploy to Netlify/Vercel and add the new URL to Google Cloud.',
+  'setup.saveConnect': 'Save & Connect',
+  'setup.skip': 'Skip (Offline Mode Only)',
+  'trashDialog.title': 'Move to Trash?',
+  'trashDialog.body': {
+    one: 'The entry stays in the Trash for {count} day, where you can restore it, before it is deleted for good.',
+    other: 'The entry stays in the Trash for {count} days, where you can restore it, before it is deleted for good.',
+  },
+  'trashDialog.moving': 'Moving...',
+  'trashDialog.confirm': 'Move to Trash',
+  'purgeDialog.title': { one: 'Delete Forever?', other: 'Delete {count} Entries Forever?' },
+  'purgeDialog.body': {
+    one: 'This removes the entry from this device and Google Drive. This action cannot be undone.',
+    other: 'This removes these entries from this device and Google Drive. This action cannot be undone.',
+  },
+  'purgeDialog.deleting': 'Deleting...',
+  'purgeDialog.confirm': 'Yes, Delete',
+  'saveDialog.title': 'Save to Drive',
+  'saveDialog.body': 'Choose a filename for this entry.',
+  'saveDialog.filename': 'Filename',
+  'saveDialog.extensionHint': '.md will be added automatically if missing',
+  'migrationDialog.title': 'Upgrade Drive Files?',
+  'migrationDialog.body': {
+    one: '{count} entry is stored in the old .txt layout, which can lose dates and cut off text. Rewrite it as an .md file that keeps every detail?',
+    other: '{count} entries are stored in the old .txt layout, which can lose dates and cut off text. Rewrite them as .md files that keep every detail?',
+  },
+  'migrationDialog.notNow': 'Not Now',
+  'migrationDialog.confirm': 'Upgrade',
+
+  // Sidebar
+  'sidebar.library': 'Library',
+  'sidebar.syncNow': 'Analyze & Sync from Drive',
+  'sidebar.pendingSync': { one: '{count} change waiting to upload', other: '{count} changes waiting to upload' },
+  'sidebar.pendingSyncNow': { one: '{count} change waiting to upload. Sync now', other: '{count} changes waiting to upload. Sync now' },
+  'sidebar.listView': 'List View',
+  'sidebar.sheetView': 'Sheet View',
+  'sidebar.calendarView': 'Calendar View',
+  'sidebar.insights': 'Insights',
+  'sidebar.newEntry': 'New Entry',
+  'sidebar.search': 'Search entries...',
+  'sidebar.clearSearch': 'Clear search',
+  'sidebar.allMoods': 'All',
+  'sidebar.filterByMood': 'Filter by {mood}',
+  'sidebar.deleteSmartFilter': 'Delete Smart Filter',
+  'sidebar.manageTags': 'Manage',
+  'sidebar.manageTagsHint': 'Rename or merge tags',
+  'sidebar.noEntries': 'No entries yet.',
+  'sidebar.startWriting': 'Click + to start writing.',
+  'sidebar.noSearchMatch': 'No entries match this search.',
+  'sidebar.noTagMatch': 'No entries tagged #{tag}.',
+  'sidebar.noMoodMatch': 'No entries found with this mood.',
+  'sidebar.clearFilter': 'Clear filter',
+  'sidebar.conflict': 'Edited on another device: needs review',
+  'sidebar.mood': 'Mood: {mood}',
+  'sidebar.noContent': 'No content...',
+  'sidebar.thumbnail': 'thumbnail',
+  'sidebar.moveToTrash': 'Move to Trash',
+  'sidebar.moveToTrashLabel': 'Move entry to trash',
+  'sidebar.trash': 'Trash',
+  'sidebar.syncActive': 'Sync Active',
+  'sidebar.signOut': 'Sign Out',
+  'sidebar.savedTo': 'Saved to {folder}',
+  'sidebar.fullRescan': 'Full rescan',
+  'sidebar.fullRescanHint': 'Re-download every entry from Drive',
+  'sidebar.settings': 'Settings',
+  'sidebar.connectDrive': 'Connect Google Drive',
+  'sidebar.configureClientId': 'Configure Client ID',
+
+  // Editor
+  'editor.write': 'Write',
+  'editor.split': 'Write & Preview',
+  'editor.preview': 'Preview',
+  'editor.heading': 'Heading (Ctrl+Shift+H)',
+  'editor.bold': 'Bold (Ctrl+B)',
+  'editor.italic': 'Italic (Ctrl+I)',
+  'editor.strike': 'Strikethrough (Ctrl+Shift+X)',
+  'editor.code': 'Code (Ctrl+E)',
+  'editor.link': 'Link (Ctrl+K)',
+  'editor.quote': 'Quote (Ctrl+Shift+.)',
+  'editor.bullet': 'Bulleted List (Ctrl+Shift+8)',
+  'editor.numbered': 'Numbered List (Ctrl+Shift+7)',
+  'editor.task': 'Checklist (Ctrl+Shift+9)',
+  'editor.fileTooLarge': '{name} is larger than {size}.',
+  'editor.fileUnreadable': "{name} couldn't be read.",
+  'editor.aFile': 'A file',
+  'editor.voiceNoteFailed': "The voice note couldn't be saved.",
+  'editor.saving': 'Saving...',
+  'editor.saved': 'Saved',
+  'editor.saveToDrive': 'Save to Google Drive',
+  'editor.saveOnline': 'Save Online',
+  'editor.processingFiles': 'Processing files...',
+  'editor.addImage': 'Add Image',
+  'editor.photoSettings': 'Photo Settings',
+  'editor.attachFile': 'Attach File',
+  'editor.history': 'History',
+  'editor.download': 'Download Entry as .txt',
+  'editor.editMoodScale': 'Edit Mood Scale',
+  'editor.placeholder': 'Start writing... Markdown works: **bold**, *italic*, # headings, - lists, - [ ] tasks',
+  'editor.nothingToPreview': 'Nothing to preview yet.',
+  'editor.attachments': 'Attachments',
+  'editor.attachment': 'Attachment',
+  'editor.removeImage': 'Remove Image',
+  'editor.fullScreen': 'Full screen view',
+  'editor.taken': 'Taken {date}',
+  'editor.downloadPhoto': 'Download Photo',
+
+  // Sheet view
+  'table.title': 'Sheet View',
+  'table.otherAttachments': 'Voice notes and files',
+  'table.search': 'Search... e.g. beach mood:{mood} after:2025-06 -rain',
+  'table.saveSmartFilter': 'Save as Smart Filter',
+  'table.allMoods': 'All Moods',
+  'table.date': 'Date',
+  'table.mood': 'Mood',
+  'table.entryTitle': 'Title',
+  'table.preview': 'Content Preview',
+  'table.tags': 'Tags',
+  'table.media': 'Media',
+  'table.actions': 'Actions',
+  'table.noMatch': 'No entries found matching your filters.',
+  'table.untitled': 'Untitled',
+  'table.showTag': 'Show entries tagged #{tag}',
+  'table.edit': 'Edit',
+  'smartFilterDialog.title': 'Save Smart Filter',
+  'smartFilterDialog.body': 'It will appear in the sidebar next to the mood filters.',
+  'smartFilterDialog.name': 'Name',
+
+  // Calendar
+  'calendar.title': 'Calendar',
+  'calendar.previousMonth': 'Previous Month',
+  'calendar.nextMonth': 'Next Month',
+  'calendar.today': 'Today',
+  'calendar.newEntryOnDay': 'New entry on this day',
+
+  // Insights
+  'insights.title': 'Insights',
+  'insights.range': { one: 'Last {count} day', other: 'Last {count} days' },
+  'insights.empty': 'Write a few entries to see insights.',
+  'insights.currentStreak': 'Current streak',
+  'insights.longestStreak': 'Longest streak',
+  'insights.streakEnded': 'ended {date}',
+  'insights.days': { one: '{count} day', other: '{count} days' },
+  'insights.entries': 'Entries',
+  'insights.withMood': 'With a mood',
+  'insights.moodOverTime': 'Mood over time',
+  'insights.daily': 'Daily',
+  'insights.weeklyAverage': '7-day average',
+  'insights.monthlyAverage': '30-day average',
+  'insights.distribution': 'Mood distribution',
+  'insights.byWeekday': 'Mood by weekday',
+  'insights.wordsByMood': 'Words per entry by mood',
+  'insights.photosByMood': 'Photos per entry by mood',
+  'insights.averagePhotos': '{value} photos',
+
+  // Trash
+  'trash.title': 'Trash',
+  'trash.deleteAfter': 'Delete after',
+  'trash.days': { one: '{count} day', other: '{count} days' },
+  'trash.empty': 'Empty Trash',
+  'trash.isEmpty': 'The trash is empty.',
+  'trash.deletedOn': 'Deleted {date}',
+  'trash.purgedNextLaunch': 'purged on next launch',
+  'trash.daysLeft': { one: '{count} day left', other: '{count} days left' },
+  'trash.restoreEntry': 'Restore Entry',
+  'trash.deleteForever': 'Delete Forever',
+
+  // History
+  'history.title': 'History',
+  'history.noVersions': 'No saved versions yet.',
+  'history.latest': 'Latest · {words}',
+  'history.compareWith': 'Compare with',
+  'history.previousVersion': 'Previous version',
+  'history.currentText': 'Current text',
+  'history.restore': 'Restore this version',
+  'history.noMood': 'none',
+  'history.moodChange': 'Mood: {from} → {to}',
+  'history.attachmentChange': 'Attachments: {from} → {to}',
+  'history.emptyText': '(empty)',
+
+  // Mood scale
+  'moodScale.title': 'Mood Scale',
+  'moodScale.intro': 'The score orders the moods and drives the averages in Insights: higher is better.',
+  'moodScale.emoji': 'Emoji',
+  'moodScale.name': 'Name',
+  'moodScale.score': 'Score',
+  'moodScale.remove': 'Remove Mood',
+  'moodScale.add': 'Add Mood',
+  'moodScale.default': 'Default',
+  'moodScale.moves': {
+    one: '{count} entry with a removed mood will move to {mood}.',
+    other: '{count} entries with a removed mood will move to {mood}.',
+  },
+  'moodScale.newMood': 'the new mood',
+  'moodScale.tooFew': 'Keep at least two moods.',
+  'moodScale.missingName': 'Every mood needs a name.',
+  'moodScale.missingEmoji': 'Every mood needs an emoji.',
+  'moodScale.duplicateName': 'Two moods have the same name.',
+  'moodScale.missingScore': 'Every mood needs a numeric score.',
+
+  // Tags
+  'tags.title': 'Tags',
+  'tags.intro': 'Renaming a tag updates every entry, including #hashtags in the text. Rename to an existing tag to merge the two.',
+  'tags.none': 'No tags yet.',
+  'tags.merge': 'Merge',
+  'tags.rename': 'Rename',
+  'tags.mergesInto': 'Merges into #{tag}',
+  'tags.renameTag': 'Rename Tag',
+  'tags.remove': 'Remove Tag',
+  'tags.fromHashtag': 'From a #hashtag in the text',
+  'tags.add': 'Add tag',
+
+  // Photo settings
+  'photoSettings.title': 'Photo Settings',
+  'photoSettings.intro': 'Applies to photos added from now on. Smaller photos save space on this device and in Drive.',
+  'photoSettings.maxSize': 'Maximum size',
+  'photoSettings.longestSide': '{size} px on the longest side',
+  'photoSettings.format': 'Format',
+  'photoSettings.quality': 'Quality',
+  'photoSettings.keepDate': 'Keep the date each photo was taken',
+  'photoSettings.privacy': 'Location, camera details and other metadata are always removed.',
+
+  // Attachments
+  'attachment.notOnDevice': 'Voice note not on this device yet',
+  'attachment.file': 'File',
+  'attachment.download': 'Download',
+  'attachment.remove': 'Remove',
+  'recorder.unsupported': "This browser can't record audio.",
+  'recorder.noMicrophone': "Couldn't use the microphone. Check that ZenJournal is allowed to use it.",
+  'recorder.stop': 'Stop Recording',
+  'recorder.record': 'Record Voice Note',
+
+  // Conflicts
+  'conflict.thisDevice': 'This device',
+  'conflict.otherDevice': 'Other device',
+  'conflict.keepBoth': 'Keep both (this device first)',
+  'conflict.removed': '(removed)',
+  'conflict.title': 'Edited on another device',
+  'conflict.intro': "Changes that don't overlap were merged. Pick a version for each highlighted section.",
+  'conflict.allMine': 'All mine',
+  'conflict.allTheirs': 'All theirs',
+  'conflict.entryTitle': 'Title',
+  'conflict.mood': 'Mood',
+  'conflict.text': 'Text',
+  'conflict.apply': 'Apply Resolution',
+
+  // Entry date
+  'entryDate.change': 'Change Date & Time',
+  'entryDate.writtenOn': 'Written on',
+  'entryDate.otherZone': 'Times are in {zone}, where this entry was written.',
+  'entryDate.now': 'Now',
+
+  // Search query errors
+  'query.missingQuote': 'Missing closing quote',
+  'query.unknownFilter': 'Unknown filter "{key}:". Use title:, body:, mood:, tag:, before:, after: or has:',
+  'query.missingValue': '"{key}:" needs a value',
+  'query.cantExclude': '"{key}:" can\'t be excluded with "-"',
+  'query.unknownMood': 'Unknown mood "{name}". Use {moods}',
+  'query.badTag': '"{value}" isn\'t a tag',
+  'query.badDate': '"{value}" isn\'t a date. Use YYYY-MM-DD, YYYY-MM or YYYY',
+  'query.unknownHas': 'Unknown "has:{value}". Use has:image, has:audio or has:file',
+
+  // Default mood labels (custom labels are shown as typed)
+  'mood.great': 'Great',
+  'mood.good': 'Good',
+  'mood.okay': 'Okay',
+  'mood.bad': 'Bad',
+
+  // Settings
+  'settings.title': 'Settings',
+  'settings.appearance': 'Appearance',
+  'settings.theme.system': 'Match system',
+  'settings.theme.light': 'Light',
+  'settings.theme.sepia': 'Sepia',
+  'settings.theme.dark': 'Dark',
+  'settings.language': 'Language',
+  'settings.languageAuto': 'Automatic (browser language)',
+  'settings.writing': 'Writing',
+  'settings.textSize': 'Text size',
+  'settings.fontSize.small': 'Small',
+  'settings.fontSize.medium': 'Medium',
+  'settings.fontSize.large': 'Large',
+  'settings.autosave': 'Autosave',
+  'settings.autosaveHint': 'How long after you stop typing the entry is saved.',
+  'settings.autosaveAfter': { one: 'After {count} second', other: 'After {count} seconds' },
+  'settings.startView': 'Open the app in',
+  'settings.trashRetention': 'Delete entries in the trash after',
+  'settings.view.editor': 'List view',
+  'settings.view.table': 'Sheet view',
+  'settings.view.calendar': 'Calendar view',
+  'settings.view.insights': 'Insights view',
+  'settings.dates': 'Dates',
+  'settings.timeZone': 'Timezone',
+  'settings.timeZoneHint': 'Decides which day entries fall on. Each entry keeps the zone it was written in.',
+  'settings.timeZoneAuto': 'Automatic ({zone})',
+  'settings.dateFormat': 'Date format',
+  'settings.dateFormatAuto': 'Same as the language',
+  'settings.clock': 'Clock',
+  'settings.clock.auto': 'Automatic',
+  'settings.clock.12h': '12-hour',
+  'settings.clock.24h': '24-hour',
+  'settings.now': 'Now:',
+  'settings.drive': 'Google Drive',
+  'settings.folderName': 'Folder name',
+  'settings.folderHint': 'The folder in your Drive that holds the journal.',
+  'settings.folderChangedHint': 'Entries move to this folder as they are next saved. A full rescan only reads this folder.',
+  'settings.syncOnFocus': 'Sync when the app comes back',
+  'settings.syncOnFocusHint': 'Check Drive for changes from other devices when you return to this window.',
+  'settings.configureClientId': 'Configure Google Client ID',
+
+  // Update prompt
+  'update.title': 'A new version of ZenJournal is ready',
+  'update.body': 'Reload to use it. Your entries stay as they are.',
+  'update.later': 'Later',
+  'update.reload': 'Reload',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+export type Catalog = Record<MessageKey, Message>;
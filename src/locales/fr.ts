@@ -0,0 +1,356 @@
+import { Catalog } from './en';
+
+// ==========================================
+// FRENCH
+// ==========================================
+
+export const fr: Catalog = {
+  // Shared
+  'common.cancel': 'Annuler',
+  'common.save': 'Enregistrer',
+  'common.close': 'Fermer',
+  'common.done': 'Terminé',
+  'common.delete': 'Supprimer',
+  'common.restore': 'Restaurer',
+  'common.untitled': 'Entrée sans titre',
+  'common.entries': { one: '{count} entrée', other: '{count} entrées' },
+  'common.words': { one: '{count} mot', other: '{count} mots' },
+  'common.searchHelp': 'Mots, "phrases exactes", -exclus, title:, body:, mood:, tag:, before:, after:, has:image|audio|file',
+
+  // App
+  'app.emptyState': 'Choisissez une entrée ou créez-en une nouvelle',
+  'app.openMenu': 'Ouvrir le menu',
+  'app.migrationFailed': "Certains fichiers n'ont pas pu être mis à niveau. La question vous sera reposée après la prochaine synchronisation.",
+  'app.driveUnreachable': "Impossible de joindre Drive. L'entrée est enregistrée sur cet appareil et sera envoyée automatiquement.",
+  'app.authNotReady': "Le service d'authentification Google n'est pas prêt. Actualisez la page ou vérifiez votre connexion.",
+  'app.authNotLoaded': "Le script d'authentification Google n'est pas chargé. Vérifiez votre connexion Internet.",
+
+  // Dialogs
+  'setup.title': 'Configurer ZenJournal',
+  'setup.subtitle': 'Configurez Google Cloud pour synchroniser vos appareils.',
+  'setup.authorizeTitle': 'Autoriser ce site',
+  'setup.authorizeBody': 'Ajoutez cette URL aux « Origines JavaScript autorisées » dans Google Cloud Console.',
+  'setup.clientId': 'ID client Google',
+  'setup.instructions': 'Instructions :',
+  'setup.step1': '1. Ouvrez',
+  'setup.step2': '2. Créez un projet > API et services > Identifiants.',
+  'setup.step3': '3. Créez un « ID client OAuth » > Application Web.',
+  'setup.mobileTitle': 'Test sur mobile',
+  'setup.mobileBody': 'Pour utiliser l’app sur téléphone, déployez-la sur Netlify/Vercel et ajoutez la nouvelle URL dans Google Cloud.',
+  'setup.saveConnect': 'Enregistrer et connecter',
+  'setup.skip': 'Passer (hors ligne uniquement)',
+  'trashDialog.title': 'Mettre à la corbeille ?',
+  'trashDialog.body': {
+    one: "L'entrée reste {count} jour dans la corbeille, où vous pouvez la restaurer, avant d'être supprimée définitivement.",
+    other: "L'entrée reste {count} jours dans la corbeille, où vous pouvez la restaurer, avant d'être supprimée définitivement.",
+  },
+  'trashDialog.moving': 'Déplacement…',
+  'trashDialog.confirm': 'Mettre à la corbeille',
+  'purgeDialog.title': { one: 'Supprimer définitivement ?', other: 'Supprimer {count} entrées définitivement ?' },
+  'purgeDialog.body': {
+    one: "L'entrée sera effacée de cet appareil et de Google Drive. Cette action est irréversible.",
+    other: 'Ces entrées seront effacées de cet appareil et de Google Drive. Cette action est irréversible.',
+  },
+  'purgeDialog.deleting': 'Suppression…',
+  'purgeDialog.confirm': 'Oui, supprimer',
+  'saveDialog.title': 'Enregistrer sur Drive',
+  'saveDialog.body': 'Choisissez un nom de fichier pour cette entrée.',
+  'saveDialog.filename': 'Nom du fichier',
+  'saveDialog.extensionHint': "L'extension .md est ajoutée si elle manque",
+  'migrationDialog.title': 'Mettre à niveau les fichiers Drive ?',
+  'migrationDialog.body': {
+    one: "{count} entrée est enregistrée dans l'ancien format .txt, qui peut perdre des dates et tronquer le texte. La réécrire en fichier .md qui conserve tous les détails ?",
+    other: "{count} entrées sont enregistrées dans l'ancien format .txt, qui peut perdre des dates et tronquer le texte. Les réécrire en fichiers .md qui conservent tous les détails ?",
+  },
+  'migrationDialog.notNow': 'Plus tard',
+  'migrationDialog.confirm': 'Mettre à niveau',
+
+  // Sidebar
+  'sidebar.library': 'Bibliothèque',
+  'sidebar.syncNow': 'Analyser et synchroniser depuis Drive',
+  'sidebar.pendingSync': { one: '{count} modification en attente d’envoi', other: '{count} modifications en attente d’envoi' },
+  'sidebar.pendingSyncNow': {
+    one: '{count} modification en attente d’envoi. Synchroniser maintenant',
+    other: '{count} modifications en attente d’envoi. Synchroniser maintenant',
+  },
+  'sidebar.listView': 'Liste',
+  'sidebar.sheetView': 'Tableau',
+  'sidebar.calendarView': 'Calendrier',
+  'sidebar.insights': 'Statistiques',
+  'sidebar.newEntry': 'Nouvelle entrée',
+  'sidebar.search': 'Rechercher…',
+  'sidebar.clearSearch': 'Effacer la recherche',
+  'sidebar.allMoods': 'Toutes',
+  'sidebar.filterByMood': 'Filtrer : {mood}',
+  'sidebar.deleteSmartFilter': 'Supprimer le filtre enregistré',
+  'sidebar.manageTags': 'Gérer',
+  'sidebar.manageTagsHint': 'Renommer ou fusionner des tags',
+  'sidebar.noEntries': 'Aucune entrée pour le moment.',
+  'sidebar.startWriting': 'Cliquez sur + pour commencer à écrire.',
+  'sidebar.noSearchMatch': 'Aucune entrée ne correspond à cette recherche.',
+  'sidebar.noTagMatch': 'Aucune entrée avec le tag #{tag}.',
+  'sidebar.noMoodMatch': 'Aucune entrée avec cette humeur.',
+  'sidebar.clearFilter': 'Effacer le filtre',
+  'sidebar.conflict': 'Modifiée sur un autre appareil : à vérifier',
+  'sidebar.mood': 'Humeur : {mood}',
+  'sidebar.noContent': 'Aucun contenu…',
+  'sidebar.thumbnail': 'miniature',
+  'sidebar.moveToTrash': 'Mettre à la corbeille',
+  'sidebar.moveToTrashLabel': "Mettre l'entrée à la corbeille",
+  'sidebar.trash': 'Corbeille',
+  'sidebar.syncActive': 'Synchronisation active',
+  'sidebar.signOut': 'Se déconnecter',
+  'sidebar.savedTo': 'Enregistré dans {folder}',
+  'sidebar.fullRescan': 'Tout resynchroniser',
+  'sidebar.fullRescanHint': 'Retélécharger toutes les entrées depuis Drive',
+  'sidebar.settings': 'Paramètres',
+  'sidebar.connectDrive': 'Connecter Google Drive',
+  'sidebar.configureClientId': "Configurer l'ID client",
+
+  // Editor
+  'editor.write': 'Écrire',
+  'editor.split': 'Écrire et prévisualiser',
+  'editor.preview': 'Aperçu',
+  'editor.heading': 'Titre (Ctrl+Maj+H)',
+  'editor.bold': 'Gras (Ctrl+B)',
+  'editor.italic': 'Italique (Ctrl+I)',
+  'editor.strike': 'Barré (Ctrl+Maj+X)',
+  'editor.code': 'Code (Ctrl+E)',
+  'editor.link': 'Lien (Ctrl+K)',
+  'editor.quote': 'Citation (Ctrl+Maj+.)',
+  'editor.bullet': 'Liste à puces (Ctrl+Maj+8)',
+  'editor.numbered': 'Liste numérotée (Ctrl+Maj+7)',
+  'editor.task': 'Liste de tâches (Ctrl+Maj+9)',
+  'editor.fileTooLarge': '{name} dépasse {size}.',
+  'editor.fileUnreadable': '{name} n’a pas pu être lu.',
+  'editor.aFile': 'Un fichier',
+  'editor.voiceNoteFailed': "La note vocale n'a pas pu être enregistrée.",
+  'editor.saving': 'Enregistrement…',
+  'editor.saved': 'Enregistré',
+  'editor.saveToDrive': 'Enregistrer sur Google Drive',
+  'editor.saveOnline': 'Enregistrer en ligne',
+  'editor.processingFiles': 'Traitement des fichiers…',
+  'editor.addImage': 'Ajouter une image',
+  'editor.photoSettings': 'Réglages photo',
+  'editor.attachFile': 'Joindre un fichier',
+  'editor.history': 'Historique',
+  'editor.download': "Télécharger l'entrée en .txt",
+  'editor.editMoodScale': "Modifier l'échelle d'humeur",
+  'editor.placeholder': 'Commencez à écrire… Le Markdown fonctionne : **gras**, *italique*, # titres, - listes, - [ ] tâches',
+  'editor.nothingToPreview': 'Rien à prévisualiser pour le moment.',
+  'editor.attachments': 'Pièces jointes',
+  'editor.attachment': 'Pièce jointe',
+  'editor.removeImage': "Retirer l'image",
+  'editor.fullScreen': 'Vue plein écran',
+  'editor.taken': 'Prise le {date}',
+  'editor.downloadPhoto': 'Télécharger la photo',
+
+  // Sheet view
+  'table.title': 'Tableau',
+  'table.otherAttachments': 'Notes vocales et fichiers',
+  'table.search': 'Rechercher… ex. plage mood:{mood} after:2025-06 -pluie',
+  'table.saveSmartFilter': 'Enregistrer comme filtre',
+  'table.allMoods': 'Toutes les humeurs',
+  'table.date': 'Date',
+  'table.mood': 'Humeur',
+  'table.entryTitle': 'Titre',
+  'table.preview': 'Aperçu du contenu',
+  'table.tags': 'Tags',
+  'table.media': 'Médias',
+  'table.actions': 'Actions',
+  'table.noMatch': 'Aucune entrée ne correspond à vos filtres.',
+  'table.untitled': 'Sans titre',
+  'table.showTag': 'Afficher les entrées avec le tag #{tag}',
+  'table.edit': 'Modifier',
+  'smartFilterDialog.title': 'Enregistrer le filtre',
+  'smartFilterDialog.body': "Il apparaîtra dans la barre latérale à côté des filtres d'humeur.",
+  'smartFilterDialog.name': 'Nom',
+
+  // Calendar
+  'calendar.title': 'Calendrier',
+  'calendar.previousMonth': 'Mois précédent',
+  'calendar.nextMonth': 'Mois suivant',
+  'calendar.today': "Aujourd'hui",
+  'calendar.newEntryOnDay': 'Nouvelle entrée ce jour-là',
+
+  // Insights
+  'insights.title': 'Statistiques',
+  'insights.range': { one: 'Dernier jour', other: '{count} derniers jours' },
+  'insights.empty': 'Écrivez quelques entrées pour voir des statistiques.',
+  'insights.currentStreak': 'Série actuelle',
+  'insights.longestStreak': 'Plus longue série',
+  'insights.streakEnded': 'terminée le {date}',
+  'insights.days': { one: '{count} jour', other: '{count} jours' },
+  'insights.entries': 'Entrées',
+  'insights.withMood': 'Avec une humeur',
+  'insights.moodOverTime': "Évolution de l'humeur",
+  'insights.daily': 'Par jour',
+  'insights.weeklyAverage': 'Moyenne sur 7 jours',
+  'insights.monthlyAverage': 'Moyenne sur 30 jours',
+  'insights.distribution': 'Répartition des humeurs',
+  'insights.byWeekday': 'Humeur par jour de la semaine',
+  'insights.wordsByMood': 'Mots par entrée selon l’humeur',
+  'insights.photosByMood': 'Photos par entrée selon l’humeur',
+  'insights.averagePhotos': '{value} photos',
+
+  // Trash
+  'trash.title': 'Corbeille',
+  'trash.deleteAfter': 'Supprimer après',
+  'trash.days': { one: '{count} jour', other: '{count} jours' },
+  'trash.empty': 'Vider la corbeille',
+  'trash.isEmpty': 'La corbeille est vide.',
+  'trash.deletedOn': 'Supprimée le {date}',
+  'trash.purgedNextLaunch': 'effacée au prochain lancement',
+  'trash.daysLeft': { one: '{count} jour restant', other: '{count} jours restants' },
+  'trash.restoreEntry': "Restaurer l'entrée",
+  'trash.deleteForever': 'Supprimer définitivement',
+
+  // History
+  'history.title': 'Historique',
+  'history.noVersions': 'Aucune version enregistrée pour le moment.',
+  'history.latest': 'Dernière · {words}',
+  'history.compareWith': 'Comparer avec',
+  'history.previousVersion': 'Version précédente',
+  'history.currentText': 'Texte actuel',
+  'history.restore': 'Restaurer cette version',
+  'history.noMood': 'aucune',
+  'history.moodChange': 'Humeur : {from} → {to}',
+  'history.attachmentChange': 'Pièces jointes : {from} → {to}',
+  'history.emptyText': '(vide)',
+
+  // Mood scale
+  'moodScale.title': "Échelle d'humeur",
+  'moodScale.intro': 'Le score classe les humeurs et sert aux moyennes des statistiques : plus il est élevé, mieux c’est.',
+  'moodScale.emoji': 'Emoji',
+  'moodScale.name': 'Nom',
+  'moodScale.score': 'Score',
+  'moodScale.remove': "Retirer l'humeur",
+  'moodScale.add': 'Ajouter une humeur',
+  'moodScale.default': 'Par défaut',
+  'moodScale.moves': {
+    one: '{count} entrée avec une humeur retirée passera à {mood}.',
+    other: '{count} entrées avec une humeur retirée passeront à {mood}.',
+  },
+  'moodScale.newMood': 'la nouvelle humeur',
+  'moodScale.tooFew': 'Gardez au moins deux humeurs.',
+  'moodScale.missingName': 'Chaque humeur doit avoir un nom.',
+  'moodScale.missingEmoji': 'Chaque humeur doit avoir un emoji.',
+  'moodScale.duplicateName': 'Deux humeurs portent le même nom.',
+  'moodScale.missingScore': 'Chaque humeur doit avoir un score numérique.',
+
+  // Tags
+  'tags.title': 'Tags',
+  'tags.intro': 'Renommer un tag met à jour toutes les entrées, y compris les #hashtags du texte. Renommez-le en un tag existant pour fusionner les deux.',
+  'tags.none': 'Aucun tag pour le moment.',
+  'tags.merge': 'Fusionner',
+  'tags.rename': 'Renommer',
+  'tags.mergesInto': 'Fusionne avec #{tag}',
+  'tags.renameTag': 'Renommer le tag',
+  'tags.remove': 'Retirer le tag',
+  'tags.fromHashtag': 'Vient d’un #hashtag du texte',
+  'tags.add': 'Ajouter un tag',
+
+  // Photo settings
+  'photoSettings.title': 'Réglages photo',
+  'photoSettings.intro': "S'applique aux photos ajoutées désormais. Des photos plus petites prennent moins de place sur cet appareil et dans Drive.",
+  'photoSettings.maxSize': 'Taille maximale',
+  'photoSettings.longestSide': '{size} px sur le plus grand côté',
+  'photoSettings.format': 'Format',
+  'photoSettings.quality': 'Qualité',
+  'photoSettings.keepDate': 'Conserver la date de prise de vue',
+  'photoSettings.privacy': "La position, les détails de l'appareil et les autres métadonnées sont toujours retirés.",
+
+  // Attachments
+  'attachment.notOnDevice': 'Note vocale pas encore sur cet appareil',
+  'attachment.file': 'Fichier',
+  'attachment.download': 'Télécharger',
+  'attachment.remove': 'Retirer',
+  'recorder.unsupported': "Ce navigateur ne peut pas enregistrer de l'audio.",
+  'recorder.noMicrophone': "Impossible d'utiliser le micro. Vérifiez que ZenJournal y est autorisé.",
+  'recorder.stop': "Arrêter l'enregistrement",
+  'recorder.record': 'Enregistrer une note vocale',
+
+  // Conflicts
+  'conflict.thisDevice': 'Cet appareil',
+  'conflict.otherDevice': 'Autre appareil',
+  'conflict.keepBoth': 'Garder les deux (cet appareil en premier)',
+  'conflict.removed': '(supprimé)',
+  'conflict.title': 'Modifiée sur un autre appareil',
+  'conflict.intro': 'Les modifications qui ne se chevauchent pas ont été fusionnées. Choisissez une version pour chaque passage surligné.',
+  'conflict.allMine': 'Tout garder ici',
+  'conflict.allTheirs': "Tout prendre de l'autre",
+  'conflict.entryTitle': 'Titre',
+  'conflict.mood': 'Humeur',
+  'conflict.text': 'Texte',
+  'conflict.apply': 'Appliquer',
+
+  // Entry date
+  'entryDate.change': 'Changer la date et l’heure',
+  'entryDate.writtenOn': 'Écrite le',
+  'entryDate.otherZone': 'Heures du fuseau {zone}, où cette entrée a été écrite.',
+  'entryDate.now': 'Maintenant',
+
+  // Search query errors
+  'query.missingQuote': 'Guillemet fermant manquant',
+  'query.unknownFilter': 'Filtre inconnu « {key}: ». Utilisez title:, body:, mood:, tag:, before:, after: ou has:',
+  'query.missingValue': '« {key}: » demande une valeur',
+  'query.cantExclude': '« {key}: » ne peut pas être exclu avec « - »',
+  'query.unknownMood': 'Humeur inconnue « {name} ». Utilisez {moods}',
+  'query.badTag': '« {value} » n’est pas un tag',
+  'query.badDate': '« {value} » n’est pas une date. Utilisez AAAA-MM-JJ, AAAA-MM ou AAAA',
+  'query.unknownHas': '« has:{value} » inconnu. Utilisez has:image, has:audio ou has:file',
+
+  // Default mood labels
+  'mood.great': 'Super',
+  'mood.good': 'Bien',
+  'mood.okay': 'Moyen',
+  'mood.bad': 'Mal',
+
+  // Settings
+  'settings.title': 'Paramètres',
+  'settings.appearance': 'Apparence',
+  'settings.theme.system': 'Comme le système',
+  'settings.theme.light': 'Clair',
+  'settings.theme.sepia': 'Sépia',
+  'settings.theme.dark': 'Sombre',
+  'settings.language': 'Langue',
+  'settings.languageAuto': 'Automatique (langue du navigateur)',
+  'settings.writing': 'Écriture',
+  'settings.textSize': 'Taille du texte',
+  'settings.fontSize.small': 'Petite',
+  'settings.fontSize.medium': 'Moyenne',
+  'settings.fontSize.large': 'Grande',
+  'settings.autosave': 'Enregistrement automatique',
+  'settings.autosaveHint': "Délai entre la fin de la frappe et l'enregistrement de l'entrée.",
+  'settings.autosaveAfter': { one: 'Après {count} seconde', other: 'Après {count} secondes' },
+  'settings.startView': "Ouvrir l'app sur",
+  'settings.trashRetention': 'Supprimer les entrées de la corbeille après',
+  'settings.view.editor': 'La liste',
+  'settings.view.table': 'Le tableau',
+  'settings.view.calendar': 'Le calendrier',
+  'settings.view.insights': 'Les statistiques',
+  'settings.dates': 'Dates',
+  'settings.timeZone': 'Fuseau horaire',
+  'settings.timeZoneHint': 'Détermine le jour de chaque entrée. Chaque entrée garde le fuseau où elle a été écrite.',
+  'settings.timeZoneAuto': 'Automatique ({zone})',
+  'settings.dateFormat': 'Format de date',
+  'settings.dateFormatAuto': 'Selon la langue',
+  'settings.clock': 'Horloge',
+  'settings.clock.auto': 'Automatique',
+  'settings.clock.12h': '12 heures',
+  'settings.clock.24h': '24 heures',
+  'settings.now': 'Maintenant :',
+  'settings.drive': 'Google Drive',
+  'settings.folderName': 'Nom du dossier',
+  'settings.folderHint': 'Le dossier de votre Drive qui contient le journal.',
+  'settings.folderChangedHint': 'Les entrées rejoignent ce dossier à leur prochain enregistrement. Une resynchronisation complète ne lit que ce dossier.',
+  'settings.syncOnFocus': "Synchroniser au retour dans l'app",
+  'settings.syncOnFocusHint': 'Chercher dans Drive les modifications des autres appareils quand vous revenez sur cette fenêtre.',
+  'settings.configureClientId': "Configurer l'ID client Google",
+
+  // Update prompt
+  'update.title': 'Une nouvelle version de ZenJournal est prête',
+  'update.body': "Rechargez pour l'utiliser. Vos entrées restent telles quelles.",
+  'update.later': 'Plus tard',
+  'update.reload': 'Recharger',
+};
@@ -0,0 +1,134 @@
+import { AttachmentKind, JournalAttachment, JournalEntry } from '../types';
+import { MAX_ATTACHMENT_BYTES } from '../constants';
+import { saveImageBlob, saveThumbnailBlob } from './storage';
+import { processImage } from './imageProcessing';
+import { t } from './i18n';
+
+// ==========================================
+// ATTACHMENTS
+// ==========================================
+// Entries carry photos, voice notes and other files in one list. Their bytes
+// all live in the local image store under the attachment id; photos are the
+// only kind shown as pictures (lists, calendar, grid).
+
+export const attachmentKind = (attachment: JournalAttachment): AttachmentKind => attachment.kind || 'image';
+
+export const isPhoto = (attachment: JournalAttachment) => attachmentKind(attachment) === 'image';
+
+/**
+ * The attachments of an entry shown as pictures
+ */
+export function entryPhotos(entry: JournalEntry): JournalAttachment[] {
+  return entry.images.filter(isPhoto);
+}
+
+/**
+ * How a file of this type is attached: pictures and sound play in the app,
+ * anything else is kept as a file to download
+ */
+export function kindForMimeType(mimeType: string): AttachmentKind {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return 'file';
+}
+
+// Subtypes whose usual extension differs from the subtype itself
+const EXTENSIONS: Record<string, string> = {
+  'image/svg+xml': 'svg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'application/pdf': 'pdf',
+  'text/plain': 'txt',
+  'text/markdown': 'md',
+};
+
+/**
+ * A MIME type without parameters ("audio/webm;codecs=opus" -> "audio/webm")
+ */
+export const baseMimeType = (mimeType: string) => mimeType.split(';')[0].trim().toLowerCase();
+
+/**
+ * File extension for an attachment, from its original name if it has one
+ */
+export function attachmentExtension(attachment: JournalAttachment): string {
+  const fromName = /\.([a-z0-9]{1,8})$/i.exec(attachment.name || '');
+  if (fromName) return fromName[1].toLowerCase();
+  const mimeType = baseMimeType(attachment.mimeType);
+  return EXTENSIONS[mimeType] || /^[\w-]+\/([a-z0-9]+)/i.exec(mimeType)?.[1] || 'bin';
+}
+
+/**
+ * Name to give an attachment when the user downloads it
+ */
+export function downloadName(attachment: JournalAttachment): string {
+  if (attachment.name) return attachment.name;
+  const prefix = attachmentKind(attachment) === 'audio' ? 'voice-note' : 'journal-photo';
+  return `${prefix}-${attachment.id}.${attachmentExtension(attachment)}`;
+}
+
+/**
+ * "2.4 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+}
+
+/**
+ * "1:05"
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+// ==========================================
+// STORING
+// ==========================================
+
+/**
+ * Store one file's bytes; the entry only keeps the returned reference.
+ * Photos are processed first (resized, re-encoded, metadata removed).
+ */
+export async function storeAttachment(file: File, id: string): Promise<JournalAttachment> {
+  const kind = kindForMimeType(file.type);
+  if (kind === 'image') {
+    const processed = await processImage(file);
+    const photo: JournalAttachment = { id, kind, mimeType: processed.blob.type, size: processed.blob.size };
+    if (processed.capturedAt) photo.capturedAt = processed.capturedAt;
+    await saveImageBlob(id, processed.blob);
+    if (processed.thumbnail) await saveThumbnailBlob(id, processed.thumbnail);
+    return photo;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(t('editor.fileTooLarge', { name: file.name, size: formatFileSize(MAX_ATTACHMENT_BYTES) }));
+  }
+  await saveImageBlob(id, file);
+  return { id, kind, mimeType: file.type || 'application/octet-stream', name: file.name, size: file.size };
+}
+
+/**
+ * Store files one at a time; the ones that fail don't stop the others and
+ * come back as messages to show together
+ */
+export async function storeAttachments(files: File[]): Promise<{ stored: JournalAttachment[], failures: string[] }> {
+  const stored: JournalAttachment[] = [];
+  const failures: string[] = [];
+  for (const file of files) {
+    try {
+      stored.push(await storeAttachment(file, crypto.randomUUID()));
+    } catch (err: any) {
+      console.warn('Could not attach file', file.name, err);
+      failures.push(err?.message?.endsWith('.') ? err.message : t('editor.fileUnreadable', { name: file.name || t('editor.aFile') }));
+    }
+  }
+  return { stored, failures };
+}
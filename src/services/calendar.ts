@@ -0,0 +1,45 @@
+import { currentTimeZone, zonedParts, zonedTime } from './dateTime';
+
+// ==========================================
+// CALENDAR
+// ==========================================
+// Month grids for the calendar view and the insights. Grid days are plain
+// calendar dates: Date objects at local midnight of which only the year, month
+// and day matter. Entries are placed on them by the day they were written in
+// their own zone (entryDayKey in dateTime.ts); "today" is the configured zone's.
+
+const DAYS_IN_GRID = 42; // Six weeks, so every month fits
+
+/**
+ * Key of a calendar day, as YYYY-MM-DD
+ */
+export function dayKey(day: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${day.getFullYear()}-${pad(day.getMonth() + 1)}-${pad(day.getDate())}`;
+}
+
+/**
+ * The calendar day it is now in a zone (the configured one by default)
+ */
+export function today(now = Date.now(), timeZone = currentTimeZone()): Date {
+  const { year, month, day } = zonedParts(now, timeZone);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Days shown for a month (0-based), from the Monday on or before the 1st
+ */
+export function monthGrid(year: number, month: number): Date[] {
+  const first = new Date(year, month, 1);
+  const offset = (first.getDay() + 6) % 7; // Monday = 0
+  return Array.from({ length: DAYS_IN_GRID }, (_, i) => new Date(year, month, 1 - offset + i));
+}
+
+/**
+ * A timestamp on the given day, at the current time of day in the configured
+ * zone, so a new entry for a past day still sorts naturally among that day's entries
+ */
+export function timeOnDay(day: Date, now = Date.now(), timeZone = currentTimeZone()): number {
+  const { hour, minute, second } = zonedParts(now, timeZone);
+  return zonedTime(day.getFullYear(), day.getMonth() + 1, day.getDate(), hour, minute, second, timeZone);
+}
@@ -0,0 +1,203 @@
+import { AppSettings, JournalEntry } from '../types';
+import { getSettings } from './settings';
+import { languageLocale } from './i18n';
+
+// ==========================================
+// TIMEZONE & LOCALE
+// ==========================================
+// Every date the app shows, groups or files by goes through here, so an entry
+// falls on the same day in the lists, the calendar, search and its Drive
+// folder. Entries remember the zone they were written in and are shown in it
+// (a trip's entries keep their local times); everything else uses the zone
+// from the settings, which by default follows the device.
+
+export type DateSettings = Pick<AppSettings, 'timeZone' | 'locale' | 'clock'>;
+
+// Offered in the settings; any valid tag stored by hand works too
+export const LOCALE_OPTIONS = ['en-GB', 'en-US', 'fr-FR', 'ar-MA', 'es-ES', 'de-DE', 'it-IT', 'pt-BR', 'nl-NL', 'ja-JP'];
+
+// Cached so React sees a stable value until the settings change
+let cachedSettings: DateSettings | null = null;
+let cachedSource: AppSettings | null = null;
+const validZones = new Map<string, boolean>();
+
+/**
+ * Whether the browser knows a zone (entries from other devices may name any)
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!validZones.has(timeZone)) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      validZones.set(timeZone, true);
+    } catch {
+      validZones.set(timeZone, false);
+    }
+  }
+  return validZones.get(timeZone)!;
+}
+
+const isValidLocale = (locale: string) => {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The date settings, with a zone this browser doesn't know left to the device and
+ * a locale it doesn't know (or none) left to the UI language
+ */
+export function getDateSettings(): DateSettings {
+  const settings = getSettings();
+  if (settings !== cachedSource || !cachedSettings) {
+    cachedSource = settings;
+    cachedSettings = {
+      timeZone: settings.timeZone && isValidTimeZone(settings.timeZone) ? settings.timeZone : '',
+      locale: settings.locale && isValidLocale(settings.locale) ? settings.locale : languageLocale(),
+      clock: settings.clock,
+    };
+  }
+  return cachedSettings;
+}
+
+export const deviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/**
+ * The zone dates are shown in: the configured one, else the device's
+ */
+export function currentTimeZone(): string {
+  return getDateSettings().timeZone || deviceTimeZone();
+}
+
+/**
+ * The zone an entry was written in, for entries that recorded a valid one
+ */
+export function entryTimeZone(entry: Pick<JournalEntry, 'timeZone'>): string {
+  return entry.timeZone && isValidTimeZone(entry.timeZone) ? entry.timeZone : currentTimeZone();
+}
+
+// ==========================================
+// FORMATTING
+// ==========================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatter = (options: Intl.DateTimeFormatOptions, timeZone: string | undefined, { locale, clock }: Omit<DateSettings, 'timeZone'> = getDateSettings()) => {
+  const key = `${locale}|${clock}|${timeZone}|${JSON.stringify(options)}`;
+  let cached = formatters.get(key);
+  if (!cached) {
+    const hour12 = clock === 'auto' ? undefined : clock === '12h';
+    cached = new Intl.DateTimeFormat(locale || undefined, { hour12, ...options, timeZone });
+    formatters.set(key, cached);
+  }
+  return cached;
+};
+
+/**
+ * A moment in the user's locale, in a zone (the configured one by default)
+ */
+export function formatDate(time: number, options: Intl.DateTimeFormatOptions, timeZone = currentTimeZone()): string {
+  return formatter(options, timeZone).format(time);
+}
+
+/**
+ * When an entry was written, in the zone it was written in
+ */
+export function formatEntryDate(entry: Pick<JournalEntry, 'createdAt' | 'timeZone'>, options: Intl.DateTimeFormatOptions): string {
+  return formatDate(entry.createdAt, options, entryTimeZone(entry));
+}
+
+/**
+ * A calendar day (a Date at local midnight, see calendar.ts) in the user's locale
+ */
+export function formatDay(day: Date, options: Intl.DateTimeFormatOptions): string {
+  return formatter(options, undefined).format(day);
+}
+
+// ==========================================
+// WALL-CLOCK TIME IN A ZONE
+// ==========================================
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Monday
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const PARTS_OPTIONS: Intl.DateTimeFormatOptions = {
+  year: 'numeric', month: 'numeric', day: 'numeric',
+  hour: 'numeric', minute: 'numeric', second: 'numeric', hourCycle: 'h23', weekday: 'short',
+};
+
+/**
+ * The date and time a clock in `timeZone` shows at `time`
+ */
+export function zonedParts(time: number, timeZone = currentTimeZone()): ZonedParts {
+  const parts = formatter(PARTS_OPTIONS, timeZone, { locale: 'en-US', clock: 'auto' }).formatToParts(time);
+  const value = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+  return {
+    year: Number(value('year')),
+    month: Number(value('month')),
+    day: Number(value('day')),
+    hour: Number(value('hour')) % 24,
+    minute: Number(value('minute')),
+    second: Number(value('second')),
+    weekday: WEEKDAYS.indexOf(value('weekday')),
+  };
+}
+
+/**
+ * The moment a clock in `timeZone` shows the given date and time
+ */
+export function zonedTime(year: number, month: number, day: number, hour = 0, minute = 0, second = 0, timeZone = currentTimeZone()): number {
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+  const offsetAt = (time: number) => {
+    const p = zonedParts(time, timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(time / 1000) * 1000;
+  };
+  // The offset at the first guess can be off by a DST change; a second pass settles it
+  const guess = wall - offsetAt(wall);
+  return wall - offsetAt(guess);
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+/**
+ * The day a moment falls on in a zone, as YYYY-MM-DD
+ */
+export function zonedDayKey(time: number, timeZone = currentTimeZone()): string {
+  const { year, month, day } = zonedParts(time, timeZone);
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * The day an entry was written (its Drive folder, calendar cell and search date)
+ */
+export function entryDayKey(entry: Pick<JournalEntry, 'createdAt' | 'timeZone'>): string {
+  return zonedDayKey(entry.createdAt, entryTimeZone(entry));
+}
+
+/**
+ * A moment as the value of a datetime-local input, to the minute
+ */
+export function toDateTimeInput(time: number, timeZone = currentTimeZone()): string {
+  const { hour, minute } = zonedParts(time, timeZone);
+  return `${zonedDayKey(time, timeZone)}T${pad(hour)}:${pad(minute)}`;
+}
+
+/**
+ * Read a datetime-local input value; null while it is incomplete
+ */
+export function fromDateTimeInput(value: string, timeZone = currentTimeZone()): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  const time = zonedTime(year, month, day, hour, minute, 0, timeZone);
+  return isNaN(time) ? null : time;
+}
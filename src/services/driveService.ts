@@ -1,11 +1,67 @@
 
-import { APP_FOLDER_NAME } from '../constants';
-import { JournalEntry, JournalImage, Mood } from '../types';
+import { EntryTombstone, JournalEntry, JournalAttachment, StoredMoodScale } from '../types';
+import { getImageBlob, saveImageBlob, hasImageBlob, getAllEntries, getAllSyncBases } from './storage';
+import { attachmentExtension, attachmentKind, baseMimeType, isPhoto, kindForMimeType } from './attachments';
+import { entryDayKey } from './dateTime';
+import { getSettings } from './settings';
+import { serializeEntry, parseEntryFile, entryFileName, isEntryMimeType, ENTRY_MIME_TYPE, ENTRY_MIME_QUERY, LEGACY_ENTRY_MIME_TYPE } from './entryFormat';
 
 const BASE_URL = 'https://www.googleapis.com/drive/v3';
 const UPLOAD_URL = 'https://www.googleapis.com/upload/drive/v3';
 
 export const AUTH_ERROR_MSG = 'UNAUTHENTICATED';
+export const NOT_FOUND_MSG = 'NOT_FOUND';
+
+const TOMBSTONE_FOLDER_NAME = 'tombstones';
+const TOMBSTONE_MIME_TYPE = 'application/json';
+const MOOD_SCALE_FILE_NAME = 'mood-scale.json';
+
+// ==================================================================
+// ATTACHMENT FILE INDEX
+// ==================================================================
+// A change for a file deleted for good carries only its Drive ID, not the
+// entry it belonged to. So this device remembers the entry and attachment
+// behind every attachment file it uploads or downloads.
+
+const ATTACHMENT_FILES_KEY = 'zenjournal_drive_attachment_files';
+
+interface AttachmentFileRef {
+  entryId: string;
+  attachmentId: string;
+}
+
+let attachmentFiles: Record<string, AttachmentFileRef> | null = null; // Drive file ID -> attachment
+
+function getAttachmentFiles(): Record<string, AttachmentFileRef> {
+  if (!attachmentFiles) {
+    try {
+      attachmentFiles = JSON.parse(localStorage.getItem(ATTACHMENT_FILES_KEY) || '{}') || {};
+    } catch {
+      attachmentFiles = {};
+    }
+  }
+  return attachmentFiles!;
+}
+
+function rememberAttachmentFiles(refs: Array<AttachmentFileRef & { fileId: string }>) {
+  if (refs.length === 0) return;
+  const index = getAttachmentFiles();
+  for (const { fileId, entryId, attachmentId } of refs) index[fileId] = { entryId, attachmentId };
+  localStorage.setItem(ATTACHMENT_FILES_KEY, JSON.stringify(index));
+}
+
+/**
+ * The attachment a Drive file held, forgotten since the file is gone
+ */
+function takeAttachmentFile(fileId: string): AttachmentFileRef | undefined {
+  const index = getAttachmentFiles();
+  const ref = index[fileId];
+  if (ref) {
+    delete index[fileId];
+    localStorage.setItem(ATTACHMENT_FILES_KEY, JSON.stringify(index));
+  }
+  return ref;
+}
 
 /**
  * Helper to make authorized fetch requests
@@ -23,6 +79,9 @@ async function driveFetch(endpoint: string, accessToken: string, options: Reques
     if (response.status === 401 || response.status === 403) {
       throw new Error(AUTH_ERROR_MSG);
     }
+    if (response.status === 404) {
+      throw new Error(NOT_FOUND_MSG);
+    }
     const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
     throw new Error(error.error?.message || 'Drive API Error');
   }
@@ -69,110 +128,123 @@ async function createFolder(name: string, parentId: string | null, accessToken:
 }
 
 /**
- * Save an image file
+ * Drive filename of an attachment. Photos keep the original "image-{id}.{ext}"
+ * scheme; files keep their own name after the id so Drive stays browsable.
+ */
+function attachmentFileName(attachment: JournalAttachment): string {
+  switch (attachmentKind(attachment)) {
+    case 'image': return `image-${attachment.id}.${attachment.mimeType.split('/')[1] || 'png'}`;
+    case 'audio': return `voice-${attachment.id}.${attachmentExtension(attachment)}`;
+    case 'file': {
+      const safeName = (attachment.name || '').replace(/[/\\?%*:|"<>\x00-\x1F]/g, '_').trim();
+      return `file-${attachment.id}-${safeName || `attachment.${attachmentExtension(attachment)}`}`;
+    }
+  }
+}
+
+/**
+ * MIME type to store an attachment under. Attached text or Markdown files must
+ * not look like entry files, which are found by their type.
+ */
+function attachmentDriveMimeType(attachment: JournalAttachment): string {
+  const mimeType = baseMimeType(attachment.mimeType);
+  if (!mimeType || isEntryMimeType(mimeType) || mimeType === FOLDER_MIME) return 'application/octet-stream';
+  return mimeType;
+}
+
+/**
+ * Save an attachment file (photo, voice note or other file)
  */
-async function saveImageFile(image: JournalImage, parentId: string, entryId: string, accessToken: string) {
-  const ext = image.mimeType.split('/')[1] || 'png';
-  const filename = `image-${image.id}.${ext}`;
+async function saveAttachmentFile(attachment: JournalAttachment, parentId: string, entryId: string, accessToken: string) {
+  const filename = attachmentFileName(attachment);
+  const mimeType = attachmentDriveMimeType(attachment);
   
   // Check if already exists
   const existing = await findByName(filename, parentId, "mimeType != 'application/vnd.google-apps.folder'", accessToken);
-  if (existing) return; // Skip if exists
-
-  // Convert Base64 to Blob for upload
-  const base64Data = image.data.split(',')[1];
-  const byteCharacters = atob(base64Data);
-  const byteNumbers = new Array(byteCharacters.length);
-  for (let i = 0; i < byteCharacters.length; i++) {
-    byteNumbers[i] = byteCharacters.charCodeAt(i);
+  if (existing) {
+    rememberAttachmentFiles([{ fileId: existing.id, entryId, attachmentId: attachment.id }]);
+    return; // Skip if exists
   }
-  const byteArray = new Uint8Array(byteNumbers);
-  const blob = new Blob([byteArray], { type: image.mimeType });
 
-  // 1. Create Metadata with entryId property for linking
+  // Bytes come from the local image store; nothing to upload if they never reached this device
+  const blob = await getImageBlob(attachment.id);
+  if (!blob) return;
+
+  // 1. Create Metadata with entryId property for linking (and the id, which a file's name doesn't give back reliably)
   const metaRes = await driveFetch(`${BASE_URL}/files`, accessToken, {
     method: 'POST',
     body: JSON.stringify({
       name: filename,
       parents: [parentId],
-      mimeType: image.mimeType,
-      appProperties: { entryId }
+      mimeType,
+      appProperties: { entryId, attachmentId: attachment.id }
     }),
   });
   const fileData = await metaRes.json();
+  rememberAttachmentFiles([{ fileId: fileData.id, entryId, attachmentId: attachment.id }]);
 
   // 2. Upload Content
-  await fetch(`${UPLOAD_URL}/files/${fileData.id}?uploadType=media`, {
+  await driveFetch(`${UPLOAD_URL}/files/${fileData.id}?uploadType=media`, accessToken, {
     method: 'PATCH',
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': image.mimeType,
-    },
+    headers: { 'Content-Type': mimeType },
     body: blob,
   });
 }
 
 /**
- * Get or Create Root Folder "ZenJournal"
+ * Get or Create the Root Folder (named in the settings, "ZenJournal" by default)
  */
 export async function getAppFolderId(accessToken: string): Promise<string> {
-  let root = await findByName(APP_FOLDER_NAME, null, "mimeType = 'application/vnd.google-apps.folder'", accessToken);
+  const folderName = getSettings().driveFolderName;
+  let root = await findByName(folderName, null, "mimeType = 'application/vnd.google-apps.folder'", accessToken);
   if (!root) {
-    const id = await createFolder(APP_FOLDER_NAME, null, accessToken);
+    const id = await createFolder(folderName, null, accessToken);
     return id;
   }
   return root.id;
 }
 
+/**
+ * Get or Create the Date Folder (YYYY-MM-DD) an entry belongs in
+ */
+async function getDateFolderId(entry: JournalEntry, rootId: string, accessToken: string): Promise<string> {
+  const dateFolderName = entryDayKey(entry);
+  const dateFolder = await findByName(dateFolderName, rootId, "mimeType = 'application/vnd.google-apps.folder'", accessToken);
+  if (dateFolder) return dateFolder.id;
+  return await createFolder(dateFolderName, rootId, accessToken);
+}
+
 /**
  * MAIN SYNC TO DRIVE
+ * Writes the entry's text file. Attachments are uploaded separately by syncAttachmentToDrive.
+ * Returns the text file as written (ID and modifiedTime), or null when nothing was written.
+ * Throws on failure so the outbox can retry.
  */
-export async function syncEntryToDrive(entry: JournalEntry, accessToken: string) {
+export async function syncEntryToDrive(entry: JournalEntry, accessToken: string): Promise<{ id: string, modifiedTime: string } | null> {
   try {
     // 1. Get or Create Root Folder "ZenJournal"
     const rootId = await getAppFolderId(accessToken);
 
-    // 2. Get Date Name (YYYY-MM-DD)
-    const date = new Date(entry.createdAt);
-    const dateFolderName = date.toISOString().split('T')[0]; 
-
-    // 3. Get or Create Date Folder
-    let dateFolder = await findByName(dateFolderName, rootId, "mimeType = 'application/vnd.google-apps.folder'", accessToken);
-    let dateFolderId = dateFolder ? dateFolder.id : null;
-    
-    if (!dateFolderId) {
-      dateFolderId = await createFolder(dateFolderName, rootId, accessToken);
-    }
+    // 2-3. Get or Create Date Folder
+    const dateFolderId = await getDateFolderId(entry, rootId, accessToken);
 
-    // 4. Prepare Content & Filename
-    const moodStr = entry.mood ? `Mood: ${entry.mood}\n` : '';
-    // We embed image IDs in the text file as comments or metadata
-    const imageMeta = entry.images.length > 0 
-        ? `\n\n---\nattachments: ${entry.images.map(i => i.id).join(',')}` 
-        : '';
-        
-    const fileContent = `Title: ${entry.title}\nDate: ${date.toLocaleString()}\n${moodStr}\n${entry.content}${imageMeta}`;
+    // 4. Prepare Content & Filename (always written in the current format)
+    const fileContent = serializeEntry(entry);
     
-    // Determine Filename
     // Priority: User's manually chosen name -> Title-based name -> Untitled
-    const safeTitle = entry.title.replace(/[/\\?%*:|"<>\x00-\x1F]/g, '_').trim() || 'Untitled';
-    let desiredFileName = entry.driveFileName || `${safeTitle}.txt`;
-    
-    // Ensure extension
-    if (!desiredFileName.toLowerCase().endsWith('.txt')) {
-        desiredFileName += '.txt';
-    }
+    const desiredFileName = entryFileName(entry);
+    const legacyFileName = desiredFileName.replace(/\.md$/i, '.txt');
 
     // 5. Find existing file to update
     // We need to find the file wherever it is (Date folder OR Root folder for legacy rescue)
     
-    let foundFile: { id: string, name: string, parents: string[] } | null = null;
+    let foundFile: { id: string, name: string, parents: string[], trashed?: boolean } | null = null;
 
     // Helper to search for the file in a specific folder using multiple strategies
     const searchInFolder = async (folderId: string) => {
-        // A. Custom Property (Best)
-        const qProp = `appProperties has { key='entryId' and value='${entry.id}' } and '${folderId}' in parents and trashed = false`;
-        const resProp = await driveFetch(`${BASE_URL}/files?q=${encodeURIComponent(qProp)}&fields=files(id,name,parents)`, accessToken);
+        // A. Custom Property (Best). Includes Drive's trash so a restored entry gets its file back.
+        const qProp = `appProperties has { key='entryId' and value='${entry.id}' } and '${folderId}' in parents and ${ENTRY_MIME_QUERY}`;
+        const resProp = await driveFetch(`${BASE_URL}/files?q=${encodeURIComponent(qProp)}&fields=files(id,name,parents,trashed)`, accessToken);
         const dataProp = await resProp.json();
         if (dataProp.files && dataProp.files.length > 0) return dataProp.files[0];
 
@@ -189,20 +261,22 @@ export async function syncEntryToDrive(entry: JournalEntry, accessToken: string)
         // C. Name Match (Legacy / Fallback)
         // If we have a specific driveFileName, check that first
         if (entry.driveFileName) {
-            const f = await findByName(entry.driveFileName, folderId, "mimeType = 'text/plain'", accessToken);
+            const f = await findByName(entry.driveFileName, folderId, ENTRY_MIME_QUERY, accessToken);
             if (f) return f;
         }
 
-        // 1. Desired Name (derived from title if no driveFileName)
-        let f = await findByName(desiredFileName, folderId, "mimeType = 'text/plain'", accessToken);
+        // 1. Desired Name (derived from title if no driveFileName), new or legacy extension
+        let f = await findByName(desiredFileName, folderId, ENTRY_MIME_QUERY, accessToken);
+        if (f) return f;
+        f = await findByName(legacyFileName, folderId, ENTRY_MIME_QUERY, accessToken);
         if (f) return f;
         
         // 2. entry-{id}.txt
-        f = await findByName(`entry-${entry.id}.txt`, folderId, "mimeType = 'text/plain'", accessToken);
+        f = await findByName(`entry-${entry.id}.txt`, folderId, ENTRY_MIME_QUERY, accessToken);
         if (f) return f;
 
         // 3. notes.txt (Very old legacy)
-        f = await findByName(`notes.txt`, folderId, "mimeType = 'text/plain'", accessToken);
+        f = await findByName(`notes.txt`, folderId, ENTRY_MIME_QUERY, accessToken);
         if (f) return f;
 
         return null;
@@ -216,138 +290,398 @@ export async function syncEntryToDrive(entry: JournalEntry, accessToken: string)
         foundFile = await searchInFolder(rootId);
     }
 
+    // Step 5c: Still not found: the entry's date changed, so its file is in another date folder
+    if (!foundFile) {
+        const qMoved = `appProperties has { key='entryId' and value='${entry.id}' } and ${ENTRY_MIME_QUERY}`;
+        const resMoved = await driveFetch(`${BASE_URL}/files?q=${encodeURIComponent(qMoved)}&fields=files(id,name,parents,trashed)`, accessToken);
+        const dataMoved = await resMoved.json();
+        if (dataMoved.files && dataMoved.files.length > 0) foundFile = dataMoved.files[0];
+    }
+
     // 6. Update, Rename, Move
     if (foundFile) {
         const fileId = foundFile.id;
         
-        // MOVE if needed
+        // MOVE if needed. Attachments go first: if the sync stops halfway, the
+        // text file is still out of place and the next attempt moves the rest.
         if (!foundFile.parents.includes(dateFolderId)) {
+             const oldFolderIds = await moveEntryAttachments(entry, dateFolderId, accessToken);
              const prevParents = foundFile.parents.join(',');
              await driveFetch(`${BASE_URL}/files/${fileId}?addParents=${dateFolderId}&removeParents=${prevParents}`, accessToken, {
                  method: 'PATCH'
              });
+             // Attachment folders before the date folders holding them
+             for (const folderId of oldFolderIds) await deleteFolderIfEmpty(folderId, accessToken);
+             for (const folderId of foundFile.parents) {
+                 if (folderId !== rootId) await deleteDateFolderIfEmpty(folderId, accessToken);
+             }
         }
 
+        // Restoring: images come back before the text does, so other devices never see it without them
+        const isTrashed = !!entry.deletedAt;
+        if (!isTrashed && foundFile.trashed) await setEntryImagesTrashed(entry.id, false, accessToken);
+
         // UPDATE Content
         await driveFetch(`${UPLOAD_URL}/files/${fileId}?uploadType=media`, accessToken, {
             method: 'PATCH',
-            headers: { 'Content-Type': 'text/plain' },
+            headers: { 'Content-Type': ENTRY_MIME_TYPE },
             body: fileContent,
         });
 
-        // RENAME & SET PROPERTY
-        // We enforce the name matches desiredFileName
-        if (foundFile.name !== desiredFileName) {
-             await driveFetch(`${BASE_URL}/files/${fileId}`, accessToken, {
-                method: 'PATCH',
-                body: JSON.stringify({ 
-                    name: desiredFileName,
-                    appProperties: { entryId: entry.id } 
-                }),
-             });
-        } else {
-             // Ensure property is set even if name didn't change
-             await driveFetch(`${BASE_URL}/files/${fileId}`, accessToken, {
-                method: 'PATCH',
-                body: JSON.stringify({ 
-                    appProperties: { entryId: entry.id } 
-                }),
-             });
-        }
+        // RENAME, SET PROPERTY & TRASH STATE
+        // We enforce the name matches desiredFileName (this also upgrades legacy .txt files).
+        // Entries in the app's trash live in Drive's trash; "trashedAt" tells other devices it was ours.
+        const updatedRes = await driveFetch(`${BASE_URL}/files/${fileId}?fields=id,modifiedTime`, accessToken, {
+            method: 'PATCH',
+            body: JSON.stringify({ 
+                ...(foundFile.name !== desiredFileName ? { name: desiredFileName } : {}),
+                mimeType: ENTRY_MIME_TYPE,
+                trashed: isTrashed,
+                appProperties: { entryId: entry.id, trashedAt: isTrashed ? String(entry.deletedAt) : null } 
+            }),
+        });
+        const written = await updatedRes.json();
+
+        if (isTrashed && !foundFile.trashed) await setEntryImagesTrashed(entry.id, true, accessToken);
+        return written;
     } else {
+        // Trashed before it ever reached Drive: nothing to upload
+        if (entry.deletedAt) return null;
+
+        // Never recreate an entry another device has deleted
+        if (await findTombstone(entry.id, accessToken)) {
+            console.warn("Entry was deleted on another device, not re-uploading", entry.id);
+            return null;
+        }
+
         // CREATE new file
         const metaRes = await driveFetch(`${BASE_URL}/files`, accessToken, {
             method: 'POST',
             body: JSON.stringify({
                 name: desiredFileName,
                 parents: [dateFolderId],
-                mimeType: 'text/plain',
+                mimeType: ENTRY_MIME_TYPE,
                 appProperties: { entryId: entry.id } // Store ID for stable tracking
             }),
         });
         const fileData = await metaRes.json();
         
         // Upload Content
-        await driveFetch(`${UPLOAD_URL}/files/${fileData.id}?uploadType=media`, accessToken, {
+        const uploadRes = await driveFetch(`${UPLOAD_URL}/files/${fileData.id}?uploadType=media&fields=id,modifiedTime`, accessToken, {
             method: 'PATCH',
-            headers: { 'Content-Type': 'text/plain' },
+            headers: { 'Content-Type': ENTRY_MIME_TYPE },
             body: fileContent,
         });
+        return await uploadRes.json();
     }
-
-    // 7. Save Images
-    if (entry.images && entry.images.length > 0) {
-      let imagesFolder = await findByName('images', dateFolderId, "mimeType = 'application/vnd.google-apps.folder'", accessToken);
-      let imagesFolderId = imagesFolder ? imagesFolder.id : null;
-      
-      if (!imagesFolderId) {
-        imagesFolderId = await createFolder('images', dateFolderId, accessToken);
-      }
-      
-      for (const img of entry.images) {
-        await saveImageFile(img, imagesFolderId, entry.id, accessToken);
-      }
-    }
-
-    return true;
   } catch (error: any) {
     console.error("Drive Sync Error:", error);
-    if (error.message === AUTH_ERROR_MSG) throw error;
+    throw error;
   }
 }
 
 /**
- * Delete Entry from Drive
+ * Drive subfolder of a date folder holding an attachment
+ */
+const attachmentFolderName = (attachment: JournalAttachment) => (isPhoto(attachment) ? 'images' : 'attachments');
+
+/**
+ * Get or Create a subfolder ("images", "attachments") of a date folder
+ */
+async function getSubfolderId(name: string, dateFolderId: string, accessToken: string): Promise<string> {
+  const folder = await findByName(name, dateFolderId, "mimeType = 'application/vnd.google-apps.folder'", accessToken);
+  if (folder) return folder.id;
+  return await createFolder(name, dateFolderId, accessToken);
+}
+
+/**
+ * Move an entry's attachments (trashed ones included) under a new date folder.
+ * Returns the folders they were moved out of.
  */
-export async function deleteEntryFromDrive(entry: JournalEntry, accessToken: string) {
+async function moveEntryAttachments(entry: JournalEntry, dateFolderId: string, accessToken: string): Promise<string[]> {
+  const known = new Map(entry.images.map(att => [att.id, att]));
+  const targets = new Map<string, string>(); // Subfolder name -> id
+  const oldFolderIds = new Set<string>();
+
+  for (const file of await listEntryImageFiles(entry.id, accessToken, true)) {
+    const attachment = known.get(attachmentIdFromFile(file)) || { id: file.id, kind: kindForMimeType(file.mimeType), mimeType: file.mimeType };
+    const name = attachmentFolderName(attachment);
+    if (!targets.has(name)) targets.set(name, await getSubfolderId(name, dateFolderId, accessToken));
+    const targetId = targets.get(name)!;
+
+    const parents: string[] = file.parents || [];
+    if (parents.includes(targetId)) continue;
+    await driveFetch(`${BASE_URL}/files/${file.id}?addParents=${targetId}${parents.length > 0 ? `&removeParents=${parents.join(',')}` : ''}`, accessToken, {
+      method: 'PATCH'
+    });
+    parents.forEach(p => oldFolderIds.add(p));
+  }
+  return [...oldFolderIds];
+}
+
+/**
+ * Permanently delete a folder that holds nothing anymore. Trashed files count
+ * as contents: deleting the folder would delete them for good.
+ */
+async function deleteFolderIfEmpty(folderId: string, accessToken: string) {
+  const q = `'${folderId}' in parents`;
+  const res = await driveFetch(`${BASE_URL}/files?q=${encodeURIComponent(q)}&fields=files(id)&pageSize=1`, accessToken);
+  const data = await res.json();
+  if (!data.files || data.files.length === 0) await deleteDriveFile(folderId, accessToken);
+}
+
+/**
+ * Delete a date folder left with nothing but empty attachment subfolders
+ */
+async function deleteDateFolderIfEmpty(dateFolderId: string, accessToken: string) {
+  for (const name of ['images', 'attachments']) {
+    const folder = await findByName(name, dateFolderId, "mimeType = 'application/vnd.google-apps.folder'", accessToken);
+    if (folder) await deleteFolderIfEmpty(folder.id, accessToken);
+  }
+  await deleteFolderIfEmpty(dateFolderId, accessToken);
+}
+
+/**
+ * Move an entry's images into or out of Drive's trash
+ */
+async function setEntryImagesTrashed(entryId: string, trashed: boolean, accessToken: string) {
+  for (const img of await listEntryImageFiles(entryId, accessToken, true)) {
+    await driveFetch(`${BASE_URL}/files/${img.id}`, accessToken, {
+      method: 'PATCH',
+      body: JSON.stringify({ trashed }),
+    });
+  }
+}
+
+/**
+ * Upload one attachment of an entry into its date folder's "images" subfolder
+ * (photos) or "attachments" subfolder (voice notes and files)
+ */
+export async function syncAttachmentToDrive(entry: JournalEntry, attachment: JournalAttachment, accessToken: string) {
+  const rootId = await getAppFolderId(accessToken);
+  const dateFolderId = await getDateFolderId(entry, rootId, accessToken);
+  const folderId = await getSubfolderId(attachmentFolderName(attachment), dateFolderId, accessToken);
+  await saveAttachmentFile(attachment, folderId, entry.id, accessToken);
+}
+
+/**
+ * Permanently delete a file; already-gone files count as deleted
+ */
+async function deleteDriveFile(fileId: string, accessToken: string) {
     try {
-        // 1. Try by Property
-        const qProp = `appProperties has { key='entryId' and value='${entry.id}' } and trashed = false`;
-        const res = await driveFetch(`${BASE_URL}/files?q=${encodeURIComponent(qProp)}&fields=files(id)`, accessToken);
-        const data = await res.json();
-
-        if (data.files && data.files.length > 0) {
-             await driveFetch(`${BASE_URL}/files/${data.files[0].id}`, accessToken, { method: 'DELETE' });
-             return;
-        }
+        await driveFetch(`${BASE_URL}/files/${fileId}`, accessToken, { method: 'DELETE' });
+    } catch (error: any) {
+        if (error.message !== NOT_FOUND_MSG) throw error;
+    }
+}
+
+/**
+ * Find the text file of an entry that is about to be deleted
+ */
+async function findEntryFileForDelete(entry: JournalEntry, rootId: string, accessToken: string): Promise<string | null> {
+    // 1. Try by Property (entries purged from the app's trash are in Drive's trash)
+    const qProp = `appProperties has { key='entryId' and value='${entry.id}' } and ${ENTRY_MIME_QUERY}`;
+    const res = await driveFetch(`${BASE_URL}/files?q=${encodeURIComponent(qProp)}&fields=files(id)`, accessToken);
+    const data = await res.json();
+    if (data.files && data.files.length > 0) return data.files[0].id;
+    
+    // 2. Try by ID (if entry.id is the file ID)
+    const isDriveId = entry.id.length > 15 && isNaN(Number(entry.id));
+    if (isDriveId) return entry.id;
+
+    // 3. Try by Name (Fallback) - in Date Folder, and the UTC-dated folder older versions filed under
+    const dateFolderNames = [...new Set([entryDayKey(entry), new Date(entry.createdAt).toISOString().split('T')[0]])];
+    for (const dateFolderName of dateFolderNames) {
+        const dateFolder = await findByName(dateFolderName, rootId, "mimeType = 'application/vnd.google-apps.folder'", accessToken);
+        if (!dateFolder) continue;
+
+        const fileName = entryFileName(entry);
+        const namesToCheck = [
+            entry.driveFileName,
+            fileName,
+            fileName.replace(/\.md$/i, '.txt'),
+            `entry-${entry.id}.txt`, 
+            'notes.txt'
+        ].filter(Boolean) as string[];
         
-        // 2. Try by ID (if entry.id is the file ID)
-        const isDriveId = entry.id.length > 15 && isNaN(Number(entry.id));
-        if (isDriveId) {
-            await driveFetch(`${BASE_URL}/files/${entry.id}`, accessToken, { method: 'DELETE' });
-            return;
+        for (const name of namesToCheck) {
+            const file = await findByName(name, dateFolder.id, ENTRY_MIME_QUERY, accessToken);
+            if (file) return file.id;
         }
+    }
+    return null;
+}
 
-        // 3. Try by Name (Fallback) - in Date Folder
+/**
+ * Get or Create the folder holding deletion tombstones
+ */
+async function getTombstoneFolderId(rootId: string, accessToken: string): Promise<string> {
+    const folder = await findByName(TOMBSTONE_FOLDER_NAME, rootId, "mimeType = 'application/vnd.google-apps.folder'", accessToken);
+    if (folder) return folder.id;
+    return await createFolder(TOMBSTONE_FOLDER_NAME, rootId, accessToken);
+}
+
+/**
+ * Leave a tombstone file so other devices drop the entry instead of keeping
+ * (or re-uploading) it. Uses a "tombstoneFor" property rather than "entryId"
+ * so image and entry queries never pick it up.
+ */
+async function writeTombstone(tombstone: EntryTombstone, rootId: string, accessToken: string) {
+    if (await findTombstone(tombstone.id, accessToken)) return;
+
+    const folderId = await getTombstoneFolderId(rootId, accessToken);
+    await driveFetch(`${BASE_URL}/files`, accessToken, {
+        method: 'POST',
+        body: JSON.stringify({
+            name: `tombstone-${tombstone.id}.json`,
+            parents: [folderId],
+            mimeType: TOMBSTONE_MIME_TYPE,
+            appProperties: { tombstoneFor: tombstone.id, deletedAt: String(tombstone.deletedAt) },
+        }),
+    });
+}
+
+async function findTombstone(entryId: string, accessToken: string): Promise<boolean> {
+    const q = `appProperties has { key='tombstoneFor' and value='${entryId}' } and trashed = false`;
+    const res = await driveFetch(`${BASE_URL}/files?q=${encodeURIComponent(q)}&fields=files(id)`, accessToken);
+    const data = await res.json();
+    return !!(data.files && data.files.length > 0);
+}
+
+function tombstoneFromFile(file: any): EntryTombstone {
+    const deletedAt = Number(file.appProperties?.deletedAt);
+    return {
+        id: file.appProperties.tombstoneFor,
+        deletedAt: isNaN(deletedAt) ? new Date(file.modifiedTime || Date.now()).getTime() : deletedAt,
+    };
+}
+
+/**
+ * Delete Entry from Drive
+ * Records a tombstone, removes the text file, then cleans up the entry's images
+ * (and the images folder if that leaves it empty). Safe to repeat.
+ * Throws on failure so the outbox can retry.
+ */
+export async function deleteEntryFromDrive(entry: JournalEntry, accessToken: string, deletedAt: number = Date.now()) {
+    try {
         const rootId = await getAppFolderId(accessToken);
-        const date = new Date(entry.createdAt);
-        const dateFolderName = date.toISOString().split('T')[0];
-        const dateFolder = await findByName(dateFolderName, rootId, "mimeType = 'application/vnd.google-apps.folder'", accessToken);
 
-        if (dateFolder) {
-            const safeTitle = entry.title.replace(/[/\\?%*:|"<>\x00-\x1F]/g, '_').trim() || 'Untitled';
-            const namesToCheck = [
-                entry.driveFileName,
-                `${safeTitle}.txt`, 
-                `entry-${entry.id}.txt`, 
-                'notes.txt'
-            ].filter(Boolean) as string[];
-            
-            for (const name of namesToCheck) {
-                const file = await findByName(name, dateFolder.id, "mimeType = 'text/plain'", accessToken);
-                if (file) {
-                     await driveFetch(`${BASE_URL}/files/${file.id}`, accessToken, { method: 'DELETE' });
-                     return;
-                }
-            }
+        // 1. Tombstone first: if the rest fails, other devices still drop the entry
+        await writeTombstone({ id: entry.id, deletedAt }, rootId, accessToken);
+
+        // 2. Text file
+        const fileId = await findEntryFileForDelete(entry, rootId, accessToken);
+        if (fileId) await deleteDriveFile(fileId, accessToken);
+
+        // 3. Orphaned images
+        const imageFiles = await listEntryImageFiles(entry.id, accessToken, true);
+        const imageFolderIds = new Set<string>();
+        for (const img of imageFiles) {
+            (img.parents || []).forEach((p: string) => imageFolderIds.add(p));
+            await deleteDriveFile(img.id, accessToken);
+        }
+
+        for (const folderId of imageFolderIds) {
+            await deleteFolderIfEmpty(folderId, accessToken);
         }
 
     } catch (error: any) {
-         if (error.message === AUTH_ERROR_MSG) throw error;
          console.error("Delete error", error);
+         throw error;
     }
 }
 
+/**
+ * List every deletion tombstone in Drive (used by full rescans)
+ */
+export async function fetchTombstonesFromDrive(accessToken: string): Promise<EntryTombstone[]> {
+    const rootId = await getAppFolderId(accessToken);
+    const folder = await findByName(TOMBSTONE_FOLDER_NAME, rootId, "mimeType = 'application/vnd.google-apps.folder'", accessToken);
+    if (!folder) return [];
+
+    let files: any[] = [];
+    let pageToken: string | null = null;
+    const q = `'${folder.id}' in parents and trashed = false`;
+
+    do {
+        const res: Response = await driveFetch(
+            `${BASE_URL}/files?q=${encodeURIComponent(q)}&fields=nextPageToken,files(id,modifiedTime,appProperties)&pageSize=100${pageToken ? `&pageToken=${pageToken}` : ''}`,
+            accessToken
+        );
+        const data: any = await res.json();
+        if (data.files) files = [...files, ...data.files];
+        pageToken = data.nextPageToken;
+    } while (pageToken);
+
+    return files.filter(f => f.appProperties?.tombstoneFor).map(tombstoneFromFile);
+}
+
+// ==================================================================
+// SHARED MOOD SCALE
+// ==================================================================
+// Entries only carry their mood's level id, so every device needs the same
+// scale to show and score them. It lives in a JSON file in the app folder,
+// marked with a "moodScale" property.
+
+const MOOD_SCALE_QUERY = `appProperties has { key='moodScale' and value='true' }`;
+
+const isMoodScaleFile = (file: any) => file?.appProperties?.moodScale === 'true';
+
+async function findMoodScaleFile(rootId: string, accessToken: string): Promise<any | null> {
+    const q = `${MOOD_SCALE_QUERY} and '${rootId}' in parents and trashed = false`;
+    const res = await driveFetch(`${BASE_URL}/files?q=${encodeURIComponent(q)}&fields=files(id,modifiedTime)`, accessToken);
+    const data = await res.json();
+    return data.files && data.files.length > 0 ? data.files[0] : null;
+}
+
+async function downloadMoodScale(fileId: string, accessToken: string): Promise<StoredMoodScale | null> {
+    try {
+        const data = JSON.parse(await downloadText(fileId, accessToken));
+        return Array.isArray(data?.levels) && typeof data.savedAt === 'number' ? data : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The mood scale shared in Drive, if a device has saved one
+ */
+export async function fetchMoodScaleFromDrive(accessToken: string): Promise<StoredMoodScale | null> {
+    const rootId = await getAppFolderId(accessToken);
+    const file = await findMoodScaleFile(rootId, accessToken);
+    return file ? await downloadMoodScale(file.id, accessToken) : null;
+}
+
+/**
+ * Share this device's mood scale, unless Drive already has a newer one.
+ * Returns the scale Drive holds afterwards.
+ */
+export async function saveMoodScaleToDrive(scale: StoredMoodScale, accessToken: string): Promise<StoredMoodScale> {
+    const rootId = await getAppFolderId(accessToken);
+    let file = await findMoodScaleFile(rootId, accessToken);
+    if (file) {
+        const shared = await downloadMoodScale(file.id, accessToken);
+        if (shared && shared.savedAt > scale.savedAt) return shared;
+    } else {
+        const res = await driveFetch(`${BASE_URL}/files`, accessToken, {
+            method: 'POST',
+            body: JSON.stringify({
+                name: MOOD_SCALE_FILE_NAME,
+                parents: [rootId],
+                mimeType: 'application/json',
+                appProperties: { moodScale: 'true' },
+            }),
+        });
+        file = await res.json();
+    }
+    await driveFetch(`${UPLOAD_URL}/files/${file.id}?uploadType=media`, accessToken, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(scale),
+    });
+    return scale;
+}
+
 // ==================================================================
 // SYNC FROM DRIVE LOGIC
 // ==================================================================
@@ -359,74 +693,73 @@ async function downloadText(fileId: string, accessToken: string): Promise<string
   return await res.text();
 }
 
-async function downloadImageAsBase64(fileId: string, accessToken: string): Promise<string> {
-  const res = await fetch(`${BASE_URL}/files/${fileId}?alt=media`, {
-    headers: { 'Authorization': `Bearer ${accessToken}` }
-  });
-  const blob = await res.blob();
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => resolve(reader.result as string);
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
+async function downloadBlob(fileId: string, accessToken: string): Promise<Blob> {
+  const res = await driveFetch(`${BASE_URL}/files/${fileId}?alt=media`, accessToken);
+  return await res.blob();
 }
 
-function parseJournalText(text: string, fileMeta: any): Partial<JournalEntry> {
-    const lines = text.split('\n');
-    let title = 'Untitled';
-    let mood: Mood | undefined = undefined;
-    let contentLines: string[] = [];
-    let headerEnded = false;
+/**
+ * Recover an attachment's original id so every device refers to the same one:
+ * from its "attachmentId" property, or from "image-{id}.{ext}" for photos
+ * uploaded before that property existed. Files from elsewhere fall back to their Drive ID.
+ */
+function attachmentIdFromFile(file: any): string {
+    if (file.appProperties?.attachmentId) return file.appProperties.attachmentId;
+    const match = /^image-(.+)\.[^.]+$/.exec(file.name || '');
+    return match ? match[1] : file.id;
+}
 
-    // Extract Title from filename if possible (more reliable than text content sometimes)
-    const nameTitle = fileMeta.name.replace(/\.txt$/i, '').replace(/_/g, ' ');
-    if (nameTitle && nameTitle !== 'notes' && !nameTitle.startsWith('entry-')) {
-        title = nameTitle;
-    }
+/**
+ * Download and parse one entry text file together with its linked attachments
+ */
+async function buildEntryFromDrive(textFile: any, imageFiles: any[], accessToken: string): Promise<JournalEntry> {
+    const content = await downloadText(textFile.id, accessToken);
+    const partial = parseEntryFile(content, textFile);
+
+    // Match Attachments
+    const entryImages: JournalAttachment[] = [];
+    const relatedImages = imageFiles.filter((img: any) => {
+        return img.appProperties?.entryId === partial.id;
+    });
 
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        if (!headerEnded) {
-            if (line.startsWith('Title: ')) {
-                const extractedTitle = line.substring(7).trim();
-                // Only use text title if filename is generic
-                if (title === 'Untitled' || fileMeta.name.startsWith('entry-') || fileMeta.name === 'notes.txt') {
-                     if (extractedTitle) title = extractedTitle;
-                }
-            } else if (line.startsWith('Mood: ')) {
-                mood = line.substring(6).trim() as Mood;
-            } else if (line.trim() === '') {
-                if (i + 1 < lines.length && !lines[i+1].startsWith('Mood:') && !lines[i+1].startsWith('Title:') && !lines[i+1].startsWith('Date:')) {
-                    headerEnded = true;
-                }
-            } else if (!line.startsWith('Date:')) {
-                 headerEnded = true;
-                 contentLines.push(line);
+    // Details only the text file records (kind, original name and type, capture date)
+    const declared = new Map((partial.images || []).map(img => [img.id, img]));
+
+    // Download attachments this device doesn't have yet into the image store
+    // (concurrency handled by the caller's chunking)
+    await Promise.all(relatedImages.map(async (imgFile: any) => {
+        const id = attachmentIdFromFile(imgFile);
+        try {
+            if (!await hasImageBlob(id)) {
+                await saveImageBlob(id, await downloadBlob(imgFile.id, accessToken));
             }
-        } else {
-            if (line.startsWith('attachments: ')) break;
-            if (line.trim() === '---') continue;
-            contentLines.push(line);
+            const details = declared.get(id);
+            entryImages.push(details
+                ? { ...details, mimeType: details.mimeType || imgFile.mimeType }
+                : { id, kind: kindForMimeType(imgFile.mimeType), mimeType: imgFile.mimeType });
+        } catch (e) {
+            console.warn("Failed to download attachment", imgFile.id);
         }
-    }
+    }));
 
-    // CRITICAL: Use existing entryId property OR File ID to prevent duplication
-    const entryId = fileMeta.appProperties?.entryId || fileMeta.id;
-    const timestamp = new Date(fileMeta.modifiedTime).getTime();
+    // Keep the order recorded in the file; images it doesn't list go last
+    const declaredOrder = [...declared.keys()];
+    const position = (img: JournalAttachment) => {
+        const index = declaredOrder.indexOf(img.id);
+        return index === -1 ? declaredOrder.length : index;
+    };
+    entryImages.sort((a, b) => position(a) - position(b));
 
     return {
-        id: entryId,
-        title,
-        mood,
-        content: contentLines.join('\n').trim(),
-        updatedAt: timestamp,
-        createdAt: timestamp,
-        driveFileName: fileMeta.name, // Store the source filename!
-        images: []
+        ...partial as JournalEntry,
+        images: entryImages
     };
 }
 
+/**
+ * Full rescan: download every entry in the ZenJournal folder.
+ * Normal syncs should use fetchChangesFromDrive; this is the fallback.
+ */
 export async function fetchAllEntriesFromDrive(accessToken: string): Promise<JournalEntry[]> {
     try {
         const rootId = await getAppFolderId(accessToken);
@@ -436,7 +769,7 @@ export async function fetchAllEntriesFromDrive(accessToken: string): Promise<Jou
         // Added Pagination loop to ensure ALL files are retrieved, not just first 100.
         let textFiles: any[] = [];
         let pageToken: string | null = null;
-        const qFiles = `'${rootId}' in ancestors and mimeType = 'text/plain' and trashed = false`;
+        const qFiles = `'${rootId}' in ancestors and ${ENTRY_MIME_QUERY} and trashed = false`;
         
         do {
             const res: Response = await driveFetch(
@@ -448,15 +781,15 @@ export async function fetchAllEntriesFromDrive(accessToken: string): Promise<Jou
             pageToken = data.nextPageToken;
         } while (pageToken);
         
-        // 2. Get All Images (recursive with pagination)
+        // 2. Get All Attachments (recursive with pagination)
         let allImages: any[] = [];
         if (textFiles.length > 0) {
-             const qImages = `'${rootId}' in ancestors and mimeType != 'application/vnd.google-apps.folder' and mimeType != 'text/plain' and trashed = false`;
+             const qImages = `'${rootId}' in ancestors and mimeType != 'application/vnd.google-apps.folder' and mimeType != '${ENTRY_MIME_TYPE}' and mimeType != '${LEGACY_ENTRY_MIME_TYPE}' and trashed = false`;
              let imgPageToken: string | null = null;
              
              do {
                  const resImages: Response = await driveFetch(
-                     `${BASE_URL}/files?q=${encodeURIComponent(qImages)}&fields=nextPageToken,files(id,mimeType,appProperties,parents)&pageSize=100${imgPageToken ? `&pageToken=${imgPageToken}` : ''}`, 
+                     `${BASE_URL}/files?q=${encodeURIComponent(qImages)}&fields=nextPageToken,files(id,name,mimeType,appProperties,parents)&pageSize=100${imgPageToken ? `&pageToken=${imgPageToken}` : ''}`, 
                      accessToken
                  );
                  const imgData: any = await resImages.json();
@@ -465,54 +798,343 @@ export async function fetchAllEntriesFromDrive(accessToken: string): Promise<Jou
              } while (imgPageToken);
         }
         
-        const allEntries: JournalEntry[] = [];
-
-        // 3. Parse Files with Concurrency Limit
-        // Process in chunks to avoid hitting API rate limits or browser connection limits when fetching many files
-        const CHUNK_SIZE = 5; 
-        for (let i = 0; i < textFiles.length; i += CHUNK_SIZE) {
-            const chunk = textFiles.slice(i, i + CHUNK_SIZE);
-            
-            await Promise.all(chunk.map(async (tf: any) => {
-                try {
-                    const content = await downloadText(tf.id, accessToken);
-                    const partial = parseJournalText(content, tf);
-                    
-                    // Match Images
-                    const entryImages: JournalImage[] = [];
-                    const relatedImages = allImages.filter((img: any) => {
-                        return img.appProperties?.entryId === partial.id;
-                    });
-
-                    // Download images for this entry (concurrency handled by chunk outer loop effectively)
-                    await Promise.all(relatedImages.map(async (imgFile: any) => {
-                        try {
-                            const base64 = await downloadImageAsBase64(imgFile.id, accessToken);
-                            entryImages.push({
-                                id: imgFile.id, 
-                                data: base64,
-                                mimeType: imgFile.mimeType
-                            });
-                        } catch (e) {
-                            console.warn("Failed to download image", imgFile.id);
-                        }
-                    }));
-
-                    allEntries.push({
-                        ...partial as JournalEntry,
-                        images: entryImages
-                    });
-
-                } catch (err) {
-                    console.error("Error parsing file", tf.name, err);
-                }
-            }));
-        }
-
-        return allEntries;
+        return await buildEntriesInChunks(textFiles, allImages, accessToken);
 
     } catch (error) {
         console.error("Failed to fetch from Drive", error);
         throw error;
     }
 }
+
+/**
+ * Parse Files with Concurrency Limit
+ * Process in chunks to avoid hitting API rate limits or browser connection limits when fetching many files
+ */
+async function buildEntriesInChunks(textFiles: any[], imageFiles: any[], accessToken: string): Promise<JournalEntry[]> {
+    rememberAttachmentFiles(imageFiles
+        .filter(file => file.appProperties?.entryId)
+        .map(file => ({ fileId: file.id, entryId: file.appProperties.entryId, attachmentId: attachmentIdFromFile(file) })));
+
+    const allEntries: JournalEntry[] = [];
+    const CHUNK_SIZE = 5; 
+    for (let i = 0; i < textFiles.length; i += CHUNK_SIZE) {
+        const chunk = textFiles.slice(i, i + CHUNK_SIZE);
+        
+        await Promise.all(chunk.map(async (tf: any) => {
+            try {
+                allEntries.push(await buildEntryFromDrive(tf, imageFiles, accessToken));
+            } catch (err) {
+                console.error("Error parsing file", tf.name, err);
+            }
+        }));
+    }
+    return allEntries;
+}
+
+// ==================================================================
+// INCREMENTAL SYNC (CHANGES API)
+// ==================================================================
+
+const FILE_FIELDS = 'id,name,mimeType,modifiedTime,appProperties,parents,trashed';
+const FOLDER_MIME = 'application/vnd.google-apps.folder';
+
+export interface DriveChanges {
+  updated: JournalEntry[];   // Entries created or modified since the token, images included
+  removedIds: string[];      // Drive file IDs (and entry IDs of trashed or deleted text files) that are gone; entries that lost an attachment come back in `updated`
+  trashed: EntryTombstone[]; // Entries another device moved to the trash (deletedAt = when)
+  tombstones: EntryTombstone[]; // Entries deleted on another device
+  moodScale: StoredMoodScale | null; // The shared mood scale, when another device changed it
+  newStartPageToken: string; // Token to persist for the next incremental sync
+}
+
+/**
+ * Get the current position in the Drive change log.
+ * Fetch it BEFORE a full rescan so nothing changed during the scan is missed.
+ */
+export async function getStartPageToken(accessToken: string): Promise<string> {
+  const res = await driveFetch(`${BASE_URL}/changes/startPageToken`, accessToken);
+  const data = await res.json();
+  return data.startPageToken;
+}
+
+/**
+ * Find the text file holding an entry (by entryId property, or by Drive ID for legacy files)
+ */
+async function findEntryTextFile(entryId: string, accessToken: string): Promise<any | null> {
+  const q = `appProperties has { key='entryId' and value='${entryId}' } and ${ENTRY_MIME_QUERY} and trashed = false`;
+  const res = await driveFetch(`${BASE_URL}/files?q=${encodeURIComponent(q)}&fields=files(${FILE_FIELDS})`, accessToken);
+  const data = await res.json();
+  if (data.files && data.files.length > 0) return data.files[0];
+
+  const isDriveId = entryId.length > 15 && isNaN(Number(entryId));
+  if (isDriveId) {
+    try {
+      const fileRes = await driveFetch(`${BASE_URL}/files/${entryId}?fields=${FILE_FIELDS}`, accessToken);
+      const f = await fileRes.json();
+      if (f.id && !f.trashed && isEntryMimeType(f.mimeType)) return f;
+    } catch (e) {}
+  }
+  return null;
+}
+
+/**
+ * List the attachments (photos, voice notes, files) currently linked to an entry
+ */
+async function listEntryImageFiles(entryId: string, accessToken: string, includeTrashed = false): Promise<any[]> {
+  const q = `appProperties has { key='entryId' and value='${entryId}' } and mimeType != '${ENTRY_MIME_TYPE}' and mimeType != '${LEGACY_ENTRY_MIME_TYPE}' and mimeType != '${FOLDER_MIME}'${includeTrashed ? '' : ' and trashed = false'}`;
+  const res = await driveFetch(`${BASE_URL}/files?q=${encodeURIComponent(q)}&fields=files(id,name,mimeType,appProperties,parents)`, accessToken);
+  const data = await res.json();
+  return data.files || [];
+}
+
+/**
+ * The entry as it is in Drive now, if its text file changed after `modifiedTime`
+ * (without a known time it is always fetched). Null when unchanged or gone.
+ */
+export async function fetchEntryIfChanged(entryId: string, fileId: string, modifiedTime: string | undefined, accessToken: string): Promise<JournalEntry | null> {
+  let file: any;
+  try {
+    const res = await driveFetch(`${BASE_URL}/files/${fileId}?fields=${FILE_FIELDS}`, accessToken);
+    file = await res.json();
+  } catch (error: any) {
+    if (error.message !== NOT_FOUND_MSG) throw error;
+    return null;
+  }
+  if (modifiedTime && file.modifiedTime === modifiedTime) return null;
+  return await buildEntryFromDrive(file, await listEntryImageFiles(entryId, accessToken, !!file.trashed), accessToken);
+}
+
+/**
+ * Whether a file is in the app folder: directly (legacy entries), in a date or
+ * tombstone folder, or in an attachment folder under a date folder.
+ * `folderParents` caches the parents of the folders looked up so far.
+ */
+async function isInAppFolder(file: any, rootId: string, folderParents: Map<string, string[]>, accessToken: string): Promise<boolean> {
+  let folders: string[] = file.parents || [];
+  for (let depth = 1; ; depth++) {
+    if (folders.includes(rootId)) return true;
+    if (depth === 3 || folders.length === 0) return false;
+    const next: string[] = [];
+    for (const folderId of folders) {
+      if (!folderParents.has(folderId)) {
+        try {
+          const res = await driveFetch(`${BASE_URL}/files/${folderId}?fields=parents`, accessToken);
+          folderParents.set(folderId, (await res.json()).parents || []);
+        } catch (error: any) {
+          if (error.message !== NOT_FOUND_MSG) throw error;
+          folderParents.set(folderId, []);
+        }
+      }
+      next.push(...folderParents.get(folderId)!);
+    }
+    folders = next;
+  }
+}
+
+/**
+ * Local entries by the Drive ID of their text file
+ */
+async function entryIdsByDriveFile(): Promise<Map<string, string>> {
+  const byFile = new Map<string, string>();
+  for (const entry of await getAllEntries()) {
+    if (entry.driveFileId) byFile.set(entry.driveFileId, entry.id);
+  }
+  for (const base of await getAllSyncBases()) {
+    if (base.driveFileId) byFile.set(base.driveFileId, base.id);
+  }
+  return byFile;
+}
+
+/**
+ * INCREMENTAL SYNC FROM DRIVE
+ * Pull only the files changed or removed since `startPageToken`.
+ * Entries whose text or images changed are re-downloaded whole.
+ */
+export async function fetchChangesFromDrive(accessToken: string, startPageToken: string): Promise<DriveChanges> {
+  // 1. Walk the change log
+  let changes: any[] = [];
+  let pageToken: string | null = startPageToken;
+  let newStartPageToken = startPageToken;
+
+  do {
+    const res: Response = await driveFetch(
+      `${BASE_URL}/changes?pageToken=${pageToken}&includeRemoved=true&spaces=drive&pageSize=100&fields=${encodeURIComponent(`nextPageToken,newStartPageToken,changes(fileId,removed,file(${FILE_FIELDS}))`)}`,
+      accessToken
+    );
+    const data: any = await res.json();
+    if (data.changes) changes = [...changes, ...data.changes];
+    if (data.newStartPageToken) newStartPageToken = data.newStartPageToken;
+    pageToken = data.nextPageToken || null;
+  } while (pageToken);
+
+  // 2. Sort changes into removed files, changed entry texts and entries with changed images
+  const removedIds: string[] = [];
+  const changedTextFiles = new Map<string, any>(); // entryId -> text file
+  const touchedEntryIds = new Set<string>();
+  const tombstones: EntryTombstone[] = [];
+  const trashed: EntryTombstone[] = [];
+  let moodScale: StoredMoodScale | null = null;
+
+  // The change log covers all of the user's Drive: only files under the app
+  // folder count (not, say, those left in an earlier folder after a rename)
+  const rootId = await getAppFolderId(accessToken);
+  const folderParents = new Map<string, string[]>();
+  for (const change of changes) {
+    if (change.file?.mimeType === FOLDER_MIME) folderParents.set(change.fileId, change.file.parents || []);
+  }
+  let entriesByFile: Map<string, string> | null = null;
+
+  for (const change of changes) {
+    const file = change.file;
+    if (file && file.mimeType === FOLDER_MIME) continue;
+    if (file && !await isInAppFolder(file, rootId, folderParents, accessToken)) continue;
+
+    if (file?.appProperties?.tombstoneFor) {
+      if (!change.removed && !file.trashed) tombstones.push(tombstoneFromFile(file));
+      continue;
+    }
+
+    if (isMoodScaleFile(file)) {
+      if (!change.removed && !file.trashed) moodScale = await downloadMoodScale(file.id, accessToken);
+      continue;
+    }
+
+    // Moved to the trash by the app on another device: soft-delete, don't drop
+    if (!change.removed && file?.trashed && isEntryMimeType(file.mimeType) && file.appProperties?.trashedAt) {
+      const deletedAt = Number(file.appProperties.trashedAt);
+      trashed.push({ id: file.appProperties.entryId || file.id, deletedAt: isNaN(deletedAt) ? Date.now() : deletedAt });
+      continue;
+    }
+
+    if (change.removed || !file || file.trashed) {
+      removedIds.push(change.fileId);
+      if (isEntryMimeType(file?.mimeType)) {
+        removedIds.push(file.appProperties?.entryId || file.id);
+        continue;
+      }
+      // A trashed or deleted attachment: its entry needs its attachment list
+      // refreshed. Files deleted for good come without metadata, so their
+      // entry is looked up in the index.
+      const known = takeAttachmentFile(change.fileId);
+      const entryId = file?.appProperties?.entryId || known?.entryId;
+      if (entryId) {
+        touchedEntryIds.add(entryId);
+        continue;
+      }
+      // Or it was an entry's text file, known by the ID recorded when it was synced
+      if (!file) {
+        entriesByFile ??= await entryIdsByDriveFile();
+        const removedEntryId = entriesByFile.get(change.fileId);
+        if (removedEntryId) removedIds.push(removedEntryId);
+      }
+      continue;
+    }
+
+    if (isEntryMimeType(file.mimeType)) {
+      changedTextFiles.set(file.appProperties?.entryId || file.id, file);
+    } else if (file.appProperties?.entryId) {
+      touchedEntryIds.add(file.appProperties.entryId);
+    }
+  }
+
+  // 3. Entries that only had image changes still need their text file to be rebuilt
+  for (const entryId of touchedEntryIds) {
+    if (changedTextFiles.has(entryId) || removedIds.includes(entryId)) continue;
+    const textFile = await findEntryTextFile(entryId, accessToken);
+    if (textFile && await isInAppFolder(textFile, rootId, folderParents, accessToken)) changedTextFiles.set(entryId, textFile);
+  }
+
+  // 4. Download changed entries with their current images
+  const textFiles = [...changedTextFiles.values()];
+  const imageFiles: any[] = [];
+  for (const entryId of changedTextFiles.keys()) {
+    imageFiles.push(...await listEntryImageFiles(entryId, accessToken));
+  }
+  const updated = await buildEntriesInChunks(textFiles, imageFiles, accessToken);
+
+  return { updated, removedIds, trashed, tombstones, moodScale, newStartPageToken };
+}
+
+// ==================================================================
+// FILE FORMAT MIGRATION (legacy .txt -> structured .md)
+// ==================================================================
+
+/**
+ * List entry files still stored in the legacy text layout
+ */
+async function listLegacyEntryFiles(accessToken: string): Promise<any[]> {
+  const rootId = await getAppFolderId(accessToken);
+  const q = `'${rootId}' in ancestors and mimeType = '${LEGACY_ENTRY_MIME_TYPE}' and trashed = false`;
+  let files: any[] = [];
+  let pageToken: string | null = null;
+
+  do {
+    const res: Response = await driveFetch(
+      `${BASE_URL}/files?q=${encodeURIComponent(q)}&fields=nextPageToken,files(${FILE_FIELDS})&pageSize=100${pageToken ? `&pageToken=${pageToken}` : ''}`,
+      accessToken
+    );
+    const data: any = await res.json();
+    if (data.files) files = [...files, ...data.files];
+    pageToken = data.nextPageToken;
+  } while (pageToken);
+
+  return files;
+}
+
+export async function countLegacyDriveFiles(accessToken: string): Promise<number> {
+  return (await listLegacyEntryFiles(accessToken)).length;
+}
+
+/**
+ * One-time rewrite of every legacy file in the current format.
+ * Local copies are preferred as the source because the legacy layout lost
+ * createdAt and could truncate content; files without a local copy are parsed.
+ */
+export async function migrateLegacyDriveFiles(
+  localEntries: JournalEntry[],
+  accessToken: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<number> {
+  const files = await listLegacyEntryFiles(accessToken);
+  const localMap = new Map(localEntries.map(e => [e.id, e]));
+  let migrated = 0;
+
+  for (const file of files) {
+    try {
+      const parsed = parseEntryFile(await downloadText(file.id, accessToken), file) as JournalEntry;
+      const local = localMap.get(parsed.id);
+
+      let entry: JournalEntry;
+      if (local && !local.conflict) {
+        entry = local;
+      } else {
+        const imageFiles = await listEntryImageFiles(parsed.id, accessToken);
+        entry = {
+          ...parsed,
+          images: imageFiles.map(img => ({ id: attachmentIdFromFile(img), kind: kindForMimeType(img.mimeType), mimeType: img.mimeType })),
+        };
+      }
+
+      await driveFetch(`${UPLOAD_URL}/files/${file.id}?uploadType=media`, accessToken, {
+        method: 'PATCH',
+        headers: { 'Content-Type': ENTRY_MIME_TYPE },
+        body: serializeEntry(entry),
+      });
+      await driveFetch(`${BASE_URL}/files/${file.id}`, accessToken, {
+        method: 'PATCH',
+        body: JSON.stringify({
+          name: entryFileName({ ...entry, driveFileName: file.name }),
+          mimeType: ENTRY_MIME_TYPE,
+          appProperties: { entryId: entry.id },
+        }),
+      });
+      migrated++;
+    } catch (err: any) {
+      if (err.message === AUTH_ERROR_MSG) throw err;
+      console.error("Failed to migrate file", file.name, err);
+    }
+    onProgress?.(migrated, files.length);
+  }
+
+  return migrated;
+}
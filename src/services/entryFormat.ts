@@ -0,0 +1,291 @@
+import { AttachmentKind, JournalEntry, JournalAttachment, Mood } from '../types';
+import { resolveMood } from './moodScale';
+import { normalizeTag } from './tags';
+import { isValidTimeZone } from './dateTime';
+
+// ==========================================
+// DRIVE FILE FORMAT
+// ==========================================
+// v1 (legacy, .txt): "Title:/Date:/Mood:" header, free text, "attachments:" footer.
+//     Lossy: no createdAt, content cut at "attachments: " lines.
+// v2 (.md): YAML front matter holding every field, then the content verbatim.
+//
+//   ---
+//   zenjournal: 2
+//   id: "1717171717171"
+//   title: "A day at the sea"
+//   mood: "good"                           (id of a mood scale level)
+//   tags:
+//     - "travel"
+//   createdAt: "2025-06-01T08:30:00.000Z"
+//   timeZone: "Africa/Casablanca"          (where it was written; older files omit it)
+//   updatedAt: "2025-06-01T09:12:44.120Z"
+//   deletedAt: "2025-06-02T10:00:00.000Z"   (only while in the trash)
+//   images:                                  (every attachment, not only photos)
+//     - id: "1717171799999"
+//       kind: "image"                        (image, audio or file; older files omit it)
+//       mimeType: "image/webp"
+//       size: 183204
+//       capturedAt: "2025-06-01T07:58:12.000Z"   (only if the user kept it)
+//     - id: "1717171800000"
+//       kind: "audio"
+//       mimeType: "audio/webm"
+//       duration: 42.5
+//     - id: "1717171800001"
+//       kind: "file"
+//       mimeType: "application/pdf"
+//       name: "Tickets.pdf"
+//   ---
+//   Content... ![](image:1717171799999) ...
+//
+// Images placed in the text are referenced by their id (see markdown.ts);
+// the images list still holds every attachment of the entry, placed or not.
+// Strings are written as JSON literals (valid YAML double-quoted scalars), so
+// any title or value round-trips exactly.
+
+export const ENTRY_FORMAT_VERSION = 2;
+export const ENTRY_FILE_EXTENSION = '.md';
+export const ENTRY_MIME_TYPE = 'text/markdown';
+export const LEGACY_ENTRY_MIME_TYPE = 'text/plain';
+
+// Drive query fragment matching entry text files of either format
+export const ENTRY_MIME_QUERY = `(mimeType = '${ENTRY_MIME_TYPE}' or mimeType = '${LEGACY_ENTRY_MIME_TYPE}')`;
+
+const FRONT_MATTER_DELIMITER = '---';
+const ATTACHMENT_KINDS: AttachmentKind[] = ['image', 'audio', 'file'];
+
+export const isEntryMimeType = (mimeType?: string) =>
+  mimeType === ENTRY_MIME_TYPE || mimeType === LEGACY_ENTRY_MIME_TYPE;
+
+/**
+ * Serialize an entry to the current (v2) file format
+ */
+export function serializeEntry(entry: JournalEntry): string {
+  const lines = [
+    FRONT_MATTER_DELIMITER,
+    `zenjournal: ${ENTRY_FORMAT_VERSION}`,
+    `id: ${JSON.stringify(entry.id)}`,
+    `title: ${JSON.stringify(entry.title)}`,
+  ];
+  if (entry.mood) lines.push(`mood: ${JSON.stringify(entry.mood)}`);
+  if (entry.tags && entry.tags.length > 0) {
+    lines.push('tags:');
+    for (const tag of entry.tags) lines.push(`  - ${JSON.stringify(tag)}`);
+  }
+  lines.push(`createdAt: ${JSON.stringify(new Date(entry.createdAt).toISOString())}`);
+  if (entry.timeZone) lines.push(`timeZone: ${JSON.stringify(entry.timeZone)}`);
+  lines.push(`updatedAt: ${JSON.stringify(new Date(entry.updatedAt).toISOString())}`);
+  if (entry.deletedAt) lines.push(`deletedAt: ${JSON.stringify(new Date(entry.deletedAt).toISOString())}`);
+  if (entry.images.length > 0) {
+    lines.push('images:');
+    for (const img of entry.images) {
+      lines.push(`  - id: ${JSON.stringify(img.id)}`);
+      if (img.kind) lines.push(`    kind: ${JSON.stringify(img.kind)}`);
+      lines.push(`    mimeType: ${JSON.stringify(img.mimeType)}`);
+      if (img.name) lines.push(`    name: ${JSON.stringify(img.name)}`);
+      if (img.size) lines.push(`    size: ${img.size}`);
+      if (img.duration) lines.push(`    duration: ${img.duration}`);
+      if (img.capturedAt) lines.push(`    capturedAt: ${JSON.stringify(new Date(img.capturedAt).toISOString())}`);
+    }
+  }
+  lines.push(FRONT_MATTER_DELIMITER);
+  return `${lines.join('\n')}\n${entry.content}`;
+}
+
+/**
+ * Filename for an entry: the user's chosen name, else its title, always with the v2 extension
+ */
+export function entryFileName(entry: JournalEntry): string {
+  const safeTitle = entry.title.replace(/[/\\?%*:|"<>\x00-\x1F]/g, '_').trim() || 'Untitled';
+  const name = entry.driveFileName || `${safeTitle}${ENTRY_FILE_EXTENSION}`;
+  if (name.toLowerCase().endsWith(ENTRY_FILE_EXTENSION)) return name;
+  if (name.toLowerCase().endsWith('.txt')) return name.slice(0, -4) + ENTRY_FILE_EXTENSION;
+  return name + ENTRY_FILE_EXTENSION;
+}
+
+/**
+ * Which format a downloaded file uses
+ */
+export function detectFormatVersion(text: string): number {
+  const lines = text.split('\n', 2);
+  if (lines[0].trim() === FRONT_MATTER_DELIMITER && /^zenjournal:\s*\d+/.test(lines[1] || '')) {
+    return parseInt(lines[1].split(':')[1], 10);
+  }
+  return 1;
+}
+
+/**
+ * Parse a downloaded entry file of any known version
+ */
+export function parseEntryFile(text: string, fileMeta: any): Partial<JournalEntry> {
+  return detectFormatVersion(text) >= 2
+    ? parseStructuredEntry(text, fileMeta)
+    : parseJournalText(text, fileMeta);
+}
+
+/**
+ * Parse the scalar on the right of "key: "
+ */
+function parseScalar(raw: string): any {
+  const value = raw.trim();
+  if (value === '' || value === 'null' || value === '~') return undefined;
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch (e) {
+      return value.slice(1, -1);
+    }
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+/**
+ * Read the subset of YAML that serializeEntry writes: top-level scalars,
+ * lists of flat maps ("images") and lists of scalars ("tags"). Unknown keys
+ * are ignored.
+ */
+function parseFrontMatter(lines: string[]): Record<string, any> {
+  const data: Record<string, any> = {};
+  let currentList: any[] | null = null;
+
+  for (const line of lines) {
+    if (line.trim() === '') continue;
+
+    const listItem = /^\s+-\s+([\w]+):(.*)$/.exec(line);
+    const listScalar = /^\s+-\s+(.*)$/.exec(line);
+    const listField = /^\s+([\w]+):(.*)$/.exec(line);
+    const topLevel = /^([\w]+):(.*)$/.exec(line);
+
+    if (listItem && currentList) {
+      currentList.push({ [listItem[1]]: parseScalar(listItem[2]) });
+    } else if (listScalar && currentList) {
+      currentList.push(parseScalar(listScalar[1]));
+    } else if (listField && currentList && typeof currentList[currentList.length - 1] === 'object') {
+      currentList[currentList.length - 1][listField[1]] = parseScalar(listField[2]);
+    } else if (topLevel) {
+      if (topLevel[2].trim() === '') {
+        currentList = [];
+        data[topLevel[1]] = currentList;
+      } else {
+        currentList = null;
+        data[topLevel[1]] = parseScalar(topLevel[2]);
+      }
+    }
+  }
+  return data;
+}
+
+/**
+ * Mood from a file: level ids, labels and the pre-scale names ("Good") all
+ * resolve; anything else is kept as is so it isn't lost
+ */
+const readMood = (value: string): Mood | undefined => resolveMood(value) ?? (value.trim() || undefined);
+
+function parseStructuredEntry(text: string, fileMeta: any): Partial<JournalEntry> {
+  const lines = text.split('\n');
+  const closing = lines.indexOf(FRONT_MATTER_DELIMITER, 1);
+  const headerLines = closing === -1 ? lines.slice(1) : lines.slice(1, closing);
+  const content = closing === -1 ? '' : lines.slice(closing + 1).join('\n');
+  const data = parseFrontMatter(headerLines);
+
+  const fallbackTime = new Date(fileMeta.modifiedTime).getTime();
+  const toTime = (value: any) => {
+    const time = typeof value === 'number' ? value : Date.parse(value);
+    return isNaN(time) ? fallbackTime : time;
+  };
+
+  // Attachment data lives next to the entry; the front matter fixes order, ids and details
+  const images: JournalAttachment[] = (Array.isArray(data.images) ? data.images : [])
+    .filter((img: any) => img.id)
+    .map((img: any) => {
+      const attachment: JournalAttachment = { id: String(img.id), mimeType: img.mimeType || '' };
+      if (ATTACHMENT_KINDS.includes(img.kind)) attachment.kind = img.kind;
+      if (img.name !== undefined) attachment.name = String(img.name);
+      if (typeof img.size === 'number' && img.size > 0) attachment.size = img.size;
+      if (typeof img.duration === 'number' && img.duration > 0) attachment.duration = img.duration;
+      const capturedAt = typeof img.capturedAt === 'string' ? Date.parse(img.capturedAt) : NaN;
+      if (!isNaN(capturedAt)) attachment.capturedAt = capturedAt;
+      return attachment;
+    });
+
+  return {
+    id: data.id !== undefined ? String(data.id) : (fileMeta.appProperties?.entryId || fileMeta.id),
+    title: data.title !== undefined ? String(data.title) : '',
+    mood: data.mood !== undefined ? readMood(String(data.mood)) : undefined,
+    tags: (Array.isArray(data.tags) ? data.tags : [])
+      .filter((tag: any) => tag !== undefined && typeof tag !== 'object')
+      .map((tag: any) => normalizeTag(String(tag)))
+      .filter(Boolean),
+    content,
+    createdAt: toTime(data.createdAt),
+    timeZone: typeof data.timeZone === 'string' && isValidTimeZone(data.timeZone) ? data.timeZone : undefined,
+    updatedAt: toTime(data.updatedAt),
+    deletedAt: data.deletedAt !== undefined ? toTime(data.deletedAt) : undefined,
+    driveFileName: fileMeta.name,
+    driveFileId: fileMeta.id,
+    driveModifiedTime: fileMeta.modifiedTime,
+    images,
+  };
+}
+
+/**
+ * LEGACY (v1) PARSER
+ * Heuristic reader for the old "Title:/Date:/Mood:" text layout.
+ */
+export function parseJournalText(text: string, fileMeta: any): Partial<JournalEntry> {
+    const lines = text.split('\n');
+    let title = 'Untitled';
+    let mood: Mood | undefined = undefined;
+    let contentLines: string[] = [];
+    let headerEnded = false;
+
+    // Extract Title from filename if possible (more reliable than text content sometimes)
+    const nameTitle = fileMeta.name.replace(/\.txt$/i, '').replace(/_/g, ' ');
+    if (nameTitle && nameTitle !== 'notes' && !nameTitle.startsWith('entry-')) {
+        title = nameTitle;
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (!headerEnded) {
+            if (line.startsWith('Title: ')) {
+                const extractedTitle = line.substring(7).trim();
+                // Only use text title if filename is generic
+                if (title === 'Untitled' || fileMeta.name.startsWith('entry-') || fileMeta.name === 'notes.txt') {
+                     if (extractedTitle) title = extractedTitle;
+                }
+            } else if (line.startsWith('Mood: ')) {
+                mood = readMood(line.substring(6));
+            } else if (line.trim() === '') {
+                if (i + 1 < lines.length && !lines[i+1].startsWith('Mood:') && !lines[i+1].startsWith('Title:') && !lines[i+1].startsWith('Date:')) {
+                    headerEnded = true;
+                }
+            } else if (!line.startsWith('Date:')) {
+                 headerEnded = true;
+                 contentLines.push(line);
+            }
+        } else {
+            if (line.startsWith('attachments: ')) break;
+            if (line.trim() === '---') continue;
+            contentLines.push(line);
+        }
+    }
+
+    // CRITICAL: Use existing entryId property OR File ID to prevent duplication
+    const entryId = fileMeta.appProperties?.entryId || fileMeta.id;
+    const timestamp = new Date(fileMeta.modifiedTime).getTime();
+
+    return {
+        id: entryId,
+        title,
+        mood,
+        content: contentLines.join('\n').trim(),
+        updatedAt: timestamp,
+        createdAt: timestamp,
+        driveFileName: fileMeta.name, // Store the source filename!
+        driveFileId: fileMeta.id,
+        driveModifiedTime: fileMeta.modifiedTime,
+        images: []
+    };
+}
@@ -0,0 +1,93 @@
+import { Language, PluralMessage } from '../types';
+import { MessageKey, Catalog, en } from '../locales/en';
+import { fr } from '../locales/fr';
+import { ar } from '../locales/ar';
+import { LANGUAGES, getSettings } from './settings';
+
+// ==========================================
+// TRANSLATIONS
+// ==========================================
+// UI text comes from a catalog per language (src/locales), looked up by key.
+// `{name}` in a message is replaced by the matching parameter; a message with
+// plural forms picks one by the `count` parameter, using the language's
+// plural rules (Arabic has six forms, French and English two).
+
+const CATALOGS: Record<Language, Catalog> = { en, fr, ar };
+
+const RTL_LANGUAGES = new Set<Language>(['ar']);
+
+// Names of the languages in themselves, for the language picker
+export const LANGUAGE_NAMES: Record<Language, string> = { en: 'English', fr: 'Français', ar: 'العربية' };
+
+const pluralRules = new Map<Language, Intl.PluralRules>();
+const numberFormats = new Map<Language, Intl.NumberFormat>();
+
+/**
+ * The first of the browser's languages the app is translated into
+ */
+function browserLanguage(): Language {
+  for (const tag of navigator.languages ?? [navigator.language]) {
+    const language = tag.toLowerCase().split('-')[0] as Language;
+    if (LANGUAGES.includes(language)) return language;
+  }
+  return 'en';
+}
+
+/**
+ * The UI language: the one chosen in the settings, else the browser's
+ */
+export function currentLanguage(): Language {
+  return getSettings().language || browserLanguage();
+}
+
+export const textDirection = (language = currentLanguage()): 'ltr' | 'rtl' =>
+  RTL_LANGUAGES.has(language) ? 'rtl' : 'ltr';
+
+/**
+ * The locale dates are formatted in when the settings leave it to the app:
+ * the browser's own when it speaks the UI language (keeps en-GB vs en-US),
+ * else the UI language
+ */
+export function languageLocale(language = currentLanguage()): string {
+  return (navigator.languages ?? [navigator.language]).find(tag => tag.toLowerCase().split('-')[0] === language) || language;
+}
+
+const pluralForm = (message: PluralMessage, count: number, language: Language) => {
+  let rules = pluralRules.get(language);
+  if (!rules) {
+    rules = new Intl.PluralRules(language);
+    pluralRules.set(language, rules);
+  }
+  return message[rules.select(count)] ?? message.other;
+};
+
+const formatNumber = (value: number, language: Language) => {
+  let format = numberFormats.get(language);
+  if (!format) {
+    format = new Intl.NumberFormat(languageLocale(language));
+    numberFormats.set(language, format);
+  }
+  return format.format(value);
+};
+
+/**
+ * The text of a message in the UI language
+ */
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+  const language = currentLanguage();
+  const message = CATALOGS[language][key] ?? en[key];
+  const text = typeof message === 'string' ? message : pluralForm(message, Number(params.count), language);
+  return text.replace(/\{(\w+)\}/g, (match, name) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value, language) : value;
+  });
+}
+
+/**
+ * Set the page's language and direction, so the layout mirrors for right-to-left languages
+ */
+export function applyLanguage(language: Language): void {
+  document.documentElement.lang = language;
+  document.documentElement.dir = textDirection(language);
+}
@@ -0,0 +1,263 @@
+import { ImageFormat, ImageSettings } from '../types';
+import { getSettings, saveSettings } from './settings';
+
+// ==========================================
+// IMAGE PROCESSING
+// ==========================================
+// Photos are processed before they are stored: turned upright, scaled down,
+// re-encoded, and given a small thumbnail for the list, table and calendar.
+// Re-encoding through a canvas drops every metadata block (GPS position,
+// camera model...). The capture date can be kept, but on the JournalAttachment,
+// not in the file.
+
+export interface ProcessedImage {
+  blob: Blob;
+  thumbnail?: Blob; // Missing for formats stored as they are
+  capturedAt?: number;
+}
+
+export const MAX_DIMENSION_OPTIONS = [1024, 1600, 2048, 3072, 4096];
+
+const THUMBNAIL_SIZE = 320;
+const THUMBNAIL_QUALITY = 0.7;
+
+// Animations and vector images would be flattened by a canvas: kept as they are
+const PASSTHROUGH_TYPES = ['image/gif', 'image/svg+xml'];
+
+/**
+ * The photo settings, kept with the other settings
+ */
+export const getImageSettings = (): ImageSettings => getSettings().photos;
+
+export function saveImageSettings(photos: ImageSettings): void {
+  saveSettings({ photos });
+}
+
+// ==========================================
+// EXIF
+// ==========================================
+
+interface ExifData {
+  orientation: number; // 1 (upright) to 8
+  capturedAt?: number;
+}
+
+const EXIF_ORIENTATION = 0x0112;
+const EXIF_DATE_TIME = 0x0132;
+const EXIF_IFD_POINTER = 0x8769;
+const EXIF_DATE_TIME_ORIGINAL = 0x9003;
+const EXIF_OFFSET_TIME_ORIGINAL = 0x9011;
+
+/**
+ * "2024:06:01 08:30:00" (camera local time), with its UTC offset when the
+ * camera recorded one
+ */
+const parseExifDate = (value: string, offset?: string): number | undefined => {
+  const m = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!m || m[1] === '0000') return undefined;
+  const time = offset && /^[+-]\d{2}:\d{2}$/.test(offset)
+    ? Date.parse(`${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}${offset}`)
+    : new Date(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]).getTime();
+  return isNaN(time) ? undefined : time;
+};
+
+/**
+ * Orientation and capture date from a JPEG's EXIF block. Anything unreadable
+ * counts as absent.
+ */
+export function readExif(buffer: ArrayBuffer): ExifData {
+  const result: ExifData = { orientation: 1 };
+  try {
+    const view = new DataView(buffer);
+    if (view.getUint16(0) !== 0xFFD8) return result;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) break; // Image data starts
+      const size = view.getUint16(offset + 2);
+      if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) { // "Exif\0\0"
+        const tiff = offset + 10;
+        const little = view.getUint16(tiff) === 0x4949;
+
+        // Tag -> offset of its 12-byte entry, for one IFD
+        const readIfd = (start: number) => {
+          const tags = new Map<number, number>();
+          const count = view.getUint16(start, little);
+          for (let i = 0; i < count; i++) {
+            const entry = start + 2 + i * 12;
+            tags.set(view.getUint16(entry, little), entry);
+          }
+          return tags;
+        };
+        const readAscii = (entry: number) => {
+          const count = view.getUint32(entry + 4, little);
+          const start = count > 4 ? tiff + view.getUint32(entry + 8, little) : entry + 8;
+          let text = '';
+          for (let i = 0; i < count - 1 && start + i < view.byteLength; i++) text += String.fromCharCode(view.getUint8(start + i));
+          return text;
+        };
+
+        const ifd0 = readIfd(tiff + view.getUint32(tiff + 4, little));
+        const orientation = ifd0.get(EXIF_ORIENTATION);
+        if (orientation !== undefined) {
+          const value = view.getUint16(orientation + 8, little);
+          if (value >= 1 && value <= 8) result.orientation = value;
+        }
+
+        const pointer = ifd0.get(EXIF_IFD_POINTER);
+        const exifIfd = pointer !== undefined ? readIfd(tiff + view.getUint32(pointer + 8, little)) : new Map<number, number>();
+        const original = exifIfd.get(EXIF_DATE_TIME_ORIGINAL);
+        const zone = exifIfd.get(EXIF_OFFSET_TIME_ORIGINAL);
+        const fallback = ifd0.get(EXIF_DATE_TIME);
+        if (original !== undefined) result.capturedAt = parseExifDate(readAscii(original), zone !== undefined ? readAscii(zone) : undefined);
+        else if (fallback !== undefined) result.capturedAt = parseExifDate(readAscii(fallback));
+        break;
+      }
+      offset += 2 + size;
+    }
+  } catch {
+    // Truncated or malformed EXIF: use what was read so far
+  }
+  return result;
+}
+
+// ==========================================
+// DECODING AND ENCODING
+// ==========================================
+
+// A JPEG APP1 block holding only "Orientation = 6" (rotate 90° clockwise)
+const ORIENTATION_6_EXIF = new Uint8Array([
+  0xFF, 0xE1, 0x00, 0x22, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+  0x4D, 0x4D, 0x00, 0x2A, 0x00, 0x00, 0x00, 0x08,
+  0x00, 0x01, 0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00,
+]);
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Image encoding failed'))), type, quality);
+  });
+
+let orientationTest: Promise<boolean> | null = null;
+
+/**
+ * Whether this browser already turns photos upright when decoding them.
+ * Tested once by decoding a 2x1 JPEG tagged as rotated.
+ */
+const decoderAppliesOrientation = (): Promise<boolean> => {
+  orientationTest ??= (async () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 2;
+    canvas.height = 1;
+    const bytes = new Uint8Array(await (await toBlob(canvas, 'image/jpeg')).arrayBuffer());
+    const tagged = new Blob([bytes.slice(0, 2), ORIENTATION_6_EXIF, bytes.slice(2)], { type: 'image/jpeg' });
+    const bitmap = await createImageBitmap(tagged);
+    const rotated = bitmap.width === 1;
+    bitmap.close();
+    return rotated;
+  })().catch(() => true);
+  return orientationTest;
+};
+
+/**
+ * Draw a decoded image onto a new canvas of the given (upright) size,
+ * turning it according to its EXIF orientation
+ */
+const drawUpright = (bitmap: ImageBitmap, width: number, height: number, orientation: number, background?: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, width, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, width, height); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, height); break;
+  }
+  ctx.imageSmoothingQuality = 'high';
+  // Sideways orientations draw the stored image with width and height swapped
+  if (orientation >= 5) ctx.drawImage(bitmap, 0, 0, height, width);
+  else ctx.drawImage(bitmap, 0, 0, width, height);
+  return canvas;
+};
+
+/**
+ * Encode a canvas, falling back to JPEG where WebP encoding isn't supported
+ */
+const encode = async (canvas: HTMLCanvasElement, format: ImageFormat, quality: number): Promise<Blob> => {
+  if (format === 'webp') {
+    const webp = await toBlob(canvas, 'image/webp', quality);
+    if (webp.type === 'image/webp') return webp;
+  }
+  return toBlob(canvas, 'image/jpeg', quality);
+};
+
+/**
+ * Scale a canvas down so its longest side is at most `size`
+ */
+const scaledCanvas = (source: HTMLCanvasElement, size: number): HTMLCanvasElement => {
+  const scale = Math.min(1, size / Math.max(source.width, source.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * Prepare a photo for storage: upright, within the maximum size, re-encoded
+ * without metadata, plus its thumbnail
+ */
+export async function processImage(file: Blob, settings: ImageSettings = getImageSettings()): Promise<ProcessedImage> {
+  if (PASSTHROUGH_TYPES.includes(file.type)) return { blob: file };
+
+  const exif = readExif(await file.slice(0, 256 * 1024).arrayBuffer());
+  const bitmap = await createImageBitmap(file);
+  try {
+    const orientation = exif.orientation > 1 && !(await decoderAppliesOrientation()) ? exif.orientation : 1;
+    const [uprightWidth, uprightHeight] = orientation >= 5 ? [bitmap.height, bitmap.width] : [bitmap.width, bitmap.height];
+    const scale = Math.min(1, settings.maxDimension / Math.max(uprightWidth, uprightHeight));
+    const width = Math.max(1, Math.round(uprightWidth * scale));
+    const height = Math.max(1, Math.round(uprightHeight * scale));
+
+    // JPEG has no transparency: transparent areas become white, not black
+    const canvas = drawUpright(bitmap, width, height, orientation, settings.format === 'jpeg' ? '#ffffff' : undefined);
+    const blob = await encode(canvas, settings.format, settings.quality);
+    const thumbnail = await encode(scaledCanvas(canvas, THUMBNAIL_SIZE), settings.format, THUMBNAIL_QUALITY);
+
+    return {
+      blob,
+      thumbnail,
+      capturedAt: settings.keepCaptureDate ? exif.capturedAt : undefined,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Thumbnail for an image stored before thumbnails existed, or synced from
+ * another device. Null if the browser can't decode it.
+ */
+export async function createThumbnail(blob: Blob): Promise<Blob | null> {
+  if (PASSTHROUGH_TYPES.includes(blob.type)) return null;
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = drawUpright(bitmap, Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)), 1);
+    bitmap.close();
+    return await encode(canvas, getImageSettings().format, THUMBNAIL_QUALITY);
+  } catch {
+    return null;
+  }
+}
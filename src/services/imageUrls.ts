@@ -0,0 +1,77 @@
+import { getImageBlob, getThumbnailBlob, saveThumbnailBlob } from './storage';
+import { createThumbnail } from './imageProcessing';
+
+// ==========================================
+// OBJECT URLS FOR STORED IMAGES (AND OTHER ATTACHMENTS)
+// ==========================================
+// Blobs stay in IndexedDB; an object URL is created the first time an image is
+// shown and revoked when the last component showing it unmounts. Thumbnails
+// are cached separately; one missing on this device is made from the image.
+
+interface CachedUrl {
+  url: string;
+  refs: number;
+}
+
+const cache = new Map<string, CachedUrl>();
+const pending = new Map<string, Promise<string | null>>();
+
+const cacheKey = (imageId: string, thumbnail: boolean) => (thumbnail ? `thumb:${imageId}` : imageId);
+
+/**
+ * A thumbnail's bytes, made and stored on first use. Falls back to the full
+ * image when no thumbnail can be made.
+ */
+const loadThumbnail = async (imageId: string): Promise<Blob | undefined> => {
+  const stored = await getThumbnailBlob(imageId);
+  if (stored) return stored;
+  const image = await getImageBlob(imageId);
+  if (!image) return undefined;
+  const thumbnail = await createThumbnail(image);
+  if (!thumbnail) return image;
+  await saveThumbnailBlob(imageId, thumbnail);
+  return thumbnail;
+};
+
+/**
+ * Get (and hold) an object URL for an image. Resolves null if the blob isn't stored.
+ * Every successful acquire must be paired with releaseImageUrl.
+ */
+export async function acquireImageUrl(imageId: string, thumbnail = false): Promise<string | null> {
+  const key = cacheKey(imageId, thumbnail);
+  const cached = cache.get(key);
+  if (cached) {
+    cached.refs++;
+    return cached.url;
+  }
+
+  let request = pending.get(key);
+  if (!request) {
+    request = (thumbnail ? loadThumbnail(imageId) : getImageBlob(imageId)).then(blob => {
+      pending.delete(key);
+      if (!blob) return null; // Misses aren't cached: the blob may arrive with the next sync
+      const url = URL.createObjectURL(blob);
+      cache.set(key, { url, refs: 0 });
+      return url;
+    });
+    pending.set(key, request);
+  }
+
+  const url = await request;
+  if (url) cache.get(key)!.refs++;
+  return url;
+}
+
+/**
+ * Drop one hold on an image URL, revoking it when nobody uses it anymore
+ */
+export function releaseImageUrl(imageId: string, thumbnail = false): void {
+  const key = cacheKey(imageId, thumbnail);
+  const cached = cache.get(key);
+  if (!cached) return;
+  cached.refs--;
+  if (cached.refs <= 0) {
+    URL.revokeObjectURL(cached.url);
+    cache.delete(key);
+  }
+}
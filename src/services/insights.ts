@@ -0,0 +1,168 @@
+import { JournalEntry, Mood, MoodLevel } from '../types';
+import { entryPhotos } from './attachments';
+import { dayKey, today } from './calendar';
+import { entryDayKey, entryTimeZone, zonedParts } from './dateTime';
+import { getMoodScale } from './moodScale';
+
+// ==========================================
+// MOOD INSIGHTS
+// ==========================================
+// Everything is computed from the local entries. Moods are averaged through
+// the scores of the mood scale; moods missing from the scale are left out.
+// Days are local days.
+
+export interface TrendPoint {
+  day: string; // YYYY-MM-DD
+  daily: number | null; // Average of that day alone
+  weekly: number | null; // Rolling 7-day average
+  monthly: number | null; // Rolling 30-day average
+}
+
+export interface WeekdayStat {
+  weekday: number; // 0 = Monday
+  average: number | null;
+  count: number;
+}
+
+export interface MoodWritingStat {
+  mood: Mood;
+  entries: number;
+  averageWords: number;
+  averagePhotos: number;
+}
+
+export interface Streaks {
+  current: number; // Days in a row up to today (or yesterday, if today has no entry yet)
+  longest: number;
+  longestEnd: string | null; // Last day of the longest streak
+}
+
+const WEEKLY_WINDOW = 7;
+const MONTHLY_WINDOW = 30;
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+/**
+ * The calendar day `offset` days after `day`
+ */
+const shiftDay = (day: Date, offset: number) =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate() + offset);
+
+/**
+ * Score of an entry's mood, if it has one on the scale
+ */
+const moodScore = (entry: JournalEntry, scale: MoodLevel[]) =>
+  entry.mood ? scale.find(level => level.id === entry.mood)?.score : undefined;
+
+/**
+ * Mood scores per day written
+ */
+function scoresByDay(entries: JournalEntry[], scale: MoodLevel[]): Map<string, number[]> {
+  const byDay = new Map<string, number[]>();
+  for (const entry of entries) {
+    const score = moodScore(entry, scale);
+    if (score === undefined) continue;
+    const key = entryDayKey(entry);
+    byDay.set(key, [...(byDay.get(key) || []), score]);
+  }
+  return byDay;
+}
+
+/**
+ * Daily mood with 7- and 30-day rolling averages, one point per day for the
+ * last `days` days. Rolling windows reach back before the range so the first
+ * points are already smoothed.
+ */
+export function moodTrend(entries: JournalEntry[], days: number, now = today(), scale = getMoodScale()): TrendPoint[] {
+  const byDay = scoresByDay(entries, scale);
+  const windowScores = (end: Date, size: number) => {
+    const scores: number[] = [];
+    for (let i = 0; i < size; i++) scores.push(...(byDay.get(dayKey(shiftDay(end, -i))) || []));
+    return average(scores);
+  };
+
+  const points: TrendPoint[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const day = shiftDay(now, -i);
+    points.push({
+      day: dayKey(day),
+      daily: average(byDay.get(dayKey(day)) || []),
+      weekly: windowScores(day, WEEKLY_WINDOW),
+      monthly: windowScores(day, MONTHLY_WINDOW),
+    });
+  }
+  return points;
+}
+
+/**
+ * How many entries were logged with each mood
+ */
+export function moodDistribution(entries: JournalEntry[], scale = getMoodScale()): Map<Mood, number> {
+  const counts = new Map<Mood, number>(scale.map(level => [level.id, 0]));
+  for (const entry of entries) {
+    if (entry.mood && counts.has(entry.mood)) counts.set(entry.mood, counts.get(entry.mood)! + 1);
+  }
+  return counts;
+}
+
+/**
+ * Average mood per weekday, Monday first
+ */
+export function moodByWeekday(entries: JournalEntry[], scale = getMoodScale()): WeekdayStat[] {
+  const scores: number[][] = Array.from({ length: 7 }, () => []);
+  for (const entry of entries) {
+    const score = moodScore(entry, scale);
+    if (score === undefined) continue;
+    const { weekday } = zonedParts(entry.createdAt, entryTimeZone(entry));
+    scores[weekday].push(score);
+  }
+  return scores.map((list, weekday) => ({ weekday, average: average(list), count: list.length }));
+}
+
+/**
+ * Average length and photo count of the entries logged with each mood
+ */
+export function writingByMood(entries: JournalEntry[], scale = getMoodScale()): MoodWritingStat[] {
+  return scale.map(level => {
+    const withMood = entries.filter(e => e.mood === level.id);
+    return {
+      mood: level.id,
+      entries: withMood.length,
+      averageWords: average(withMood.map(e => wordCount(e.content))) ?? 0,
+      averagePhotos: average(withMood.map(e => entryPhotos(e).length)) ?? 0,
+    };
+  });
+}
+
+/**
+ * Journaling streaks: consecutive days with at least one entry
+ */
+export function journalingStreaks(entries: JournalEntry[], now = today()): Streaks {
+  const days = new Set(entries.map(entryDayKey));
+
+  let current = 0;
+  let cursor = days.has(dayKey(now)) ? now : shiftDay(now, -1);
+  while (days.has(dayKey(cursor))) {
+    current++;
+    cursor = shiftDay(cursor, -1);
+  }
+
+  let longest = 0;
+  let longestEnd: string | null = null;
+  for (const key of days) {
+    const [y, m, d] = key.split('-').map(Number);
+    const start = new Date(y, m - 1, d);
+    if (days.has(dayKey(shiftDay(start, -1)))) continue; // Not the first day of a run
+    let length = 1;
+    while (days.has(dayKey(shiftDay(start, length)))) length++;
+    if (length > longest) {
+      longest = length;
+      longestEnd = dayKey(shiftDay(start, length - 1));
+    }
+  }
+
+  return { current, longest, longestEnd };
+}
@@ -0,0 +1,306 @@
+// ==========================================
+// MARKDOWN
+// ==========================================
+// Entry bodies are Markdown: headings, emphasis, lists and task lists, quotes,
+// code and links. The text is parsed into a small tree that MarkdownView turns
+// into React elements; nothing is ever handed to the browser as HTML, so raw
+// tags in an entry (which may come from any file on Drive) show as text.
+//
+// Photos placed in the text are written ![caption](image:<id>), where <id> is
+// the JournalAttachment id. That id, not the Drive file id, is what other
+// devices get back when they download the attachment: it is kept in the
+// file's attachmentId appProperty, and photos also carry it in their name
+// (image-<id>.<ext>); see attachmentIdFromFile in driveService.ts.
+
+export type MdInline =
+  | { type: 'text', text: string }
+  | { type: 'break' }
+  | { type: 'code', text: string }
+  | { type: 'image', imageId: string, alt: string }
+  | { type: 'strong' | 'em' | 'del', children: MdInline[] }
+  | { type: 'link', href: string, children: MdInline[] };
+
+export interface MdListItem {
+  line: number; // Line of the item marker in the source, for toggling tasks
+  checked?: boolean; // Set for task items
+  children: MdBlock[];
+}
+
+export type MdBlock =
+  | { type: 'heading', level: number, children: MdInline[] }
+  | { type: 'paragraph', children: MdInline[] }
+  | { type: 'quote', children: MdBlock[] }
+  | { type: 'list', ordered: boolean, start: number, items: MdListItem[] }
+  | { type: 'code', text: string }
+  | { type: 'rule' };
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})/;
+const HEADING = /^\s{0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(?:\s+(.*)|\s*)$/;
+const TASK = /^\[([ xX])\](?:\s+|$)/;
+
+const isBlank = (line: string) => !line.trim();
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+/**
+ * Lines that end a paragraph without a blank line before them
+ */
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+
+// ==========================================
+// BLOCKS
+// ==========================================
+
+/**
+ * Parse lines into blocks. `offset` is the source line of lines[0]; nested
+ * blocks keep one line per source line so task items know where they are.
+ */
+const parseBlocks = (lines: string[], offset: number): MdBlock[] => {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith(fence[1])) code.push(lines[i++]);
+      i++; // Closing fence (or end of text)
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] || '') });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const start = i;
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].replace(QUOTE, ''));
+      blocks.push({ type: 'quote', children: parseBlocks(quoted, offset + start) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const indent = item[1].length;
+      const ordered = /\d/.test(item[2]);
+      const list: MdBlock & { type: 'list' } = { type: 'list', ordered, start: ordered ? parseInt(item[2], 10) : 1, items: [] };
+
+      while (i < lines.length) {
+        const marker = lines[i].match(LIST_ITEM);
+        if (!marker || indentOf(lines[i]) > indent + 1 || indentOf(lines[i]) < indent || /\d/.test(marker[2]) !== ordered) break;
+
+        // The item's own lines: its first line, then anything indented under it
+        // or continuing its paragraph
+        const start = i;
+        const contentIndent = marker[1].length + marker[2].length + 1;
+        let text = marker[3] || '';
+        const task = text.match(TASK);
+        if (task) text = text.slice(task[0].length);
+        const itemLines = [text];
+        i++;
+        while (i < lines.length) {
+          const next = lines[i];
+          if (isBlank(next)) {
+            // A blank line only stays in the item if indented content follows
+            let j = i;
+            while (j < lines.length && isBlank(lines[j])) j++;
+            if (j < lines.length && indentOf(lines[j]) > indent) {
+              while (i < j) itemLines.push(lines[i++]);
+              continue;
+            }
+            break;
+          }
+          if (indentOf(next) > indent + 1) {
+            itemLines.push(next.slice(Math.min(indentOf(next), contentIndent)));
+          } else if (!startsBlock(next)) {
+            itemLines.push(next); // Lazy continuation of the item's paragraph
+          } else {
+            break;
+          }
+          i++;
+        }
+
+        list.items.push({
+          line: offset + start,
+          checked: task ? task[1] !== ' ' : undefined,
+          children: parseBlocks(itemLines, offset + start),
+        });
+      }
+      blocks.push(list);
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) paragraph.push(lines[i++].trim());
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+/**
+ * Parse a Markdown document
+ */
+export function parseMarkdown(text: string): MdBlock[] {
+  return parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'), 0);
+}
+
+// ==========================================
+// INLINES
+// ==========================================
+
+const SAFE_URL = /^(https?:|mailto:)/i;
+const IMAGE_TOKEN = /!\[([^\]\n]*)\]\(image:([^\s()]+)\)/g;
+
+/**
+ * The text that places a stored image in an entry
+ */
+export function imageToken(imageId: string, alt = ''): string {
+  return `![${alt.replace(/[\[\]\n]/g, '')}](image:${imageId})`;
+}
+
+/**
+ * Ids of the images placed in a text, in order
+ */
+export function inlineImageIds(text: string): string[] {
+  return [...new Set([...text.matchAll(IMAGE_TOKEN)].map(m => m[2]))];
+}
+
+/**
+ * A text with its image tokens removed (they are not words to search for)
+ */
+export function removeImageTokens(text: string): string {
+  return text.replace(IMAGE_TOKEN, (_, alt: string) => alt);
+}
+
+/**
+ * Links only open web and mail addresses; anything else (javascript:, data:,
+ * relative paths) is shown as plain text
+ */
+export function safeHref(href: string): string | null {
+  const trimmed = href.trim();
+  return SAFE_URL.test(trimmed) ? trimmed : null;
+}
+
+const link = (href: string, children: MdInline[]): MdInline => {
+  const safe = safeHref(href);
+  return safe ? { type: 'link', href: safe, children } : { type: 'text', text: flattenInline(children) };
+};
+
+// Tried in order at each position where one of the trigger characters appears
+const INLINE_RULES: [RegExp, (m: RegExpExecArray) => MdInline][] = [
+  [/\\([!-/:-@[-`{-~])/y, m => ({ type: 'text', text: m[1] })],
+  [/(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/y, m => ({ type: 'code', text: m[2] })],
+  [/!\[([^\]\n]*)\]\(image:([^\s()]+)\)/y, m => ({ type: 'image', imageId: m[2], alt: m[1] })],
+  // Remote images are not loaded: they become a link to the picture
+  [/!?\[([^\]\n]+)\]\(\s*<?([^\s<>()]+)>?\s*\)/y, m => link(m[2], parseInline(m[1]))],
+  [/<((?:https?:\/\/|mailto:)[^\s<>]+)>/y, m => link(m[1], [{ type: 'text', text: m[1] }])],
+  [/https?:\/\/[^\s<>]*[^\s<>.,:;"')\]!?*_~]/y, m => link(m[0], [{ type: 'text', text: m[0] }])],
+  [/(\*\*|__)(?=\S)([\s\S]*?\S)\1/y, m => ({ type: 'strong', children: parseInline(m[2]) })],
+  [/~~(?=\S)([\s\S]*?\S)~~/y, m => ({ type: 'del', children: parseInline(m[1]) })],
+  [/\*(?=[^\s*])([\s\S]*?[^\s*])\*/y, m => ({ type: 'em', children: parseInline(m[1]) })],
+  [/_(?=[^\s_])([\s\S]*?[^\s_])_(?![\p{L}\p{N}])/yu, m => ({ type: 'em', children: parseInline(m[1]) })],
+  [/\n/y, () => ({ type: 'break' })],
+];
+const TRIGGERS = new Set(['\\', '`', '!', '[', '<', 'h', '*', '_', '~', '\n']);
+
+/**
+ * Parse inline Markdown (emphasis, code, links, line breaks)
+ */
+export function parseInline(text: string): MdInline[] {
+  const nodes: MdInline[] = [];
+  let plain = '';
+  let pos = 0;
+
+  const flushPlain = () => {
+    if (plain) nodes.push({ type: 'text', text: plain });
+    plain = '';
+  };
+
+  while (pos < text.length) {
+    const char = text[pos];
+    // "_" and bare URLs only start outside a word (snake_case, "xhttp://")
+    const afterWord = pos > 0 && /[\p{L}\p{N}]/u.test(text[pos - 1]);
+    let matched = false;
+    if (TRIGGERS.has(char) && !((char === '_' || char === 'h') && afterWord)) {
+      for (const [pattern, build] of INLINE_RULES) {
+        pattern.lastIndex = pos;
+        const m = pattern.exec(text);
+        if (!m) continue;
+        flushPlain();
+        nodes.push(build(m));
+        pos += m[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) plain += text[pos++];
+  }
+  flushPlain();
+  return nodes;
+}
+
+// ==========================================
+// PLAIN TEXT
+// ==========================================
+
+const flattenInline = (nodes: MdInline[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text': case 'code': return node.text;
+      case 'break': return '\n';
+      case 'image': return node.alt;
+      default: return flattenInline(node.children);
+    }
+  }).join('');
+
+const flattenBlocks = (blocks: MdBlock[]): string[] =>
+  blocks.flatMap(block => {
+    switch (block.type) {
+      case 'heading': case 'paragraph': return [flattenInline(block.children)];
+      case 'quote': return flattenBlocks(block.children);
+      case 'list': return block.items.flatMap(item => flattenBlocks(item.children));
+      case 'code': return [block.text];
+      case 'rule': return [];
+    }
+  });
+
+/**
+ * The text of an entry without Markdown syntax, for previews and snippets
+ */
+export function stripMarkdown(text: string): string {
+  return flattenBlocks(parseMarkdown(text)).join('\n');
+}
+
+/**
+ * Check or uncheck the task item on a source line
+ */
+export function toggleTask(text: string, line: number): string {
+  const lines = text.split('\n');
+  const marker = lines[line]?.match(/^((?:\s*>)*\s*(?:[-*+]|\d{1,9}[.)])\s+)\[([ xX])\]/);
+  if (!marker) return text;
+  lines[line] = `${marker[1]}[${marker[2] === ' ' ? 'x' : ' '}]${lines[line].slice(marker[0].length)}`;
+  return lines.join('\n');
+}
@@ -0,0 +1,176 @@
+// ==========================================
+// MARKDOWN EDITING
+// ==========================================
+// Formatting commands for the editor's textarea. Each command looks at the
+// text and the selection and returns one replacement, applied through the
+// browser's editing commands so Ctrl+Z still undoes it.
+
+export type FormatCommand = 'bold' | 'italic' | 'strike' | 'code' | 'link' | 'heading' | 'quote' | 'bullet' | 'numbered' | 'task';
+
+/**
+ * Replace value[start, end) with `text`, then select [selectionStart, selectionEnd)
+ */
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const WRAPPERS: Partial<Record<FormatCommand, string>> = { bold: '**', italic: '*', strike: '~~', code: '`' };
+
+// Any block prefix a line can start with, replaced when another one is applied
+const LINE_PREFIX = /^(\s*)(?:#{1,6}\s+|>\s?|(?:[-*+]|\d{1,9}[.)])\s+(?:\[[ xX]\]\s+)?)?/;
+const LIST_MARKER = /^(\s*)([-*+]|\d{1,9}[.)])\s+(\[[ xX]\]\s+)?/;
+
+/**
+ * Wrap the selection in a marker, or unwrap it if it already is
+ */
+const toggleWrap = (value: string, start: number, end: number, marker: string): TextEdit => {
+  const selected = value.slice(start, end);
+  const n = marker.length;
+  if (value.slice(start - n, start) === marker && value.slice(end, end + n) === marker) {
+    return { start: start - n, end: end + n, text: selected, selectionStart: start - n, selectionEnd: end - n };
+  }
+  if (selected.length > 2 * n && selected.startsWith(marker) && selected.endsWith(marker)) {
+    const inner = selected.slice(n, -n);
+    return { start, end, text: inner, selectionStart: start, selectionEnd: start + inner.length };
+  }
+  return { start, end, text: marker + selected + marker, selectionStart: start + n, selectionEnd: end + n };
+};
+
+/**
+ * The selection widened to whole lines
+ */
+const lineRange = (value: string, start: number, end: number): [number, number] => {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  // A selection ending right after a newline doesn't include the next line
+  const last = end > start && value[end - 1] === '\n' ? end - 1 : end;
+  const lineEnd = value.indexOf('\n', last);
+  return [lineStart, lineEnd === -1 ? value.length : lineEnd];
+};
+
+/**
+ * Give every selected line a block prefix, or remove it if they all have it
+ */
+const toggleLinePrefix = (value: string, start: number, end: number, command: FormatCommand): TextEdit => {
+  const [from, to] = lineRange(value, start, end);
+  const lines = value.slice(from, to).split('\n');
+  const prefixFor = (i: number) =>
+    command === 'quote' ? '> ' : command === 'numbered' ? `${i + 1}. ` : command === 'task' ? '- [ ] ' : '- ';
+  const has = (line: string, i: number) => {
+    const prefix = line.match(LINE_PREFIX)![0].trimStart();
+    return command === 'numbered' ? /^\d+[.)]\s/.test(prefix) : prefix === prefixFor(i) || (command === 'quote' && prefix === '>');
+  };
+
+  const content = lines.filter(line => line.trim());
+  const remove = content.length > 0 && lines.every((line, i) => !line.trim() || has(line, i));
+  let number = 0;
+  const text = lines.map(line => {
+    if (!line.trim()) return line;
+    const [prefix, indent] = line.match(LINE_PREFIX)!;
+    return indent + (remove ? '' : prefixFor(number++)) + line.slice(prefix.length);
+  }).join('\n');
+
+  return { start: from, end: to, text, selectionStart: from, selectionEnd: from + text.length };
+};
+
+/**
+ * Cycle the selected lines through #, ##, ### and back to plain text
+ */
+const cycleHeading = (value: string, start: number, end: number): TextEdit => {
+  const [from, to] = lineRange(value, start, end);
+  const lines = value.slice(from, to).split('\n');
+  const current = lines[0].match(/^\s*(#{1,6})\s/)?.[1].length || 0;
+  const next = current >= 3 ? 0 : current + 1;
+  const text = lines.map(line => {
+    const [prefix, indent] = line.match(LINE_PREFIX)!;
+    return line.trim() ? indent + (next ? '#'.repeat(next) + ' ' : '') + line.slice(prefix.length) : line;
+  }).join('\n');
+  return { start: from, end: to, text, selectionStart: from, selectionEnd: from + text.length };
+};
+
+/**
+ * The edit for a toolbar button or shortcut
+ */
+export function formatEdit(command: FormatCommand, value: string, start: number, end: number): TextEdit {
+  const marker = WRAPPERS[command];
+  if (marker) return toggleWrap(value, start, end, marker);
+  if (command === 'heading') return cycleHeading(value, start, end);
+  if (command === 'link') {
+    const label = value.slice(start, end) || 'link';
+    const urlStart = start + label.length + 3;
+    return { start, end, text: `[${label}](https://)`, selectionStart: urlStart, selectionEnd: urlStart + 'https://'.length };
+  }
+  return toggleLinePrefix(value, start, end, command);
+}
+
+/**
+ * Enter inside a list item or quote: start the next item. Enter on an empty
+ * item ends the list instead. Null when the cursor isn't in one.
+ */
+export function continueBlock(value: string, cursor: number): TextEdit | null {
+  const lineStart = value.lastIndexOf('\n', cursor - 1) + 1;
+  const line = value.slice(lineStart, cursor);
+  const item = line.match(LIST_MARKER);
+  const quote = line.match(/^(\s*>\s?)/);
+  const prefix = item?.[0] ?? quote?.[0];
+  if (!prefix) return null;
+
+  if (!line.slice(prefix.length).trim()) {
+    return { start: lineStart, end: cursor, text: '', selectionStart: lineStart, selectionEnd: lineStart };
+  }
+  let next = prefix;
+  if (item) {
+    const [, indent, marker, task] = item;
+    const number = parseInt(marker, 10);
+    next = `${indent}${isNaN(number) ? marker : `${number + 1}${marker.slice(-1)}`} ${task ? '[ ] ' : ''}`;
+  }
+  const text = '\n' + next;
+  return { start: cursor, end: cursor, text, selectionStart: cursor + text.length, selectionEnd: cursor + text.length };
+}
+
+/**
+ * The command bound to a key press, if any: Ctrl/Cmd with B, I, K, E;
+ * Shift+X strike, Shift+H heading, Shift+7/8/9 numbered/bullet/task list, Shift+. quote
+ */
+export function shortcutCommand(e: { key: string, code: string, ctrlKey: boolean, metaKey: boolean, shiftKey: boolean, altKey: boolean }): FormatCommand | null {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey) return null;
+  if (e.shiftKey) {
+    switch (e.code) {
+      case 'KeyX': return 'strike';
+      case 'KeyH': return 'heading';
+      case 'Digit7': return 'numbered';
+      case 'Digit8': return 'bullet';
+      case 'Digit9': return 'task';
+      case 'Period': return 'quote';
+      default: return null;
+    }
+  }
+  switch (e.key.toLowerCase()) {
+    case 'b': return 'bold';
+    case 'i': return 'italic';
+    case 'k': return 'link';
+    case 'e': return 'code';
+    default: return null;
+  }
+}
+
+/**
+ * Apply an edit to a textarea as if typed, so React sees the change and the
+ * browser's undo history keeps it
+ */
+export function applyTextEdit(textarea: HTMLTextAreaElement, edit: TextEdit): void {
+  textarea.focus();
+  textarea.setSelectionRange(edit.start, edit.end);
+  const done = edit.text
+    ? document.execCommand('insertText', false, edit.text)
+    : edit.start === edit.end || document.execCommand('delete');
+  if (!done) {
+    // execCommand is unavailable: no undo entry, but the text still changes
+    textarea.setRangeText(edit.text, edit.start, edit.end);
+    textarea.dispatchEvent(new Event('input', { bubbles: true }));
+  }
+  textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+}
@@ -0,0 +1,321 @@
+import { JournalEntry, JournalAttachment, Mood, SyncBase } from '../types';
+
+// ==========================================
+// THREE-WAY MERGE
+// ==========================================
+// Entries are merged against the last version both devices agreed on (the
+// "sync base"). Text merges line by line, diff3 style: changes to different
+// lines are combined, changes to the same lines become a conflict.
+
+export type MergeChunk =
+  | { kind: 'stable'; lines: string[] }
+  | { kind: 'conflict'; base: string[]; local: string[]; remote: string[] };
+
+export type ReconcileResult =
+  | { action: 'in-sync' }                           // Remote matches local: just record the new base
+  | { action: 'keep-local' }                        // Only this device changed; the outbox will push it
+  | { action: 'take-remote'; entry: JournalEntry }  // Only the other device changed
+  | { action: 'merged'; entry: JournalEntry }       // Both changed, combined without overlap
+  | { action: 'conflict'; entry: JournalEntry };    // Both changed the same region: needs the resolver
+
+// Past this many table cells (64 MB of Uint32) the comparison would freeze
+// the page or fail to allocate
+const LCS_MAX_CELLS = 16_000_000;
+
+/**
+ * Length of the common prefix, and where the common suffix starts in each list
+ */
+function commonEnds(a: string[], b: string[]): { start: number; endA: number; endB: number } {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  return { start, endA, endB };
+}
+
+/**
+ * Whether lcsMatch can compare the two lists in full (the part between their
+ * common prefix and suffix is small enough)
+ */
+export function lcsFits(a: string[], b: string[]): boolean {
+  const { start, endA, endB } = commonEnds(a, b);
+  return (endA - start) * (endB - start) <= LCS_MAX_CELLS;
+}
+
+/**
+ * Longest common subsequence between two token lists.
+ * Returns, for each index of `a`, the matched index in `b` (or -1).
+ * Past LCS_MAX_CELLS only the common prefix and suffix are matched.
+ */
+export function lcsMatch(a: string[], b: string[]): number[] {
+  const match: number[] = new Array(a.length).fill(-1);
+
+  // Common prefix / suffix are matched directly to keep the table small
+  const { start, endA, endB } = commonEnds(a, b);
+  for (let i = 0; i < start; i++) match[i] = i;
+  for (let i = endA; i < a.length; i++) match[i] = endB + (i - endA);
+
+  const rows = endA - start;
+  const cols = endB - start;
+  if (rows * cols > LCS_MAX_CELLS) return match;
+  const table: Uint32Array[] = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      table[i][j] = a[start + i] === b[start + j]
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (a[start + i] === b[start + j]) {
+      match[start + i] = start + j;
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return match;
+}
+
+const sameLines = (x: string[], y: string[]) => x.length === y.length && x.every((line, i) => line === y[i]);
+
+/**
+ * diff3 over lines. Consecutive stable/merged lines are grouped into one chunk.
+ */
+export function mergeText(base: string, local: string, remote: string): MergeChunk[] {
+  const o = base.split('\n');
+  const a = local.split('\n');
+  const b = remote.split('\n');
+  const matchA = lcsMatch(o, a);
+  const matchB = lcsMatch(o, b);
+
+  const chunks: MergeChunk[] = [];
+  const pushStable = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last && last.kind === 'stable') last.lines.push(...lines);
+    else chunks.push({ kind: 'stable', lines: [...lines] });
+  };
+  const pushChange = (oc: string[], ac: string[], bc: string[]) => {
+    if (sameLines(ac, oc)) pushStable(bc);
+    else if (sameLines(bc, oc)) pushStable(ac);
+    else if (sameLines(ac, bc)) pushStable(ac);
+    else chunks.push({ kind: 'conflict', base: oc, local: ac, remote: bc });
+  };
+
+  let io = 0, ia = 0, ib = 0;
+  while (true) {
+    // Next base line that survives unchanged on both sides
+    let k = io;
+    while (k < o.length && !(matchA[k] >= ia && matchB[k] >= ib)) k++;
+
+    if (k === o.length) {
+      pushChange(o.slice(io), a.slice(ia), b.slice(ib));
+      break;
+    }
+
+    pushChange(o.slice(io, k), a.slice(ia, matchA[k]), b.slice(ib, matchB[k]));
+    pushStable([o[k]]);
+    io = k + 1;
+    ia = matchA[k] + 1;
+    ib = matchB[k] + 1;
+  }
+
+  return chunks;
+}
+
+/**
+ * Rebuild text from chunks, picking lines for each conflict with `choose`
+ */
+export function joinChunks(chunks: MergeChunk[], choose: (chunk: Extract<MergeChunk, { kind: 'conflict' }>, index: number) => string[]): string {
+  let conflictIndex = 0;
+  const lines: string[] = [];
+  for (const chunk of chunks) {
+    if (chunk.kind === 'stable') lines.push(...chunk.lines);
+    else lines.push(...choose(chunk, conflictIndex++));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Three-way merge of a single value: conflict only if both sides changed it differently
+ */
+export function mergeValue<T>(base: T, local: T, remote: T): { value: T } | { conflict: true } {
+  if (local === remote || remote === base) return { value: local };
+  if (local === base) return { value: remote };
+  return { conflict: true };
+}
+
+/**
+ * Attachments merge as a set: additions from either side are kept, removals from either side win
+ */
+export function mergeImages(baseIds: string[], local: JournalAttachment[], remote: JournalAttachment[]): JournalAttachment[] {
+  const base = new Set(baseIds);
+  const localIds = new Set(local.map(img => img.id));
+  const remoteIds = new Set(remote.map(img => img.id));
+
+  const kept = local.filter(img => !base.has(img.id) || remoteIds.has(img.id));
+  const added = remote.filter(img => !base.has(img.id) && !localIds.has(img.id));
+  return [...kept, ...added];
+}
+
+/**
+ * Merge tag lists the same way: additions and removals from both sides apply
+ */
+export function mergeTags(baseTags: string[] = [], local: string[] = [], remote: string[] = []): string[] {
+  const kept = local.filter(tag => !baseTags.includes(tag) || remote.includes(tag));
+  const added = remote.filter(tag => !baseTags.includes(tag) && !local.includes(tag));
+  return [...kept, ...added];
+}
+
+export function toSyncBase(entry: JournalEntry): SyncBase {
+  return {
+    id: entry.id,
+    title: entry.title,
+    content: entry.content,
+    mood: entry.mood,
+    tags: entry.tags || [],
+    imageIds: entry.images.map(img => img.id),
+    createdAt: entry.createdAt,
+    deletedAt: entry.deletedAt,
+    driveFileId: entry.driveFileId,
+    driveModifiedTime: entry.driveModifiedTime,
+  };
+}
+
+const sameVersion = (x: SyncBase, y: SyncBase) =>
+  x.title === y.title &&
+  x.content === y.content &&
+  x.mood === y.mood &&
+  (x.createdAt === undefined || y.createdAt === undefined || x.createdAt === y.createdAt) &&
+  x.deletedAt === y.deletedAt &&
+  sameLines([...(x.tags || [])].sort(), [...(y.tags || [])].sort()) &&
+  sameLines([...x.imageIds].sort(), [...y.imageIds].sort());
+
+/**
+ * Decide what to do with a remote version of an entry we also have locally.
+ * Without a base (entries synced before bases were tracked) the newer timestamp wins.
+ */
+export function reconcileEntry(base: SyncBase | undefined, local: JournalEntry, remote: JournalEntry): ReconcileResult {
+  const localVersion = toSyncBase(local);
+  const remoteVersion = toSyncBase(remote);
+
+  if (sameVersion(localVersion, remoteVersion) && !local.conflict) return { action: 'in-sync' };
+
+  if (!base) {
+    return remote.updatedAt > local.updatedAt
+      ? { action: 'take-remote', entry: remote }
+      : { action: 'keep-local' };
+  }
+
+  const remoteChanged = !sameVersion(remoteVersion, base);
+  const localChanged = !sameVersion(localVersion, base) || !!local.conflict;
+
+  if (!remoteChanged) return { action: 'keep-local' };
+  if (!localChanged) return { action: 'take-remote', entry: remote };
+
+  const title = mergeValue(base.title, local.title, remote.title);
+  const mood = mergeValue<Mood | undefined>(base.mood, local.mood, remote.mood);
+  const deletedAt = mergeValue(base.deletedAt, local.deletedAt, remote.deletedAt);
+  const createdAt = mergeValue(base.createdAt ?? local.createdAt, local.createdAt, remote.createdAt);
+  const chunks = mergeText(base.content, local.content, remote.content);
+  const hasTextConflict = chunks.some(c => c.kind === 'conflict');
+
+  if ('conflict' in title || 'conflict' in mood || hasTextConflict) {
+    return {
+      action: 'conflict',
+      entry: { ...local, conflict: { base, remote, detectedAt: Date.now() } },
+    };
+  }
+
+  return {
+    action: 'merged',
+    entry: {
+      ...local,
+      title: title.value,
+      mood: mood.value,
+      content: joinChunks(chunks, c => c.local),
+      tags: mergeTags(base.tags, local.tags, remote.tags),
+      images: mergeImages(base.imageIds, local.images, remote.images),
+      // A date moved on both sides keeps this device's choice; the zone goes with the date
+      createdAt: 'value' in createdAt ? createdAt.value : local.createdAt,
+      timeZone: 'value' in createdAt && createdAt.value !== local.createdAt ? remote.timeZone : local.timeZone,
+      // Trashing or restoring on either side wins; if both did, this device's state stands
+      deletedAt: 'value' in deletedAt ? deletedAt.value : local.deletedAt,
+      updatedAt: Date.now(),
+      conflict: undefined,
+    },
+  };
+}
+
+// ==========================================
+// WORD DIFF (revision history)
+// ==========================================
+
+export interface DiffPart {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+const wordTokens = (text: string) => text.split(/(\s+)/).filter(token => token !== '');
+// Lines keep their newline, so joining them rebuilds the text
+const lineTokens = (text: string) => text.split(/(?<=\n)/).filter(token => token !== '');
+
+/**
+ * Word-level two-way diff. Whitespace runs are tokens too, so joining the
+ * 'same' and 'added' parts rebuilds `after` exactly. Texts too different to
+ * compare word by word (a large paste over a long entry) are compared line
+ * by line, then word by word within the changed lines where that fits;
+ * what still doesn't fit shows as one removed and one added block.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const parts: DiffPart[] = [];
+  const push = (kind: DiffPart['kind'], text: string) => {
+    if (!text) return;
+    const last = parts[parts.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else parts.push({ kind, text });
+  };
+
+  const compare = (before: string, after: string, byLines: boolean) => {
+    const a = byLines ? lineTokens(before) : wordTokens(before);
+    const b = byLines ? lineTokens(after) : wordTokens(after);
+    const match = lcsMatch(a, b);
+
+    const pushChange = (removed: string, added: string) => {
+      if (byLines && removed && added && lcsFits(wordTokens(removed), wordTokens(added))) {
+        compare(removed, added, false);
+        return;
+      }
+      push('removed', removed);
+      push('added', added);
+    };
+
+    let removed = '';
+    let j = 0;
+    for (let i = 0; i < a.length; i++) {
+      if (match[i] === -1) {
+        removed += a[i];
+        continue;
+      }
+      pushChange(removed, b.slice(j, match[i]).join(''));
+      removed = '';
+      push('same', a[i]);
+      j = match[i] + 1;
+    }
+    pushChange(removed, b.slice(j).join(''));
+  };
+
+  compare(before, after, !lcsFits(wordTokens(before), wordTokens(after)));
+  return parts;
+}
@@ -0,0 +1,207 @@
+import { JournalEntry, Mood, MoodColor, MoodLevel, StoredMoodScale } from '../types';
+import { MessageKey } from '../locales/en';
+import { currentLanguage, t } from './i18n';
+
+// ==========================================
+// MOOD SCALE
+// ==========================================
+// The moods an entry can have are configurable. Entries store the level id;
+// the label, emoji and color can change without touching them. The score is
+// what insights average, higher is better. The default levels are shown in
+// the UI language for as long as their label is left unchanged.
+//
+// The scale is shared by every device through Drive (see App's sync): an edit
+// stays marked unsynced until Drive has it, and a newer scale from Drive
+// replaces this device's.
+
+const MOOD_SCALE_KEY = 'zenjournal_mood_scale';
+const MOOD_SCALE_VERSION = 1;
+
+export const DEFAULT_MOOD_SCALE: MoodLevel[] = [
+  { id: 'great', label: 'Great', emoji: '😁', color: 'emerald', score: 4 },
+  { id: 'good', label: 'Good', emoji: '🙂', color: 'sky', score: 3 },
+  { id: 'okay', label: 'Okay', emoji: '😐', color: 'amber', score: 2 },
+  { id: 'bad', label: 'Bad', emoji: '☹️', color: 'rose', score: 1 },
+];
+
+const DEFAULT_LABEL_KEYS: Record<string, MessageKey> = {
+  great: 'mood.great',
+  good: 'mood.good',
+  okay: 'mood.okay',
+  bad: 'mood.bad',
+};
+
+// Before the scale was configurable, entries stored these names
+const LEGACY_MOOD_IDS = new Map<string, Mood>([['Great', 'great'], ['Good', 'good'], ['Okay', 'okay'], ['Bad', 'bad']]);
+
+/**
+ * Tailwind classes per color, written out in full
+ */
+export const MOOD_COLOR_CLASSES: Record<MoodColor, { chip: string, cell: string, bar: string, fill: string }> = {
+  emerald: { chip: 'bg-emerald-100 text-emerald-700 border-emerald-200', cell: 'bg-emerald-50 border-emerald-200', bar: 'bg-emerald-400', fill: 'fill-emerald-400' },
+  teal: { chip: 'bg-teal-100 text-teal-700 border-teal-200', cell: 'bg-teal-50 border-teal-200', bar: 'bg-teal-400', fill: 'fill-teal-400' },
+  sky: { chip: 'bg-sky-100 text-sky-700 border-sky-200', cell: 'bg-sky-50 border-sky-200', bar: 'bg-sky-400', fill: 'fill-sky-400' },
+  indigo: { chip: 'bg-indigo-100 text-indigo-700 border-indigo-200', cell: 'bg-indigo-50 border-indigo-200', bar: 'bg-indigo-400', fill: 'fill-indigo-400' },
+  violet: { chip: 'bg-violet-100 text-violet-700 border-violet-200', cell: 'bg-violet-50 border-violet-200', bar: 'bg-violet-400', fill: 'fill-violet-400' },
+  pink: { chip: 'bg-pink-100 text-pink-700 border-pink-200', cell: 'bg-pink-50 border-pink-200', bar: 'bg-pink-400', fill: 'fill-pink-400' },
+  rose: { chip: 'bg-rose-100 text-rose-700 border-rose-200', cell: 'bg-rose-50 border-rose-200', bar: 'bg-rose-400', fill: 'fill-rose-400' },
+  orange: { chip: 'bg-orange-100 text-orange-700 border-orange-200', cell: 'bg-orange-50 border-orange-200', bar: 'bg-orange-400', fill: 'fill-orange-400' },
+  amber: { chip: 'bg-amber-100 text-amber-700 border-amber-200', cell: 'bg-amber-50 border-amber-200', bar: 'bg-amber-400', fill: 'fill-amber-400' },
+  lime: { chip: 'bg-lime-100 text-lime-700 border-lime-200', cell: 'bg-lime-50 border-lime-200', bar: 'bg-lime-400', fill: 'fill-lime-400' },
+  stone: { chip: 'bg-stone-100 text-stone-700 border-stone-200', cell: 'bg-stone-50 border-stone-200', bar: 'bg-stone-400', fill: 'fill-stone-400' },
+};
+
+export const MOOD_COLORS = Object.keys(MOOD_COLOR_CLASSES) as MoodColor[];
+
+// Cached so React sees a stable value until the scale or the language changes
+let cachedScale: MoodLevel[] | null = null;
+let cachedLanguage: string | null = null;
+const listeners = new Set<() => void>();
+
+const isMoodLevel = (level: any): level is MoodLevel =>
+  level && typeof level.id === 'string' && typeof level.label === 'string' &&
+  typeof level.emoji === 'string' && level.color in MOOD_COLOR_CLASSES && typeof level.score === 'number';
+
+/**
+ * A level with its label in the UI language, if it is a default level still
+ * carrying the default (English) label
+ */
+export function localizeMoodLevel(level: MoodLevel): MoodLevel {
+  const key = DEFAULT_LABEL_KEYS[level.id];
+  const isDefaultLabel = DEFAULT_MOOD_SCALE.some(d => d.id === level.id && d.label === level.label);
+  return key && isDefaultLabel ? { ...level, label: t(key) } : level;
+}
+
+// The reverse, for saving: a default label shown translated is stored in English
+const storedMoodLevel = (level: MoodLevel): MoodLevel => {
+  const key = DEFAULT_LABEL_KEYS[level.id];
+  const original = DEFAULT_MOOD_SCALE.find(d => d.id === level.id);
+  return key && original && level.label === t(key) ? { ...level, label: original.label } : level;
+};
+
+const isValidScale = (levels: any): levels is MoodLevel[] =>
+  Array.isArray(levels) && levels.length > 0 && levels.every(isMoodLevel);
+
+// Scales saved before sharing have no savedAt (oldest) and count as unsynced
+const readStoredScale = (): (StoredMoodScale & { synced: boolean }) | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(MOOD_SCALE_KEY) || 'null');
+    if (stored?.version !== MOOD_SCALE_VERSION || !isValidScale(stored.levels)) return null;
+    return { levels: stored.levels, savedAt: stored.savedAt || 0, synced: !!stored.synced };
+  } catch {
+    // Unreadable config: fall back to the default scale
+    return null;
+  }
+};
+
+const writeStoredScale = (scale: StoredMoodScale, synced: boolean) => {
+  localStorage.setItem(MOOD_SCALE_KEY, JSON.stringify({ version: MOOD_SCALE_VERSION, ...scale, synced }));
+  cachedScale = null;
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * The configured levels, best (highest score) first
+ */
+export function getMoodScale(): MoodLevel[] {
+  const language = currentLanguage();
+  if (cachedScale && cachedLanguage === language) return cachedScale;
+  const levels = readStoredScale()?.levels || DEFAULT_MOOD_SCALE;
+  cachedScale = levels.map(localizeMoodLevel).sort((a, b) => b.score - a.score);
+  cachedLanguage = language;
+  return cachedScale;
+}
+
+export function saveMoodScale(levels: MoodLevel[]): void {
+  writeStoredScale({ levels: levels.map(storedMoodLevel), savedAt: Date.now() }, false);
+}
+
+/**
+ * This device's scale if Drive doesn't have it yet, as it should be shared
+ */
+export function unsyncedMoodScale(): StoredMoodScale | null {
+  const stored = readStoredScale();
+  return stored && !stored.synced ? { levels: stored.levels, savedAt: stored.savedAt } : null;
+}
+
+/**
+ * Record the scale Drive holds: it replaces this device's unless an edit made
+ * here is newer and still waiting to be sent
+ */
+export function applySharedMoodScale(shared: StoredMoodScale): void {
+  if (!isValidScale(shared.levels)) return;
+  const stored = readStoredScale();
+  if (stored && !stored.synced && stored.savedAt > shared.savedAt) return;
+  writeStoredScale({ levels: shared.levels, savedAt: shared.savedAt }, true);
+}
+
+/**
+ * Be notified when the scale changes; returns the unsubscribe function
+ */
+export function subscribeMoodScale(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Display data for a mood. Ids missing from the scale (a level was removed,
+ * or the entry came from a device with a different scale) still get a
+ * neutral level so nothing is hidden.
+ */
+export function getMoodLevel(mood: Mood, scale = getMoodScale()): MoodLevel {
+  return scale.find(level => level.id === mood)
+    || { id: mood, label: mood, emoji: '❔', color: 'stone', score: NaN };
+}
+
+/**
+ * Map a stored or typed mood to a level id: an id, a label (any case) or an
+ * emoji of the current scale, or one of the legacy names
+ */
+export function resolveMood(value: string, scale = getMoodScale()): Mood | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  const lower = trimmed.toLowerCase();
+  return scale.find(level => level.id === trimmed)?.id
+    || scale.find(level => level.label.toLowerCase() === lower)?.id
+    || scale.find(level => level.emoji === trimmed)?.id
+    || LEGACY_MOOD_IDS.get(trimmed);
+}
+
+/**
+ * Mood values written before the scale was configurable, as level ids
+ */
+export function migrateLegacyMood(mood: string | undefined): Mood | undefined {
+  return (mood !== undefined && LEGACY_MOOD_IDS.get(mood)) || mood;
+}
+
+/**
+ * The level whose score is closest to `score`
+ */
+export function nearestMoodLevel(score: number, scale = getMoodScale()): MoodLevel {
+  return scale.reduce((best, level) => (Math.abs(level.score - score) < Math.abs(best.score - score) ? level : best));
+}
+
+/**
+ * Id for a new level, derived from its label and unique within the scale
+ */
+export function newMoodId(label: string, scale: MoodLevel[]): Mood {
+  const base = label.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'mood';
+  let id = base;
+  for (let n = 2; scale.some(level => level.id === id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+/**
+ * Entries whose mood is not in `scale`, with the level each moves to
+ * (the remaining level with the nearest score to the removed one)
+ */
+export function moodReassignments(entries: JournalEntry[], previous: MoodLevel[], scale: MoodLevel[]): Map<string, Mood> {
+  const moves = new Map<string, Mood>();
+  for (const entry of entries) {
+    if (!entry.mood || scale.some(level => level.id === entry.mood)) continue;
+    const removed = previous.find(level => level.id === entry.mood);
+    if (!removed) continue; // Not from this device's scale: leave it alone
+    moves.set(entry.id, nearestMoodLevel(removed.score, scale).id);
+  }
+  return moves;
+}
@@ -0,0 +1,262 @@
+import { AttachmentKind, JournalEntry, Mood, SearchField, SearchHit } from '../types';
+import { attachmentKind } from './attachments';
+import { entryDayKey } from './dateTime';
+import { foldText, queryTerms, tokenize } from './search';
+import { getMoodScale, resolveMood } from './moodScale';
+import { entryTags, normalizeTag } from './tags';
+import { searchEntries } from './storage';
+import { t } from './i18n';
+
+// ==========================================
+// SEARCH QUERY LANGUAGE
+// ==========================================
+//   words            every word must start a word in the title or content
+//   "exact phrase"   the phrase must appear as written, as whole words (case and accents ignored)
+//   -word -"phrase"  entries containing it are left out
+//   title:word       only the title; body:word only the content (quotes allowed)
+//   mood:good        one mood of the scale (label, id or emoji), or several: mood:good,great
+//   before:2025-06-01 / after:2025-06  by the day the entry was written
+//   tag:travel       entries with the tag (chip or #hashtag); several tag: filters must all match
+//   has:image        entries with at least one photo; has:audio a voice note, has:file another file
+
+export interface QueryError {
+  message: string;
+  start: number; // Position in the query string
+  end: number;
+}
+
+export interface ParsedQuery {
+  words: { text: string; field: SearchField }[];
+  phrases: { text: string; field: SearchField }[];
+  excludedWords: string[];
+  excludedPhrases: string[];
+  moods: Mood[];
+  tags: string[];
+  before?: string; // Date prefix: YYYY, YYYY-MM or YYYY-MM-DD
+  after?: string;
+  has: AttachmentKind[]; // Kinds of attachment the entry must have
+  errors: QueryError[];
+}
+
+const FILTER_KEYS = ['title', 'body', 'mood', 'tag', 'before', 'after', 'has'];
+const HAS_VALUES = new Map<string, AttachmentKind>([
+  ['image', 'image'], ['images', 'image'], ['photo', 'image'], ['photos', 'image'],
+  ['audio', 'audio'], ['voice', 'audio'], ['recording', 'audio'],
+  ['file', 'file'], ['files', 'file'], ['attachment', 'file'],
+]);
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+const isValidDate = (value: string) => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const [year, month = '01', day = '01'] = value.split('-');
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  return date.getUTCMonth() === Number(month) - 1 && date.getUTCDate() === Number(day);
+};
+
+/**
+ * Parse a query string. Invalid parts are reported in `errors` and skipped;
+ * the rest of the query still applies.
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = {
+    words: [], phrases: [], excludedWords: [], excludedPhrases: [], moods: [], tags: [], has: [], errors: [],
+  };
+  const error = (message: string, start: number, end: number) => parsed.errors.push({ message, start, end });
+
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1]);
+    if (negated) i++;
+
+    // Optional "key:" prefix
+    let key: string | null = null;
+    const keyMatch = /^([a-zA-Z]+):/.exec(query.slice(i));
+    if (keyMatch) {
+      key = keyMatch[1].toLowerCase();
+      i += keyMatch[0].length;
+    }
+
+    // Value: quoted or up to the next space
+    let value: string;
+    let quoted = false;
+    if (query[i] === '"') {
+      quoted = true;
+      const close = query.indexOf('"', i + 1);
+      if (close === -1) {
+        error(t('query.missingQuote'), i, query.length);
+        value = query.slice(i + 1);
+        i = query.length;
+      } else {
+        value = query.slice(i + 1, close);
+        i = close + 1;
+      }
+    } else {
+      const match = /^\S*/.exec(query.slice(i))!;
+      value = match[0];
+      i += value.length;
+    }
+    const end = i;
+    value = value.trim();
+
+    if (key !== null && !FILTER_KEYS.includes(key)) {
+      error(t('query.unknownFilter', { key }), start, end);
+      continue;
+    }
+    if (key !== null && !value) {
+      error(t('query.missingValue', { key }), start, end);
+      continue;
+    }
+    if (negated && key !== null) {
+      error(t('query.cantExclude', { key }), start, end);
+      continue;
+    }
+
+    switch (key) {
+      case 'mood': {
+        for (const name of value.split(',').filter(Boolean)) {
+          const mood = resolveMood(name);
+          if (mood) parsed.moods.push(mood);
+          else error(t('query.unknownMood', { name, moods: getMoodScale().map(level => level.label).join(', ') }), start, end);
+        }
+        break;
+      }
+      case 'tag': {
+        const tag = normalizeTag(value);
+        if (tag) parsed.tags.push(tag);
+        else error(t('query.badTag', { value }), start, end);
+        break;
+      }
+      case 'before':
+      case 'after': {
+        if (isValidDate(value)) parsed[key] = value;
+        else error(t('query.badDate', { value }), start, end);
+        break;
+      }
+      case 'has': {
+        const kind = HAS_VALUES.get(value.toLowerCase());
+        if (kind) parsed.has.push(kind);
+        else error(t('query.unknownHas', { value }), start, end);
+        break;
+      }
+      default: {
+        // Plain text, optionally scoped to the title or the body
+        const field: SearchField = key === 'title' || key === 'body' ? key : 'any';
+        // Quoted text is matched as written, even a single word ("cat" is not "category")
+        const isPhrase = quoted && queryTerms(value).length > 0;
+        if (negated) {
+          if (isPhrase) parsed.excludedPhrases.push(value);
+          else parsed.excludedWords.push(...queryTerms(value));
+        } else if (isPhrase) {
+          parsed.phrases.push({ text: value, field });
+        } else {
+          parsed.words.push(...queryTerms(value).map(text => ({ text, field })));
+        }
+      }
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * True when the query has text for the index to rank
+ */
+const hasTextTerms = (parsed: ParsedQuery) => parsed.words.length > 0 || parsed.phrases.length > 0;
+
+/**
+ * Folded, whitespace-collapsed text for phrase checks
+ */
+const foldForPhrase = (text: string) => foldText(text).replace(/\s+/g, ' ');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Matcher for a phrase as whole words of folded text ("the cat" is not in "bathe catalog")
+ */
+const phrasePattern = (phrase: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(foldForPhrase(phrase.trim()))}(?![\\p{L}\\p{N}])`, 'u');
+
+/**
+ * Non-ranking conditions: mood, tags, dates, attachments, phrases and exclusions
+ */
+export function matchesFilters(entry: JournalEntry, parsed: ParsedQuery): boolean {
+  if (parsed.moods.length > 0 && (!entry.mood || !parsed.moods.includes(entry.mood))) return false;
+  if (!parsed.has.every(kind => entry.images.some(att => attachmentKind(att) === kind))) return false;
+  if (parsed.tags.length > 0) {
+    const tags = entryTags(entry);
+    if (!parsed.tags.every(tag => tags.includes(tag))) return false;
+  }
+
+  const day = entryDayKey(entry);
+  if (parsed.before && day.slice(0, parsed.before.length) >= parsed.before) return false;
+  if (parsed.after && day.slice(0, parsed.after.length) <= parsed.after) return false;
+
+  const title = foldForPhrase(entry.title);
+  const body = foldForPhrase(entry.content);
+  for (const phrase of parsed.phrases) {
+    const pattern = phrasePattern(phrase.text);
+    const inTitle = phrase.field !== 'body' && pattern.test(title);
+    const inBody = phrase.field !== 'title' && pattern.test(body);
+    if (!inTitle && !inBody) return false;
+  }
+  for (const phrase of parsed.excludedPhrases) {
+    const pattern = phrasePattern(phrase);
+    if (pattern.test(title) || pattern.test(body)) return false;
+  }
+
+  if (parsed.excludedWords.length > 0) {
+    const words = new Set([...tokenize(entry.title), ...tokenize(entry.content)]);
+    if (parsed.excludedWords.some(word => words.has(word))) return false;
+  }
+  return true;
+}
+
+/**
+ * Words to highlight in results
+ */
+export function highlightTerms(parsed: ParsedQuery): string[] {
+  return [...new Set([
+    ...parsed.words.map(w => w.text),
+    ...parsed.phrases.flatMap(p => queryTerms(p.text)),
+  ])];
+}
+
+/**
+ * Rank entries for the query's text through the full-text index, one lookup
+ * per field; an entry must match in every one. Null when the query has no
+ * text (nothing to rank: every entry that passes the filters qualifies).
+ */
+export async function rankQuery(parsed: ParsedQuery): Promise<SearchHit[] | null> {
+  if (!hasTextTerms(parsed)) return null;
+
+  const byField = new Map<SearchField, string[]>();
+  const add = (field: SearchField, terms: string[]) => byField.set(field, [...(byField.get(field) || []), ...terms]);
+  parsed.words.forEach(w => add(w.field, [w.text]));
+  parsed.phrases.forEach(p => add(p.field, queryTerms(p.text)));
+
+  let combined: Map<string, number> | null = null;
+  for (const [field, terms] of byField) {
+    const hits = await searchEntries(terms.join(' '), field);
+    const scores = new Map(hits.map(hit => [hit.entryId, hit.score]));
+    if (combined === null) {
+      combined = scores;
+    } else {
+      const next = new Map<string, number>();
+      for (const [id, score] of combined) {
+        if (scores.has(id)) next.set(id, score + scores.get(id)!);
+      }
+      combined = next;
+    }
+  }
+
+  const terms = highlightTerms(parsed);
+  return [...(combined || new Map<string, number>()).entries()]
+    .map(([entryId, score]) => ({ entryId, score, terms }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,149 @@
+// ==========================================
+// FULL-TEXT SEARCH (text processing)
+// ==========================================
+// The inverted index itself lives in IndexedDB (see storage.ts). Text is folded
+// the same way on both sides: decomposed, diacritics stripped, lowercased, so
+// "ete" finds "été" and "Noël" finds "noel".
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+const MIN_TOKEN_LENGTH = 2;
+const SNIPPET_RADIUS = 60;
+
+const LIGATURES: Record<string, string> = { 'œ': 'oe', 'æ': 'ae', 'ß': 'ss' };
+
+/**
+ * Fold one character: diacritics removed, lowercased, ligatures expanded
+ */
+const foldChar = (char: string): string => {
+  const lower = char.toLowerCase();
+  return LIGATURES[lower] ?? lower.normalize('NFD').replace(/\p{M}/gu, '');
+};
+
+/**
+ * Fold a whole text for matching
+ */
+export function foldText(text: string): string {
+  let folded = '';
+  for (const char of text) folded += foldChar(char);
+  return folded;
+}
+
+/**
+ * Split text into folded index terms (single letters are skipped)
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = foldText(text).match(TOKEN_PATTERN) || [];
+  return tokens.filter(t => t.length >= MIN_TOKEN_LENGTH);
+}
+
+/**
+ * Query terms: folded tokens, deduplicated. Single letters are kept so typing
+ * the first character of a word already narrows the results.
+ */
+export function queryTerms(query: string): string[] {
+  return [...new Set(foldText(query).match(TOKEN_PATTERN) || [])];
+}
+
+/**
+ * How often each term occurs in a text
+ */
+export function termCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of tokenize(text)) counts.set(term, (counts.get(term) || 0) + 1);
+  return counts;
+}
+
+/**
+ * Folded copy of `text` with, for each folded character, the index of the
+ * original character it came from
+ */
+function foldWithOffsets(text: string): { folded: string; offsets: number[] } {
+  let folded = '';
+  const offsets: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const f = foldChar(char);
+    for (let i = 0; i < f.length; i++) offsets.push(index);
+    folded += f;
+    index += char.length;
+  }
+  offsets.push(text.length);
+  return { folded, offsets };
+}
+
+/**
+ * Ranges (in the original text) of words starting with one of the terms
+ */
+export function findMatches(text: string, terms: string[]): [number, number][] {
+  if (terms.length === 0) return [];
+  const { folded, offsets } = foldWithOffsets(text);
+  const ranges: [number, number][] = [];
+
+  for (const match of folded.matchAll(TOKEN_PATTERN)) {
+    const word = match[0];
+    const term = terms.find(t => word.startsWith(t));
+    if (!term) continue;
+    const start = match.index!;
+    ranges.push([offsets[start], offsets[start + term.length]]);
+  }
+  return ranges;
+}
+
+/**
+ * Split text into plain and highlighted parts
+ */
+export function highlight(text: string, terms: string[]): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let cursor = 0;
+  for (const [start, end] of findMatches(text, terms)) {
+    if (start > cursor) parts.push({ text: text.slice(cursor, start), highlight: false });
+    parts.push({ text: text.slice(start, end), highlight: true });
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push({ text: text.slice(cursor), highlight: false });
+  return parts;
+}
+
+/**
+ * Short excerpt around the densest cluster of matches, with matches highlighted.
+ * Falls back to the start of the text when nothing matches.
+ */
+export function buildSnippet(text: string, terms: string[], radius = SNIPPET_RADIUS): SnippetPart[] {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const matches = findMatches(flat, terms);
+
+  let start = 0;
+  if (matches.length > 0) {
+    // Window containing the most matches
+    let best = 0;
+    let bestCount = 0;
+    for (let i = 0; i < matches.length; i++) {
+      const count = matches.filter(([s]) => s >= matches[i][0] && s < matches[i][0] + radius * 2).length;
+      if (count > bestCount) {
+        best = i;
+        bestCount = count;
+      }
+    }
+    start = Math.max(0, matches[best][0] - Math.floor(radius / 2));
+    // Don't cut a word in half
+    if (start > 0) {
+      const space = flat.indexOf(' ', start);
+      if (space !== -1 && space < matches[best][0]) start = space + 1;
+    }
+  }
+
+  let end = Math.min(flat.length, start + radius * 2);
+  if (end < flat.length) {
+    const space = flat.lastIndexOf(' ', end);
+    if (space > start + radius) end = space;
+  }
+  const parts = highlight(flat.slice(start, end), terms);
+  if (start > 0) parts.unshift({ text: '…', highlight: false });
+  if (end < flat.length) parts.push({ text: '…', highlight: false });
+  return parts;
+}
@@ -0,0 +1,74 @@
+// ==========================================
+// APP UPDATES
+// ==========================================
+// The service worker (src/sw.js) keeps the app shell cached for offline use.
+// When a new build is deployed its worker installs in the background and
+// waits; the page offers to reload, and only then does the new worker take
+// over, so a half-written entry is never swapped out from under the user.
+
+let waitingWorker: ServiceWorker | null = null;
+const listeners = new Set<() => void>();
+
+const setWaiting = (worker: ServiceWorker | null) => {
+  waitingWorker = worker;
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Install the service worker (production builds only) and watch for updates
+ */
+export async function registerServiceWorker(): Promise<void> {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  // The new worker took over after applyUpdate: load the new build
+  const hadController = !!navigator.serviceWorker.controller;
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    // The first install claims the page too, but nothing changed for it
+    if (!hadController || reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+
+  try {
+    const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+    if (registration.waiting && navigator.serviceWorker.controller) setWaiting(registration.waiting);
+
+    registration.addEventListener('updatefound', () => {
+      const installing = registration.installing;
+      installing?.addEventListener('statechange', () => {
+        // Without a controller this is the first install, not an update
+        if (installing.state === 'installed' && navigator.serviceWorker.controller) setWaiting(installing);
+      });
+    });
+
+    // Installed apps stay open for days: look for a new build when they come back
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') registration.update().catch(() => {});
+    });
+  } catch (e) {
+    console.warn('Service worker registration failed', e);
+  }
+}
+
+export const hasUpdate = () => waitingWorker !== null;
+
+/**
+ * Be notified when an update is ready; returns the unsubscribe function
+ */
+export function subscribeUpdate(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Switch to the waiting build; the page reloads once it has taken over
+ */
+export function applyUpdate(): void {
+  waitingWorker?.postMessage({ type: 'SKIP_WAITING' });
+}
+
+/**
+ * Hide the prompt until the next update
+ */
+export const dismissUpdate = () => setWaiting(null);
@@ -0,0 +1,168 @@
+import { DEFAULT_AUTOSAVE_DELAY_MS, DEFAULT_DRIVE_FOLDER_NAME, DEFAULT_TRASH_RETENTION_DAYS } from '../constants';
+import { AppSettings, ClockFormat, EditorFontSize, EditorMode, ImageFormat, ImageSettings, Language, ThemePreference } from '../types';
+
+// ==========================================
+// SETTINGS
+// ==========================================
+// User preferences, stored together with a schema version. Stored settings
+// from an older version are upgraded one version at a time; a value that is
+// missing or invalid falls back to its default, so adding a setting only
+// needs a default here.
+
+const SETTINGS_KEY = 'zenjournal_settings';
+const SETTINGS_VERSION = 2;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  autosaveDelayMs: DEFAULT_AUTOSAVE_DELAY_MS,
+  driveFolderName: DEFAULT_DRIVE_FOLDER_NAME,
+  timeZone: '',
+  locale: '',
+  clock: 'auto',
+  defaultView: 'editor',
+  editorFontSize: 'medium',
+  syncOnFocus: true,
+  theme: 'light',
+  language: '',
+  googleClientId: '',
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+  photos: {
+    maxDimension: 2048,
+    format: 'webp',
+    quality: 0.82,
+    keepCaptureDate: false,
+  },
+  editorMode: 'edit',
+};
+
+export const AUTOSAVE_DELAY_OPTIONS = [500, 1000, 2000, 5000, 10000];
+export const CLOCK_FORMATS: ClockFormat[] = ['auto', '12h', '24h'];
+export const EDITOR_FONT_SIZES: EditorFontSize[] = ['small', 'medium', 'large'];
+export const THEME_PREFERENCES: ThemePreference[] = ['system', 'light', 'sepia', 'dark'];
+export const LANGUAGES: Language[] = ['en', 'fr', 'ar'];
+export const START_VIEWS: AppSettings['defaultView'][] = ['editor', 'table', 'calendar', 'insights'];
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+const EDITOR_MODES: EditorMode[] = ['edit', 'split', 'preview'];
+const IMAGE_FORMATS: ImageFormat[] = ['webp', 'jpeg'];
+
+// Before version 1 the timezone and locale had a key of their own
+const LEGACY_DATE_SETTINGS_KEY = 'zenjournal_date_settings';
+// Before version 2 these had a key of their own too
+const LEGACY_CLIENT_ID_KEY = 'zenjournal_client_id';
+const LEGACY_TRASH_RETENTION_KEY = 'zenjournal_trash_retention_days';
+const LEGACY_IMAGE_SETTINGS_KEY = 'zenjournal_image_settings';
+const LEGACY_EDITOR_MODE_KEY = 'zenjournal_editor_mode';
+// Removed once their values are saved with the settings
+const LEGACY_KEYS = [LEGACY_DATE_SETTINGS_KEY, LEGACY_CLIENT_ID_KEY, LEGACY_TRASH_RETENTION_KEY, LEGACY_IMAGE_SETTINGS_KEY, LEGACY_EDITOR_MODE_KEY];
+
+const readLegacyJson = (key: string) => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Upgrades from each stored version to the next; entry n upgrades version n.
+ * Version 0 is a browser that never saved settings.
+ */
+const MIGRATIONS: Array<(stored: any) => any> = [
+  (stored) => {
+    const legacy = readLegacyJson(LEGACY_DATE_SETTINGS_KEY);
+    return { ...stored, timeZone: legacy?.timeZone, locale: legacy?.locale };
+  },
+  (stored) => ({
+    ...stored,
+    googleClientId: localStorage.getItem(LEGACY_CLIENT_ID_KEY) ?? undefined,
+    trashRetentionDays: parseInt(localStorage.getItem(LEGACY_TRASH_RETENTION_KEY) || '', 10),
+    photos: readLegacyJson(LEGACY_IMAGE_SETTINGS_KEY),
+    editorMode: localStorage.getItem(LEGACY_EDITOR_MODE_KEY),
+  }),
+];
+
+// Cached so React sees a stable value until the settings change
+let cachedSettings: AppSettings | null = null;
+const listeners = new Set<() => void>();
+
+const isOneOf = <T>(options: readonly T[], value: any): value is T => options.includes(value);
+
+const sanitizePhotos = (stored: any): ImageSettings => {
+  const defaults = DEFAULT_SETTINGS.photos;
+  return {
+    maxDimension: Number.isInteger(stored?.maxDimension) && stored.maxDimension > 0 ? stored.maxDimension : defaults.maxDimension,
+    format: isOneOf(IMAGE_FORMATS, stored?.format) ? stored.format : defaults.format,
+    quality: typeof stored?.quality === 'number' && stored.quality > 0 && stored.quality <= 1 ? stored.quality : defaults.quality,
+    keepCaptureDate: stored?.keepCaptureDate === true,
+  };
+};
+
+/**
+ * Keep the valid stored values, defaults for the rest
+ */
+function sanitize(stored: any): AppSettings {
+  const pick = <K extends keyof AppSettings>(key: K, isValid: (value: any) => boolean): AppSettings[K] =>
+    isValid(stored?.[key]) ? stored[key] : DEFAULT_SETTINGS[key];
+  const isText = (value: any) => typeof value === 'string';
+
+  return {
+    autosaveDelayMs: pick('autosaveDelayMs', v => Number.isFinite(v) && v >= 250 && v <= 60000),
+    driveFolderName: pick('driveFolderName', v => isText(v) && v.trim().length > 0),
+    timeZone: pick('timeZone', isText),
+    locale: pick('locale', isText),
+    clock: pick('clock', v => isOneOf(CLOCK_FORMATS, v)),
+    defaultView: pick('defaultView', v => isOneOf(START_VIEWS, v)),
+    editorFontSize: pick('editorFontSize', v => isOneOf(EDITOR_FONT_SIZES, v)),
+    syncOnFocus: pick('syncOnFocus', v => typeof v === 'boolean'),
+    theme: pick('theme', v => isOneOf(THEME_PREFERENCES, v)),
+    language: pick('language', v => v === '' || isOneOf(LANGUAGES, v)),
+    googleClientId: pick('googleClientId', v => isText(v)).trim(),
+    trashRetentionDays: pick('trashRetentionDays', v => Number.isInteger(v) && v > 0),
+    photos: sanitizePhotos(stored?.photos),
+    editorMode: pick('editorMode', v => isOneOf(EDITOR_MODES, v)),
+  };
+}
+
+const writeSettings = (settings: AppSettings) =>
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ version: SETTINGS_VERSION, settings }));
+
+export function getSettings(): AppSettings {
+  if (cachedSettings) return cachedSettings;
+  let settings = DEFAULT_SETTINGS;
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    let version = typeof stored?.version === 'number' ? stored.version : 0;
+    let values = stored?.settings ?? {};
+    if (version < SETTINGS_VERSION) {
+      for (; version < SETTINGS_VERSION; version++) values = MIGRATIONS[version](values);
+      settings = sanitize(values);
+      writeSettings(settings);
+      LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+    } else {
+      // Also reads settings saved by a newer version, keeping what this one understands
+      settings = sanitize(values);
+    }
+  } catch {
+    // Unreadable settings: use the defaults
+  }
+  cachedSettings = settings;
+  return cachedSettings;
+}
+
+/**
+ * Change some settings; the others keep their value
+ */
+export function saveSettings(changes: Partial<AppSettings>): AppSettings {
+  const settings = sanitize({ ...getSettings(), ...changes });
+  writeSettings(settings);
+  cachedSettings = settings;
+  listeners.forEach(listener => listener());
+  return settings;
+}
+
+/**
+ * Be notified when the settings change; returns the unsubscribe function
+ */
+export function subscribeSettings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
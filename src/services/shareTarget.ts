@@ -0,0 +1,64 @@
+// ==========================================
+// SHARE TARGET
+// ==========================================
+// The installed app is offered in the system share sheet (share_target in
+// public/manifest.webmanifest). The service worker (src/sw.js) receives the
+// share, keeps it in a cache and opens the app with `?share-target`; the app
+// then takes the content out of the cache to start a new entry with it.
+
+const SHARE_CACHE = 'zenjournal-share';
+const SHARE_PARAM = 'share-target';
+
+export interface SharedContent {
+  title: string;
+  text: string;
+  url: string;
+  files: File[];
+}
+
+/**
+ * Whether the app was opened from the share sheet
+ */
+export const isShareLaunch = () => new URLSearchParams(window.location.search).has(SHARE_PARAM);
+
+/**
+ * The content waiting from the last share, removed so it is only used once
+ */
+export async function takeSharedContent(): Promise<SharedContent | null> {
+  // A reload or bookmark of this address shouldn't look for the share again
+  const pageUrl = new URL(window.location.href);
+  pageUrl.searchParams.delete(SHARE_PARAM);
+  window.history.replaceState(window.history.state, '', pageUrl);
+
+  if (!('caches' in window)) return null;
+  try {
+    const cache = await caches.open(SHARE_CACHE);
+    const summary = await cache.match(`${import.meta.env.BASE_URL}${SHARE_PARAM}`);
+    if (!summary) return null;
+    const shared = await summary.json();
+    const files: File[] = [];
+    for (const [i, listed] of (shared.files ?? []).entries()) {
+      const response = await cache.match(listed.url);
+      if (!response) continue;
+      const blob = await response.blob();
+      files.push(new File([blob], listed.name || `shared-${i + 1}`, { type: listed.type || blob.type }));
+    }
+    return { title: shared.title ?? '', text: shared.text ?? '', url: shared.url ?? '', files };
+  } catch (e) {
+    console.warn('Could not read the shared content', e);
+    return null;
+  } finally {
+    await caches.delete(SHARE_CACHE);
+  }
+}
+
+/**
+ * The entry text for shared content: the text, then the link unless the
+ * text already has it (apps often put the link in the text)
+ */
+export function sharedEntryText(shared: SharedContent): string {
+  const text = shared.text.trim();
+  const url = shared.url.trim();
+  if (!url || text.includes(url)) return text;
+  return text ? `${text}\n\n${url}` : url;
+}
@@ -0,0 +1,37 @@
+import { SmartFilter } from '../types';
+
+// ==========================================
+// SMART FILTERS
+// ==========================================
+// Named search queries, saved from the table view and shown in the sidebar.
+
+const SMART_FILTERS_KEY = 'zenjournal_smart_filters';
+
+export function getSmartFilters(): SmartFilter[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SMART_FILTERS_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save a query under a name. A filter with the same name is replaced.
+ */
+export function saveSmartFilter(name: string, query: string): SmartFilter[] {
+  const existing = getSmartFilters();
+  const previous = existing.find(f => f.name.toLowerCase() === name.toLowerCase());
+  const filter: SmartFilter = { id: previous?.id || Date.now().toString(), name, query };
+  const filters = previous
+    ? existing.map(f => (f.id === previous.id ? filter : f))
+    : [...existing, filter];
+  localStorage.setItem(SMART_FILTERS_KEY, JSON.stringify(filters));
+  return filters;
+}
+
+export function deleteSmartFilter(id: string): SmartFilter[] {
+  const filters = getSmartFilters().filter(f => f.id !== id);
+  localStorage.setItem(SMART_FILTERS_KEY, JSON.stringify(filters));
+  return filters;
+}
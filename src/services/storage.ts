@@ -1,9 +1,50 @@
 
-import { JournalEntry } from '../types';
+import { REVISION_COALESCE_MS, REVISION_LARGE_EDIT_CHARS, REVISION_KEEP_ALL_MS, REVISION_RETENTION_DAYS } from '../constants';
+import { EntryRevision, EntryTombstone, JournalEntry, SearchDoc, SearchField, SearchHit, SearchPosting, StoredImage, SyncBase, SyncOperation } from '../types';
+import { queryTerms, termCounts } from './search';
+import { removeImageTokens } from './markdown';
+import { migrateLegacyMood } from './moodScale';
+import { zonedDayKey } from './dateTime';
 
 const DB_NAME = 'ZenJournalDB';
-const DB_VERSION = 1;
+const DB_VERSION = 9;
 const STORE_NAME = 'entries';
+const OUTBOX_STORE = 'outbox';
+const SYNC_BASE_STORE = 'syncBase';
+const TOMBSTONE_STORE = 'tombstones';
+const IMAGE_STORE = 'images';
+const THUMBNAIL_STORE = 'thumbnails';
+const REVISION_STORE = 'revisions';
+const SEARCH_INDEX_STORE = 'searchIndex';
+const SEARCH_DOC_STORE = 'searchDocs';
+
+/**
+ * Decode a base64 data URL (the pre-v5 image format) into a Blob
+ */
+const dataUrlToBlob = (dataUrl: string, mimeType: string): Blob => {
+  const byteCharacters = atob(dataUrl.split(',')[1] || '');
+  const byteArray = new Uint8Array(byteCharacters.length);
+  for (let i = 0; i < byteCharacters.length; i++) {
+    byteArray[i] = byteCharacters.charCodeAt(i);
+  }
+  return new Blob([byteArray], { type: mimeType });
+};
+
+/**
+ * A stored record with its mood, and those of a pending sync conflict, as
+ * mood scale ids (the v8 migration)
+ */
+const withMigratedMoods = (record: any) => {
+  const migrated = { ...record, mood: migrateLegacyMood(record.mood) };
+  if (record.conflict) {
+    migrated.conflict = {
+      ...record.conflict,
+      base: { ...record.conflict.base, mood: migrateLegacyMood(record.conflict.base.mood) },
+      remote: { ...record.conflict.remote, mood: migrateLegacyMood(record.conflict.remote.mood) },
+    };
+  }
+  return migrated;
+};
 
 /**
  * Open the IndexedDB database
@@ -18,6 +59,82 @@ const openDB = (): Promise<IDBDatabase> => {
         const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
         store.createIndex('updatedAt', 'updatedAt', { unique: false });
       }
+      // v2: queue of Drive writes waiting to be replayed
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true });
+        outbox.createIndex('entryId', 'entryId', { unique: false });
+      }
+      // v3: last-synced version of each entry, the base for three-way merges
+      if (!db.objectStoreNames.contains(SYNC_BASE_STORE)) {
+        db.createObjectStore(SYNC_BASE_STORE, { keyPath: 'id' });
+      }
+      // v4: ids of deleted entries, so sync never brings them back
+      if (!db.objectStoreNames.contains(TOMBSTONE_STORE)) {
+        db.createObjectStore(TOMBSTONE_STORE, { keyPath: 'id' });
+      }
+      // v5: image Blobs move out of the entry records; entries keep { id, mimeType }
+      if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+        db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+      }
+      // v6: timestamped snapshots of each entry
+      if (!db.objectStoreNames.contains(REVISION_STORE)) {
+        const revisions = db.createObjectStore(REVISION_STORE, { keyPath: 'seq', autoIncrement: true });
+        revisions.createIndex('entryId', 'entryId', { unique: false });
+      }
+      // v7: full-text inverted index, built from the existing entries
+      if (!db.objectStoreNames.contains(SEARCH_INDEX_STORE)) {
+        const postings = db.createObjectStore(SEARCH_INDEX_STORE, { keyPath: ['term', 'entryId'] });
+        postings.createIndex('entryId', 'entryId', { unique: false });
+        db.createObjectStore(SEARCH_DOC_STORE, { keyPath: 'entryId' });
+
+        if (event.oldVersion > 0) {
+          const transaction = (event.target as IDBOpenDBRequest).transaction!;
+          const cursorRequest = transaction.objectStore(STORE_NAME).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            writeSearchIndex(transaction, cursor.value);
+            cursor.continue();
+          };
+        }
+      }
+      // v8: moods become ids of the configurable scale ("Good" -> "good")
+      if (event.oldVersion > 0 && event.oldVersion < 8) {
+        const transaction = (event.target as IDBOpenDBRequest).transaction!;
+        // Before v5 the image migration below rewrites every entry and migrates the mood with it
+        const storeNames = event.oldVersion < 5 ? [REVISION_STORE, SYNC_BASE_STORE] : [STORE_NAME, REVISION_STORE, SYNC_BASE_STORE];
+        for (const storeName of storeNames) {
+          const cursorRequest = transaction.objectStore(storeName).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            cursor.update(withMigratedMoods(cursor.value));
+            cursor.continue();
+          };
+        }
+      }
+      if (event.oldVersion > 0 && event.oldVersion < 5) {
+        const transaction = (event.target as IDBOpenDBRequest).transaction!;
+        const images = transaction.objectStore(IMAGE_STORE);
+        const cursorRequest = transaction.objectStore(STORE_NAME).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          const entry = cursor.value;
+          entry.images = (entry.images || []).map((img: any) => {
+            if (typeof img.data === 'string' && img.data.startsWith('data:')) {
+              images.put({ id: img.id, blob: dataUrlToBlob(img.data, img.mimeType) });
+            }
+            return { id: img.id, mimeType: img.mimeType };
+          });
+          cursor.update(withMigratedMoods(entry));
+          cursor.continue();
+        };
+      }
+      // v9: small versions of the images for lists (same ids as the images store)
+      if (!db.objectStoreNames.contains(THUMBNAIL_STORE)) {
+        db.createObjectStore(THUMBNAIL_STORE, { keyPath: 'id' });
+      }
     };
 
     request.onsuccess = (event) => {
@@ -31,16 +148,39 @@ const openDB = (): Promise<IDBDatabase> => {
 };
 
 /**
- * Save an entry (create or update)
+ * Save an entry (create or update), record it in the entry's history and re-index it
  */
 export const saveEntry = async (entry: JournalEntry): Promise<void> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const transaction = db.transaction([STORE_NAME, REVISION_STORE, SEARCH_INDEX_STORE, SEARCH_DOC_STORE, IMAGE_STORE, THUMBNAIL_STORE], 'readwrite');
+    transaction.objectStore(STORE_NAME).put(entry);
+    removeFromSearchIndex(transaction, entry.id, () => writeSearchIndex(transaction, entry));
+
+    const revisions = transaction.objectStore(REVISION_STORE);
+    const request = revisions.index('entryId').getAll(entry.id);
+    request.onsuccess = () => {
+      const history: EntryRevision[] = request.result;
+      const dropped = recordRevision(revisions, history, entry, Date.now());
+      deleteUnreferencedImages(transaction, dropped, entry, history.filter(revision => !dropped.includes(revision)));
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Get a single entry by id
+ */
+export const getEntry = async (id: string): Promise<JournalEntry | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readonly');
     const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(entry);
+    const request = store.get(id);
 
-    request.onsuccess = () => resolve();
+    request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 };
@@ -73,16 +213,529 @@ export const getAllEntries = async (): Promise<JournalEntry[]> => {
 };
 
 /**
- * Delete an entry
+ * Delete an entry (with its sync base, history, search postings and image Blobs)
  */
 export const deleteEntry = async (id: string): Promise<void> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(id);
+    const transaction = db.transaction([STORE_NAME, SYNC_BASE_STORE, IMAGE_STORE, THUMBNAIL_STORE, REVISION_STORE, SEARCH_INDEX_STORE, SEARCH_DOC_STORE], 'readwrite');
+    const deleteImage = (imageId: string) => {
+      transaction.objectStore(IMAGE_STORE).delete(imageId);
+      transaction.objectStore(THUMBNAIL_STORE).delete(imageId);
+    };
+    removeFromSearchIndex(transaction, id);
+    const entries = transaction.objectStore(STORE_NAME);
+    const request = entries.get(id);
+
+    request.onsuccess = () => {
+      const entry: JournalEntry | undefined = request.result;
+      entry?.images.forEach(img => deleteImage(img.id));
+      entries.delete(id);
+      transaction.objectStore(SYNC_BASE_STORE).delete(id);
+    };
+
+    // History goes too, along with images only older revisions referenced
+    const revisions = transaction.objectStore(REVISION_STORE);
+    const historyRequest = revisions.index('entryId').getAll(id);
+    historyRequest.onsuccess = () => {
+      for (const revision of historyRequest.result as EntryRevision[]) {
+        revision.images.forEach(img => deleteImage(img.id));
+        revisions.delete(revision.seq!);
+      }
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// ==========================================
+// SEARCH INDEX (term -> entries postings)
+// ==========================================
+
+// Title matches count this many times a body match
+const TITLE_WEIGHT = 2.5;
+// Words that only start with a query term score a bit lower than exact words
+const PREFIX_MATCH_FACTOR = 0.8;
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Add an entry's postings and doc record (inside an open transaction)
+ */
+const writeSearchIndex = (transaction: IDBTransaction, entry: JournalEntry) => {
+  const postings = transaction.objectStore(SEARCH_INDEX_STORE);
+  const titleCounts = termCounts(entry.title);
+  const bodyCounts = termCounts(removeImageTokens(entry.content));
+
+  for (const term of new Set([...titleCounts.keys(), ...bodyCounts.keys()])) {
+    const posting: SearchPosting = { term, entryId: entry.id, title: titleCounts.get(term) || 0, body: bodyCounts.get(term) || 0 };
+    postings.put(posting);
+  }
+
+  const sum = (counts: Map<string, number>) => [...counts.values()].reduce((a, b) => a + b, 0);
+  const doc: SearchDoc = { entryId: entry.id, titleLength: sum(titleCounts), bodyLength: sum(bodyCounts) };
+  transaction.objectStore(SEARCH_DOC_STORE).put(doc);
+};
+
+/**
+ * Drop an entry's postings and doc record (inside an open transaction)
+ */
+const removeFromSearchIndex = (transaction: IDBTransaction, entryId: string, then?: () => void) => {
+  const postings = transaction.objectStore(SEARCH_INDEX_STORE);
+  const request = postings.index('entryId').getAllKeys(entryId);
+  request.onsuccess = () => {
+    request.result.forEach(key => postings.delete(key));
+    transaction.objectStore(SEARCH_DOC_STORE).delete(entryId);
+    then?.();
+  };
+};
+
+/**
+ * Ranked full-text search. Every query term must match the start of a word
+ * in the title or content, or only in `field` (diacritics and case ignored).
+ * Scores are BM25 with title matches weighted up and prefix-only matches weighted down.
+ */
+export const searchEntries = async (query: string, field: SearchField = 'any'): Promise<SearchHit[]> => {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SEARCH_INDEX_STORE, SEARCH_DOC_STORE], 'readonly');
+    const postingsStore = transaction.objectStore(SEARCH_INDEX_STORE);
+    const docsRequest = transaction.objectStore(SEARCH_DOC_STORE).getAll();
+    const postingsByTerm: SearchPosting[][] = [];
+
+    terms.forEach((term, i) => {
+      // Compound keys sort by term first, so this range is every term starting with `term`
+      const request = postingsStore.getAll(IDBKeyRange.bound([term], [term + '\uffff']));
+      request.onsuccess = () => { postingsByTerm[i] = request.result; };
+    });
+
+    transaction.oncomplete = () => {
+      const docs = new Map<string, SearchDoc>((docsRequest.result as SearchDoc[]).map(d => [d.entryId, d]));
+      const docLength = (d: SearchDoc) => TITLE_WEIGHT * d.titleLength + d.bodyLength;
+      const avgLength = docs.size > 0 ? [...docs.values()].reduce((sum, d) => sum + docLength(d), 0) / docs.size : 1;
+
+      let scores: Map<string, number> | null = null;
+      for (let i = 0; i < terms.length; i++) {
+        const term = terms[i];
+        // Document frequency per expanded term, for idf
+        const df = new Map<string, number>();
+        const postings = postingsByTerm[i].filter(p =>
+          field === 'title' ? p.title > 0 : field === 'body' ? p.body > 0 : true
+        );
+        for (const p of postings) df.set(p.term, (df.get(p.term) || 0) + 1);
+
+        // Best-scoring expansion of this query term in each entry
+        const termScores = new Map<string, number>();
+        for (const p of postings) {
+          const doc = docs.get(p.entryId);
+          if (!doc) continue;
+          const n = df.get(p.term)!;
+          const idf = Math.log(1 + (docs.size - n + 0.5) / (n + 0.5));
+          const tf = (field === 'body' ? 0 : TITLE_WEIGHT * p.title) + (field === 'title' ? 0 : p.body);
+          const norm = tf * (BM25_K1 + 1) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * docLength(doc) / (avgLength || 1)));
+          const score = idf * norm * (p.term === term ? 1 : PREFIX_MATCH_FACTOR);
+          termScores.set(p.entryId, Math.max(termScores.get(p.entryId) || 0, score));
+        }
+
+        // AND: keep only entries matching every term so far
+        if (scores === null) {
+          scores = termScores;
+        } else {
+          const combined = new Map<string, number>();
+          for (const [id, score] of scores) {
+            if (termScores.has(id)) combined.set(id, score + termScores.get(id)!);
+          }
+          scores = combined;
+        }
+      }
+
+      resolve(
+        [...(scores || new Map<string, number>()).entries()]
+          .map(([entryId, score]) => ({ entryId, score, terms }))
+          .sort((a, b) => b.score - a.score)
+      );
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// ==========================================
+// REVISIONS (local history of each entry)
+// ==========================================
+
+/**
+ * Number of characters that differ between two texts, ignoring the common prefix and suffix
+ */
+const changedChars = (a: string, b: string): number => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+  return Math.max(a.length, b.length) - prefix - suffix;
+};
+
+const sameSnapshot = (revision: EntryRevision, entry: JournalEntry) =>
+  revision.title === entry.title &&
+  revision.content === entry.content &&
+  revision.mood === entry.mood &&
+  (revision.tags || []).join() === (entry.tags || []).join() &&
+  revision.images.map(img => img.id).join() === entry.images.map(img => img.id).join();
+
+/**
+ * Revisions dropped by the retention policy: everything from the last day is kept,
+ * older ones keep only the last revision of each day (in the chosen time zone),
+ * nothing past the retention window survives except the most recent revision.
+ */
+const expiredRevisions = (history: EntryRevision[], now: number): EntryRevision[] => {
+  const newestFirst = [...history].sort((a, b) => b.savedAt - a.savedAt);
+  const cutoff = now - REVISION_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const daysSeen = new Set<string>();
+
+  return newestFirst.filter((revision, i) => {
+    if (i === 0 || now - revision.savedAt < REVISION_KEEP_ALL_MS) return false;
+    if (revision.savedAt < cutoff) return true;
+    const day = zonedDayKey(revision.savedAt);
+    if (daysSeen.has(day)) return true;
+    daysSeen.add(day);
+    return false;
+  });
+};
+
+/**
+ * Fold a save into the history (inside an open transaction). Saves in quick
+ * succession update the latest revision; a new one starts after a pause or
+ * before a large edit, so the text it replaced stays recoverable.
+ * Returns the revisions replaced or dropped by the retention policy.
+ */
+const recordRevision = (store: IDBObjectStore, history: EntryRevision[], entry: JournalEntry, now: number): EntryRevision[] => {
+  const latest = history.reduce<EntryRevision | undefined>(
+    (newest, revision) => (!newest || revision.savedAt > newest.savedAt ? revision : newest),
+    undefined
+  );
+  if (latest && sameSnapshot(latest, entry)) return [];
+
+  const snapshot = {
+    entryId: entry.id,
+    title: entry.title,
+    content: entry.content,
+    mood: entry.mood,
+    tags: entry.tags,
+    images: entry.images,
+    savedAt: now,
+  };
+
+  const canCoalesce = latest &&
+    now - latest.startedAt < REVISION_COALESCE_MS &&
+    changedChars(latest.content, entry.content) < REVISION_LARGE_EDIT_CHARS;
+
+  if (canCoalesce) {
+    store.put({ ...snapshot, seq: latest.seq, startedAt: latest.startedAt });
+    return [latest];
+  }
+
+  store.add({ ...snapshot, startedAt: now });
+  const expired = expiredRevisions(history, now);
+  for (const revision of expired) {
+    store.delete(revision.seq!);
+  }
+  return expired;
+};
+
+/**
+ * Delete the Blobs of attachments only the dropped revisions referenced
+ * (inside an open transaction). Removed attachments are kept for as long as
+ * a revision can restore them; an unresolved conflict's versions count too.
+ */
+const deleteUnreferencedImages = (transaction: IDBTransaction, dropped: EntryRevision[], entry: JournalEntry, remaining: EntryRevision[]) => {
+  const referenced = new Set([
+    ...entry.images.map(img => img.id),
+    ...remaining.flatMap(revision => revision.images.map(img => img.id)),
+    ...(entry.conflict ? [...entry.conflict.base.imageIds, ...entry.conflict.remote.images.map(img => img.id)] : []),
+  ]);
+  for (const revision of dropped) {
+    for (const img of revision.images) {
+      if (referenced.has(img.id)) continue;
+      transaction.objectStore(IMAGE_STORE).delete(img.id);
+      transaction.objectStore(THUMBNAIL_STORE).delete(img.id);
+    }
+  }
+};
+
+/**
+ * Get an entry's revisions, newest first
+ */
+export const getRevisions = async (entryId: string): Promise<EntryRevision[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([REVISION_STORE], 'readonly');
+    const store = transaction.objectStore(REVISION_STORE);
+    const request = store.index('entryId').getAll(entryId);
+
+    request.onsuccess = () => resolve((request.result as EntryRevision[]).sort((a, b) => b.savedAt - a.savedAt));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// ==========================================
+// IMAGES (Blobs referenced by JournalAttachment.id)
+// ==========================================
+
+/**
+ * Store an image's bytes
+ */
+export const saveImageBlob = async (id: string, blob: Blob): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([IMAGE_STORE], 'readwrite');
+    const store = transaction.objectStore(IMAGE_STORE);
+    const image: StoredImage = { id, blob };
+    const request = store.put(image);
 
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
   });
 };
+
+/**
+ * Get an image's bytes, if they are on this device
+ */
+export const getImageBlob = async (id: string): Promise<Blob | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([IMAGE_STORE], 'readonly');
+    const store = transaction.objectStore(IMAGE_STORE);
+    const request = store.get(id);
+
+    request.onsuccess = () => resolve((request.result as StoredImage | undefined)?.blob);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Check whether an image's bytes are already on this device
+ */
+export const hasImageBlob = async (id: string): Promise<boolean> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([IMAGE_STORE], 'readonly');
+    const store = transaction.objectStore(IMAGE_STORE);
+    const request = store.count(id);
+
+    request.onsuccess = () => resolve(request.result > 0);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Store an image's thumbnail
+ */
+export const saveThumbnailBlob = async (id: string, blob: Blob): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([THUMBNAIL_STORE], 'readwrite');
+    const thumbnail: StoredImage = { id, blob };
+    const request = transaction.objectStore(THUMBNAIL_STORE).put(thumbnail);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Get an image's thumbnail, if one was made on this device
+ */
+export const getThumbnailBlob = async (id: string): Promise<Blob | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([THUMBNAIL_STORE], 'readonly');
+    const request = transaction.objectStore(THUMBNAIL_STORE).get(id);
+
+    request.onsuccess = () => resolve((request.result as StoredImage | undefined)?.blob);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// ==========================================
+// SYNC BASES (last version agreed with Drive)
+// ==========================================
+
+/**
+ * Get the last-synced version of an entry, if known
+ */
+export const getSyncBase = async (id: string): Promise<SyncBase | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SYNC_BASE_STORE], 'readonly');
+    const store = transaction.objectStore(SYNC_BASE_STORE);
+    const request = store.get(id);
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Every recorded sync base
+ */
+export const getAllSyncBases = async (): Promise<SyncBase[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SYNC_BASE_STORE], 'readonly');
+    const store = transaction.objectStore(SYNC_BASE_STORE);
+    const request = store.getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Record the version of an entry that now matches Drive
+ */
+export const saveSyncBase = async (base: SyncBase): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SYNC_BASE_STORE], 'readwrite');
+    const store = transaction.objectStore(SYNC_BASE_STORE);
+    const request = store.put(base);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// ==========================================
+// OUTBOX (pending Drive writes)
+// ==========================================
+
+/**
+ * Add or update a queued operation (seq is assigned on insert)
+ */
+export const putOutboxOp = async (op: SyncOperation): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([OUTBOX_STORE], 'readwrite');
+    const store = transaction.objectStore(OUTBOX_STORE);
+    const request = store.put(op);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Get a single queued operation
+ */
+export const getOutboxOp = async (seq: number): Promise<SyncOperation | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([OUTBOX_STORE], 'readonly');
+    const store = transaction.objectStore(OUTBOX_STORE);
+    const request = store.get(seq);
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Get all queued operations in the order they were recorded
+ */
+export const getOutboxOps = async (): Promise<SyncOperation[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([OUTBOX_STORE], 'readonly');
+    const store = transaction.objectStore(OUTBOX_STORE);
+    const request = store.getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Remove a queued operation once it has reached Drive (or is obsolete)
+ */
+export const deleteOutboxOp = async (seq: number): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([OUTBOX_STORE], 'readwrite');
+    const store = transaction.objectStore(OUTBOX_STORE);
+    const request = store.delete(seq);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Count queued operations
+ */
+export const countOutboxOps = async (): Promise<number> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([OUTBOX_STORE], 'readonly');
+    const store = transaction.objectStore(OUTBOX_STORE);
+    const request = store.count();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// ==========================================
+// TOMBSTONES (deleted entries)
+// ==========================================
+
+/**
+ * Record that an entry was deleted
+ */
+export const saveTombstone = async (tombstone: EntryTombstone): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([TOMBSTONE_STORE], 'readwrite');
+    const store = transaction.objectStore(TOMBSTONE_STORE);
+    const request = store.put(tombstone);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Get a tombstone by entry id
+ */
+export const getTombstone = async (id: string): Promise<EntryTombstone | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([TOMBSTONE_STORE], 'readonly');
+    const store = transaction.objectStore(TOMBSTONE_STORE);
+    const request = store.get(id);
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Get all tombstones
+ */
+export const getAllTombstones = async (): Promise<EntryTombstone[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([TOMBSTONE_STORE], 'readonly');
+    const store = transaction.objectStore(TOMBSTONE_STORE);
+    const request = store.getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
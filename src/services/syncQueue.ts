@@ -0,0 +1,183 @@
+import { OUTBOX_RETRY_BASE_MS, OUTBOX_RETRY_MAX_MS } from '../constants';
+import { JournalEntry, SyncOperation } from '../types';
+import { getEntry, saveEntry, getOutboxOp, getOutboxOps, putOutboxOp, deleteOutboxOp, countOutboxOps, getSyncBase, saveSyncBase } from './storage';
+import { reconcileEntry, toSyncBase } from './merge';
+import { syncEntryToDrive, syncAttachmentToDrive, deleteEntryFromDrive, fetchEntryIfChanged, AUTH_ERROR_MSG } from './driveService';
+
+export interface OutboxResult {
+  remaining: number;
+  nextAttemptAt: number | null; // When the head of the queue may be retried
+  pulled: JournalEntry[]; // Local entries replaced by a merge with a newer version found in Drive
+}
+
+/**
+ * Delay before retry number `attempts` (1-based): base * 2^(attempts-1), capped
+ */
+function backoffDelay(attempts: number): number {
+  return Math.min(OUTBOX_RETRY_BASE_MS * 2 ** (attempts - 1), OUTBOX_RETRY_MAX_MS);
+}
+
+/**
+ * Queue an entry's text and any new attachments (photos, voice notes, files) for upload.
+ * Text writes are coalesced: the replay always reads the latest local version,
+ * so one pending create/update per entry is enough.
+ */
+export async function enqueueEntrySave(entry: JournalEntry, newImageIds: string[] = []): Promise<void> {
+  const ops = await getOutboxOps();
+  const pending = ops.filter(op => op.entryId === entry.id);
+
+  const pendingWrite = pending.find(op => op.type === 'create' || op.type === 'update');
+
+  if (pendingWrite) {
+    // Mark it so an in-flight replay of the older version doesn't dequeue it
+    await putOutboxOp({ ...pendingWrite, queuedAt: Date.now() });
+  } else {
+    await putOutboxOp({
+      type: entry.driveFileId ? 'update' : 'create',
+      entryId: entry.id,
+      queuedAt: Date.now(),
+      attempts: 0,
+      nextAttemptAt: 0,
+    });
+  }
+
+  for (const imageId of newImageIds) {
+    if (pending.some(op => op.type === 'image' && op.imageId === imageId)) continue;
+    await putOutboxOp({ type: 'image', entryId: entry.id, imageId, queuedAt: Date.now(), attempts: 0, nextAttemptAt: 0 });
+  }
+}
+
+/**
+ * Queue a Drive delete. Pending uploads for the entry are dropped.
+ */
+export async function enqueueEntryDelete(entry: JournalEntry): Promise<void> {
+  const ops = await getOutboxOps();
+  for (const op of ops) {
+    if (op.entryId === entry.id && op.type !== 'delete' && op.seq !== undefined) {
+      await deleteOutboxOp(op.seq);
+    }
+  }
+  await putOutboxOp({ type: 'delete', entryId: entry.id, entry, queuedAt: Date.now(), attempts: 0, nextAttemptAt: 0 });
+}
+
+/**
+ * Drop every queued write for an entry (it was deleted on another device)
+ */
+export async function cancelPendingForEntry(entryId: string): Promise<void> {
+  const ops = await getOutboxOps();
+  for (const op of ops) {
+    if (op.entryId === entryId && op.seq !== undefined) {
+      await deleteOutboxOp(op.seq);
+    }
+  }
+}
+
+/**
+ * Number of Drive writes still waiting
+ */
+export async function getPendingCount(): Promise<number> {
+  return await countOutboxOps();
+}
+
+/**
+ * Send one operation to Drive. Operations whose entry or image no longer exists are no-ops.
+ * Returns the entry when replaying changed it locally (merged with Drive's version).
+ */
+async function replay(op: SyncOperation, accessToken: string): Promise<JournalEntry | null> {
+  if (op.type === 'delete') {
+    if (op.entry) await deleteEntryFromDrive(op.entry, accessToken, op.queuedAt);
+    return null;
+  }
+
+  let entry = await getEntry(op.entryId);
+  // Unresolved conflicts stay local; resolving re-queues the entry
+  if (!entry || entry.conflict) return null;
+
+  // The sync base only lists images confirmed in Drive, so a pull that happens
+  // between the text upload and the image uploads doesn't drop local images
+  let base = await getSyncBase(entry.id);
+
+  if (op.type === 'image') {
+    const image = entry.images.find(img => img.id === op.imageId);
+    if (!image) return null;
+    await syncAttachmentToDrive(entry, image, accessToken);
+    if (base && !base.imageIds.includes(image.id)) {
+      await saveSyncBase({ ...base, imageIds: [...base.imageIds, image.id] });
+    }
+    return null;
+  }
+
+  // Another device may have saved the entry since it was last synced: merge its
+  // version in first rather than writing over it
+  let pulled: JournalEntry | null = null;
+  const knownFileId = base?.driveFileId || entry.driveFileId;
+  const remote = knownFileId ? await fetchEntryIfChanged(entry.id, knownFileId, base?.driveModifiedTime, accessToken) : null;
+  if (remote) {
+    const result = reconcileEntry(base, entry, remote);
+    if (result.action !== 'keep-local') {
+      base = toSyncBase(remote);
+      await saveSyncBase(base);
+      if (result.action === 'in-sync') return null;
+      await saveEntry(result.entry);
+      // Drive already has the remote version, and conflicts wait for the user
+      if (result.action !== 'merged') return result.entry;
+      entry = pulled = result.entry;
+    }
+  }
+
+  const written = await syncEntryToDrive(entry, accessToken);
+  const uploadedIds = new Set(base?.imageIds || []);
+  await saveSyncBase({
+    ...toSyncBase(entry),
+    imageIds: entry.images.map(img => img.id).filter(id => uploadedIds.has(id)),
+    driveFileId: written?.id || knownFileId,
+    driveModifiedTime: written?.modifiedTime,
+  });
+  return pulled;
+}
+
+/**
+ * Replay queued operations in order.
+ * Stops at the first failure so later writes never overtake earlier ones; the failed
+ * operation is rescheduled with exponential backoff. `force` ignores the schedule
+ * (used when connectivity or a token comes back). Auth errors are rethrown untouched.
+ */
+export async function processOutbox(accessToken: string, force = false): Promise<OutboxResult> {
+  const ops = await getOutboxOps();
+  const pulled = new Map<string, JournalEntry>();
+
+  for (const op of ops) {
+    if (!force && op.nextAttemptAt > Date.now()) break;
+
+    try {
+      const changed = await replay(op, accessToken);
+      if (changed) pulled.set(changed.id, changed);
+      const current = await getOutboxOp(op.seq!);
+      if (current && current.queuedAt === op.queuedAt) {
+        await deleteOutboxOp(op.seq!);
+      }
+    } catch (err: any) {
+      if (err.message === AUTH_ERROR_MSG) throw err;
+
+      // Re-read: the operation may have been coalesced or cancelled meanwhile
+      const current = await getOutboxOp(op.seq!);
+      if (current) {
+        const attempts = current.attempts + 1;
+        await putOutboxOp({
+          ...current,
+          attempts,
+          nextAttemptAt: Date.now() + backoffDelay(attempts),
+          lastError: err.message,
+        });
+      }
+      break;
+    }
+  }
+
+  const remaining = await getOutboxOps();
+  return {
+    remaining: remaining.length,
+    nextAttemptAt: remaining.length > 0 ? remaining[0].nextAttemptAt : null,
+    pulled: [...pulled.values()],
+  };
+}
@@ -0,0 +1,73 @@
+import { JournalEntry } from '../types';
+
+// ==========================================
+// TAGS
+// ==========================================
+// An entry's tags are the ones added as chips (entry.tags) plus every
+// #hashtag in its content. Tags are compared lowercased, without the "#".
+
+// A "#" at the start of a word (not inside a URL fragment or "&#..;"), then
+// letters, digits, "_" or "-", at least one of them a letter
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&#/])#([\p{L}\p{N}_-]*[\p{L}_][\p{L}\p{N}_-]*)/gu;
+const TAG_CHAR = '[\\p{L}\\p{N}_-]';
+
+/**
+ * Canonical form of a tag typed by the user, or '' when nothing is left
+ */
+export function normalizeTag(raw: string): string {
+  return raw
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .normalize('NFC')
+    .replace(/\s+/g, '-')
+    .replace(/[^\p{L}\p{N}_-]/gu, '');
+}
+
+/**
+ * Tags written as #hashtags in a text
+ */
+export function hashtags(text: string): string[] {
+  const found = new Set<string>();
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    const tag = normalizeTag(match[2]);
+    if (tag) found.add(tag);
+  }
+  return [...found];
+}
+
+/**
+ * All tags of an entry: chips first, then hashtags
+ */
+export function entryTags(entry: Pick<JournalEntry, 'tags' | 'content'>): string[] {
+  return [...new Set([...(entry.tags || []), ...hashtags(entry.content)])];
+}
+
+/**
+ * Every tag in use with the number of entries carrying it, most used first
+ */
+export function tagCounts(entries: JournalEntry[]): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    for (const tag of entryTags(entry)) counts.set(tag, (counts.get(tag) || 0) + 1);
+  }
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The entry with tag `from` renamed to `to`, in its chips and its #hashtags.
+ * When the entry already has `to`, the two merge. Null if nothing changed.
+ */
+export function renameTagInEntry(entry: JournalEntry, from: string, to: string): JournalEntry | null {
+  const tags = entry.tags || [];
+  const hadChip = tags.includes(from);
+  const newTags = hadChip ? [...new Set(tags.map(tag => (tag === from ? to : tag)))] : tags;
+
+  const pattern = new RegExp(`(^|[^\\p{L}\\p{N}_&#/])#${escapeRegExp(from)}(?!${TAG_CHAR})`, 'giu');
+  const content = entry.content.replace(pattern, `$1#${to}`);
+
+  if (!hadChip && content === entry.content) return null;
+  return { ...entry, tags: newTags, content, updatedAt: Date.now() };
+}
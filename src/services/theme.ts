@@ -0,0 +1,116 @@
+import { ResolvedTheme, ThemePreference } from '../types';
+
+// ==========================================
+// THEMES
+// ==========================================
+// Colors are CSS variables: the Tailwind config (tailwind.config.js) points every
+// shade of the palettes the app uses, plus paper, ink and surface (cards and
+// panels), at a variable, and this sets the variables for the chosen theme.
+// Class strings stay the same across themes; `white` and `black` are left
+// alone for photo overlays, so themed panels use `bg-surface` instead.
+
+const SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
+// Tailwind's palettes, 50 to 950
+const PALETTES: Record<string, string[]> = {
+  stone: ['#fafaf9', '#f5f5f4', '#e7e5e4', '#d6d3d1', '#a8a29e', '#78716c', '#57534e', '#44403c', '#292524', '#1c1917', '#0c0a09'],
+  red: ['#fef2f2', '#fee2e2', '#fecaca', '#fca5a5', '#f87171', '#ef4444', '#dc2626', '#b91c1c', '#991b1b', '#7f1d1d', '#450a0a'],
+  orange: ['#fff7ed', '#ffedd5', '#fed7aa', '#fdba74', '#fb923c', '#f97316', '#ea580c', '#c2410c', '#9a3412', '#7c2d12', '#431407'],
+  amber: ['#fffbeb', '#fef3c7', '#fde68a', '#fcd34d', '#fbbf24', '#f59e0b', '#d97706', '#b45309', '#92400e', '#78350f', '#451a03'],
+  lime: ['#f7fee7', '#ecfccb', '#d9f99d', '#bef264', '#a3e635', '#84cc16', '#65a30d', '#4d7c0f', '#3f6212', '#365314', '#1a2e05'],
+  green: ['#f0fdf4', '#dcfce7', '#bbf7d0', '#86efac', '#4ade80', '#22c55e', '#16a34a', '#15803d', '#166534', '#14532d', '#052e16'],
+  emerald: ['#ecfdf5', '#d1fae5', '#a7f3d0', '#6ee7b7', '#34d399', '#10b981', '#059669', '#047857', '#065f46', '#064e3b', '#022c22'],
+  teal: ['#f0fdfa', '#ccfbf1', '#99f6e4', '#5eead4', '#2dd4bf', '#14b8a6', '#0d9488', '#0f766e', '#115e59', '#134e4a', '#042f2e'],
+  sky: ['#f0f9ff', '#e0f2fe', '#bae6fd', '#7dd3fc', '#38bdf8', '#0ea5e9', '#0284c7', '#0369a1', '#075985', '#0c4a6e', '#082f49'],
+  blue: ['#eff6ff', '#dbeafe', '#bfdbfe', '#93c5fd', '#60a5fa', '#3b82f6', '#2563eb', '#1d4ed8', '#1e40af', '#1e3a8a', '#172554'],
+  indigo: ['#eef2ff', '#e0e7ff', '#c7d2fe', '#a5b4fc', '#818cf8', '#6366f1', '#4f46e5', '#4338ca', '#3730a3', '#312e81', '#1e1b4b'],
+  violet: ['#f5f3ff', '#ede9fe', '#ddd6fe', '#c4b5fd', '#a78bfa', '#8b5cf6', '#7c3aed', '#6d28d9', '#5b21b6', '#4c1d95', '#2e1065'],
+  pink: ['#fdf2f8', '#fce7f3', '#fbcfe8', '#f9a8d4', '#f472b6', '#ec4899', '#db2777', '#be185d', '#9d174d', '#831843', '#500724'],
+  rose: ['#fff1f2', '#ffe4e6', '#fecdd3', '#fda4af', '#fb7185', '#f43f5e', '#e11d48', '#be123c', '#9f1239', '#881337', '#4c0519'],
+};
+
+interface ThemeTokens {
+  paper: string; // Page background behind the writing
+  ink: string; // Body text
+  surface: string; // Cards, panels and modals; text on ink-colored buttons
+  stone: string[]; // The neutral scale, light to dark in the light theme
+  mirrorAccents: boolean; // Swap the light and dark ends of the colored palettes
+}
+
+const THEMES: Record<ResolvedTheme, ThemeTokens> = {
+  light: {
+    paper: '#fdfbf7',
+    ink: '#2d2a26',
+    surface: '#ffffff',
+    stone: PALETTES.stone,
+    mirrorAccents: false,
+  },
+  sepia: {
+    paper: '#f7efdf',
+    ink: '#3d3124',
+    surface: '#fbf6ea',
+    stone: ['#f6eedf', '#efe4cf', '#e2d3b7', '#cfbc9a', '#a8916f', '#85704f', '#66543a', '#52432e', '#3b3021', '#2b2318', '#1a150e'],
+    mirrorAccents: false,
+  },
+  // The neutral scale runs dark to light, so "stone-900" text is light and
+  // "stone-100" hover backgrounds are a step above the surface
+  dark: {
+    paper: '#181614',
+    ink: '#ece6dc',
+    surface: '#1c1a17',
+    stone: ['#151311', '#25221f', '#35312d', '#4a4540', '#78716c', '#a8a29e', '#c4bfba', '#d6d3d1', '#e7e5e4', '#f5f5f4', '#fafaf9'],
+    mirrorAccents: true,
+  },
+};
+
+// "r g b" so Tailwind's opacity modifiers (bg-stone-900/20) still work
+const channels = (hex: string) =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)).join(' ');
+
+// Tints become dark tints and dark text light; the middle shades (buttons, badges) stay
+const mirrored = (palette: string[]) =>
+  palette.map((color, i) => (i < 4 || i > 6 ? palette[palette.length - 1 - i] : color));
+
+/**
+ * The theme to show for a preference, following the system for 'system'
+ */
+export function resolveTheme(preference: ThemePreference, prefersDark = systemPrefersDark()): ResolvedTheme {
+  if (preference === 'system') return prefersDark ? 'dark' : 'light';
+  return preference;
+}
+
+const darkQuery = () => window.matchMedia?.('(prefers-color-scheme: dark)');
+
+export const systemPrefersDark = () => darkQuery()?.matches ?? false;
+
+/**
+ * Be notified when the system switches between light and dark; returns the unsubscribe function
+ */
+export function subscribeSystemTheme(listener: () => void): () => void {
+  const query = darkQuery();
+  if (!query) return () => {};
+  query.addEventListener('change', listener);
+  return () => query.removeEventListener('change', listener);
+}
+
+/**
+ * Set the color variables of a theme on the page
+ */
+export function applyTheme(theme: ResolvedTheme): void {
+  const tokens = THEMES[theme];
+  const root = document.documentElement;
+  const set = (name: string, hex: string) => root.style.setProperty(`--color-${name}`, channels(hex));
+
+  set('paper', tokens.paper);
+  set('ink', tokens.ink);
+  set('surface', tokens.surface);
+  for (const [name, palette] of Object.entries(PALETTES)) {
+    const colors = name === 'stone' ? tokens.stone : tokens.mirrorAccents ? mirrored(palette) : palette;
+    colors.forEach((color, i) => set(`${name}-${SHADES[i]}`, color));
+  }
+  root.dataset.theme = theme;
+  // Native controls, scrollbars and form fields follow along
+  root.style.colorScheme = theme === 'dark' ? 'dark' : 'light';
+  // The browser and installed-app title bar too
+  document.querySelector('meta[name="theme-color"]')?.setAttribute('content', tokens.paper);
+}
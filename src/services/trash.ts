@@ -0,0 +1,34 @@
+import { JournalEntry } from '../types';
+import { getSettings, saveSettings } from './settings';
+
+// ==========================================
+// TRASH
+// ==========================================
+// Deleting an entry sets deletedAt; it is purged for good once it has
+// been in the trash longer than the retention period.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days an entry stays in the trash before being purged
+ */
+export const getTrashRetentionDays = (): number => getSettings().trashRetentionDays;
+
+export function setTrashRetentionDays(days: number): void {
+  saveSettings({ trashRetentionDays: days });
+}
+
+/**
+ * When a trashed entry will be purged
+ */
+export function purgeDate(entry: JournalEntry, retentionDays = getTrashRetentionDays()): number {
+  return (entry.deletedAt || 0) + retentionDays * DAY_MS;
+}
+
+/**
+ * Trashed entries whose retention period is over
+ */
+export function expiredTrash(entries: JournalEntry[], now = Date.now()): JournalEntry[] {
+  const retentionDays = getTrashRetentionDays();
+  return entries.filter(entry => entry.deletedAt && purgeDate(entry, retentionDays) <= now);
+}
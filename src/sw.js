@@ -0,0 +1,114 @@
+// ==========================================
+// SERVICE WORKER
+// ==========================================
+// Serves the app shell from a cache so ZenJournal boots without a network.
+// The build (serviceWorker() in vite.config.ts) fills in the version and the
+// files to precache, so every deploy changes this file and the browser
+// installs the new worker next to the old one. The new worker waits until
+// the page asks it to take over (the "update available" prompt).
+
+const VERSION = __BUILD_VERSION__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const SHELL_CACHE = `zenjournal-shell-${VERSION}`;
+const FONT_CACHE = 'zenjournal-fonts';
+const FONT_ORIGINS = ['https://fonts.googleapis.com', 'https://fonts.gstatic.com'];
+
+// Precached paths are relative to the scope, so the app can live in a subfolder
+const scoped = (path) => new URL(path, self.registration.scope).href;
+const INDEX_URL = scoped('index.html');
+
+// Content shared from other apps (share_target in the manifest) waits here
+// until the page picks it up; must match src/services/shareTarget.ts
+const SHARE_CACHE = 'zenjournal-share';
+const SHARE_URL = scoped('share-target');
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then(cache => cache.addAll(PRECACHE_URLS.map(scoped)))
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith('zenjournal-shell-') && key !== SHELL_CACHE).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+/**
+ * Cached fonts right away, refreshed in the background for next time
+ */
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(FONT_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+}
+
+/**
+ * Keep what another app shared and open the app on it. The files go in as
+ * responses of their own, listed in a JSON summary at the share URL.
+ */
+async function receiveShare(request) {
+  const form = await request.formData();
+  const files = form.getAll('media').filter(file => file instanceof File && file.size > 0);
+
+  // A share the page never picked up is replaced, not merged
+  await caches.delete(SHARE_CACHE);
+  const cache = await caches.open(SHARE_CACHE);
+  const listed = await Promise.all(files.map(async (file, i) => {
+    const url = scoped(`share-target/${i}`);
+    await cache.put(url, new Response(file, { headers: { 'Content-Type': file.type || 'application/octet-stream' } }));
+    return { url, name: file.name, type: file.type };
+  }));
+  const field = (name) => String(form.get(name) || '');
+  await cache.put(SHARE_URL, Response.json({ title: field('title'), text: field('text'), url: field('url'), files: listed }));
+
+  // 303 so the browser follows with a GET, which gets the app shell
+  return Response.redirect(scoped('?share-target'), 303);
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method === 'POST' && request.url === SHARE_URL) {
+    event.respondWith(receiveShare(request));
+    return;
+  }
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Every page of the app is the same single-page shell, the one of this
+  // worker's build, so the page and its cached files always match
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(
+      caches.match(INDEX_URL, { cacheName: SHELL_CACHE }).then(cached => cached || fetch(request))
+    );
+    return;
+  }
+
+  if (FONT_ORIGINS.includes(url.origin)) {
+    event.respondWith(staleWhileRevalidate(request));
+    return;
+  }
+
+  // Built files have hashed names, so a cached copy is never stale
+  if (url.origin === self.location.origin) {
+    event.respondWith(
+      caches.match(request, { cacheName: SHELL_CACHE }).then(cached => cached || fetch(request))
+    );
+  }
+  // Drive, Google sign-in and everything else go straight to the network
+});
@@ -1,24 +1,183 @@
 
-export type Mood = 'Great' | 'Good' | 'Okay' | 'Bad';
+// Id of a level of the user's mood scale (see services/moodScale.ts)
+export type Mood = string;
+
+export type MoodColor = 'emerald' | 'teal' | 'sky' | 'indigo' | 'violet' | 'pink' | 'rose' | 'orange' | 'amber' | 'lime' | 'stone';
+
+export interface MoodLevel {
+  id: Mood;
+  label: string;
+  emoji: string;
+  color: MoodColor;
+  score: number; // For analytics; higher is better
+}
+
+// The mood scale as stored, and shared with other devices through Drive
+export interface StoredMoodScale {
+  levels: MoodLevel[]; // Default levels keep their English label
+  savedAt: number; // The newest scale wins when devices disagree
+}
+
+export type ViewMode = 'editor' | 'table' | 'calendar' | 'insights' | 'trash';
+
+export type EditorMode = 'edit' | 'preview' | 'split';
 
 export interface JournalEntry {
   id: string;
   title: string;
   content: string;
   mood?: Mood;
+  tags?: string[]; // Tags added as chips; #hashtags in the content count too (see services/tags.ts)
   createdAt: number;
+  timeZone?: string; // IANA zone the entry was written in; its dates show in it (see services/dateTime.ts)
   updatedAt: number;
-  images: JournalImage[];
+  images: JournalAttachment[]; // Photos, voice notes and files (the field predates the other kinds)
   driveFileName?: string; // Preferred filename for Google Drive
+  driveFileId?: string; // Drive ID of the entry's text file, once seen in Drive
+  driveModifiedTime?: string; // Drive's modifiedTime of that file when this version was read
+  conflict?: EntryConflict; // Set when another device edited the same region
+  deletedAt?: number; // Set while the entry is in the trash
 }
 
-export interface JournalImage {
-  id: string;
-  data: string; // Base64 string for simplicity in rendering
+export type AttachmentKind = 'image' | 'audio' | 'file';
+
+export interface JournalAttachment {
+  id: string; // Key of the Blob in the IndexedDB "images" store
+  kind?: AttachmentKind; // Missing on older records, which are all photos
   mimeType: string;
+  name?: string; // Original filename, shown for files
+  size?: number; // In bytes
+  duration?: number; // Voice notes, in seconds
+  capturedAt?: number; // When the photo was taken, kept only if the user opted in
+}
+
+export interface StoredImage {
+  id: string;
+  blob: Blob;
+}
+
+// Last version of an entry known to match Drive (the common ancestor for merges)
+export interface SyncBase {
+  id: string;
+  title: string;
+  content: string;
+  mood?: Mood;
+  tags?: string[];
+  imageIds: string[];
+  createdAt?: number; // Missing on bases recorded before the date could be edited
+  deletedAt?: number;
+  driveFileId?: string; // The entry's text file, so its removal can be traced back to the entry
+  driveModifiedTime?: string; // That file's modifiedTime at this version; a later one means another device saved
+}
+
+export interface EntryConflict {
+  base: SyncBase;
+  remote: JournalEntry; // The other device's version, kept until resolved
+  detectedAt: number;
+}
+
+// Marks an entry as deleted so every device drops it and nothing re-uploads it
+export interface EntryTombstone {
+  id: string; // Entry id
+  deletedAt: number;
+}
+
+// Snapshot of an entry in its local history
+export interface EntryRevision {
+  seq?: number; // Auto-assigned
+  entryId: string;
+  title: string;
+  content: string;
+  mood?: Mood;
+  tags?: string[];
+  images: JournalAttachment[];
+  startedAt: number; // First save folded into this revision
+  savedAt: number; // Last save folded into this revision
+}
+
+// Full-text index records: one posting per (term, entry), one doc per entry
+export interface SearchPosting {
+  term: string; // Folded (lowercase, no diacritics)
+  entryId: string;
+  title: number; // Occurrences in the title
+  body: number; // Occurrences in the content
+}
+
+export interface SearchDoc {
+  entryId: string;
+  titleLength: number; // In terms
+  bodyLength: number;
+}
+
+export type SearchField = 'any' | 'title' | 'body';
+
+export interface SearchHit {
+  entryId: string;
+  score: number;
+  terms: string[]; // Query terms, folded, for highlighting
 }
 
 export interface SaveStatus {
   state: 'idle' | 'saving' | 'saved' | 'error';
   lastSaved?: Date;
 }
+
+// A Drive write waiting in the offline outbox
+export interface SyncOperation {
+  seq?: number; // Auto-assigned; replay order
+  type: 'create' | 'update' | 'delete' | 'image'; // 'image' uploads any attachment
+  entryId: string;
+  imageId?: string; // For 'image' operations
+  entry?: JournalEntry; // Snapshot for 'delete' (the local record is already gone)
+  queuedAt: number; // Bumped when a newer save is coalesced into this operation
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface SmartFilter {
+  id: string;
+  name: string;
+  query: string; // Search query, see services/query.ts
+}
+
+export type ClockFormat = 'auto' | '12h' | '24h';
+
+export type EditorFontSize = 'small' | 'medium' | 'large';
+
+export type Language = 'en' | 'fr' | 'ar';
+
+// A message with a form per plural category of the language (see services/i18n.ts)
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type ThemePreference = 'system' | 'light' | 'sepia' | 'dark';
+
+export type ResolvedTheme = Exclude<ThemePreference, 'system'>;
+
+export type ImageFormat = 'webp' | 'jpeg';
+
+// How new photos are processed, see services/imageProcessing.ts
+export interface ImageSettings {
+  maxDimension: number; // Longest side in pixels
+  format: ImageFormat;
+  quality: number; // 0..1
+  keepCaptureDate: boolean;
+}
+
+// User preferences, see services/settings.ts
+export interface AppSettings {
+  autosaveDelayMs: number;
+  driveFolderName: string; // Root folder in Drive; entries are filed in date folders inside it
+  timeZone: string; // IANA zone, or '' to follow the device
+  locale: string; // BCP 47 tag for date formats, or '' to follow the UI language
+  clock: ClockFormat;
+  defaultView: Exclude<ViewMode, 'trash'>; // Shown when the app opens
+  editorFontSize: EditorFontSize;
+  syncOnFocus: boolean; // Check Drive for changes when the app comes back to the foreground
+  theme: ThemePreference; // 'system' follows prefers-color-scheme (see services/theme.ts)
+  language: Language | ''; // UI language, or '' to follow the browser
+  googleClientId: string; // OAuth client for Drive, or '' for the built-in one
+  trashRetentionDays: number; // Trashed entries are purged after this long
+  photos: ImageSettings;
+  editorMode: EditorMode; // Last layout picked in the editor
+}
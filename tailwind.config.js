@@ -0,0 +1,28 @@
+/** @type {import('tailwindcss').Config} */
+
+// Colors are CSS variables set for the current theme by src/services/theme.ts
+const themed = (name) => `rgb(var(--color-${name}) / <alpha-value>)`;
+const themedPalette = (name) => Object.fromEntries(
+  [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950].map(shade => [shade, themed(`${name}-${shade}`)])
+);
+
+export default {
+  content: ['./index.html', './index.tsx', './src/**/*.{ts,tsx}'],
+  theme: {
+    extend: {
+      fontFamily: {
+        sans: ['Inter', 'sans-serif'],
+        serif: ['Lora', 'serif'],
+      },
+      colors: {
+        paper: themed('paper'),
+        ink: themed('ink'),
+        surface: themed('surface'),
+        ...Object.fromEntries(
+          ['stone', 'red', 'orange', 'amber', 'lime', 'green', 'emerald', 'teal', 'sky', 'blue', 'indigo', 'violet', 'pink', 'rose']
+            .map(name => [name, themedPalette(name)])
+        ),
+      },
+    },
+  },
+};
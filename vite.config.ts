@@ -1,7 +1,52 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * Emits the service worker (src/sw.js) with the build's files to precache
+ * and a version that changes whenever any of them does
+ */
+function serviceWorker(): Plugin {
+    let publicDir = '';
+    const listFiles = (dir: string): string[] => fs.existsSync(dir)
+        ? fs.readdirSync(dir, { withFileTypes: true }).flatMap(item => item.isDirectory()
+            ? listFiles(path.join(dir, item.name)).map(file => `${item.name}/${file}`)
+            : [item.name])
+        : [];
+
+    return {
+        name: 'zenjournal-service-worker',
+        apply: 'build',
+        enforce: 'post',
+        configResolved(config) {
+            publicDir = config.publicDir;
+        },
+        generateBundle(_options, bundle) {
+            const hash = createHash('sha256');
+            const built = Object.values(bundle).filter(file => !file.fileName.endsWith('.map'));
+            for (const file of built) {
+                hash.update(file.fileName).update(file.type === 'chunk' ? file.code : file.source);
+            }
+            const publicFiles = listFiles(publicDir);
+            for (const file of publicFiles) {
+                hash.update(file).update(fs.readFileSync(path.join(publicDir, file)));
+            }
+
+            const urls = [...built.map(file => file.fileName), ...publicFiles].sort();
+            const template = fs.readFileSync(path.resolve(__dirname, 'src/sw.js'), 'utf-8');
+            this.emitFile({
+                type: 'asset',
+                fileName: 'sw.js',
+                source: template
+                    .replace('__BUILD_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+                    .replace('__PRECACHE_URLS__', JSON.stringify(urls, null, 2)),
+            });
+        },
+    };
+}
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +54,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)